@@ -1,4 +1,5 @@
 import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
 
 const GBIF_BASE = 'https://api.gbif.org/v1';
 
@@ -7,6 +8,9 @@ const GBIF_BASE = 'https://api.gbif.org/v1';
  * Uses GBIF's iucnRedListCategory filter
  */
 export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
   const { searchParams } = new URL(req.url);
 
   console.log('🔴 GBIF ENDANGERED OCCURRENCES API called with params:', Object.fromEntries(searchParams.entries()));
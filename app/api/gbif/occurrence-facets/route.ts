@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
+
+const GBIF_BASE = 'https://api.gbif.org/v1';
+
+// Occurrence filters passed straight through to GBIF
+const FILTER_PARAMS = ['taxonKey', 'scientificName', 'classKey', 'iucnRedListCategory', 'continent', 'country', 'geometry', 'year'];
+
+// Facets this route is allowed to request
+const ALLOWED_FACETS = ['speciesKey', 'country', 'continent', 'year', 'month'];
+
+/**
+ * Count GBIF occurrences grouped by a facet (e.g. species, country or year)
+ * Returns only the facet counts, never the occurrence records
+ */
+export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+
+  console.log('📊 GBIF OCCURRENCE FACETS API called with params:', Object.fromEntries(searchParams.entries()));
+
+  const facet = searchParams.get('facet');
+  if (!facet || !ALLOWED_FACETS.includes(facet)) {
+    return new Response(
+      JSON.stringify({ error: `facet parameter must be one of: ${ALLOWED_FACETS.join(', ')}` }),
+      { status: 400 }
+    );
+  }
+
+  const params = new URLSearchParams({
+    limit: '0',
+    facet,
+    facetLimit: searchParams.get('facetLimit') ?? '50',
+    hasCoordinate: 'true',
+    hasGeospatialIssue: 'false'
+  });
+
+  FILTER_PARAMS.forEach(name => {
+    const value = searchParams.get(name);
+    if (value) params.set(name, value);
+  });
+
+  const url = `${GBIF_BASE}/occurrence/search?${params.toString()}`;
+
+  console.log('🌐 FETCHING GBIF occurrence facets from:', url);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Wildlife-Finder/1.0 (conservation education tool - contact@example.com)'
+      },
+      // Facet counts change slowly - cache for a day
+      next: { revalidate: 86400 }
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      console.error('GBIF occurrence facets API error:', response.status, text);
+      return new Response(
+        JSON.stringify({ error: `GBIF API error: ${response.status}` }),
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    const counts = data.facets?.[0]?.counts || [];
+    console.log(`✅ GBIF occurrence facets SUCCESS: ${counts.length} ${facet} values (total occurrences: ${data.count || 0})`);
+    return Response.json({ facet, total: data.count || 0, counts });
+  } catch (error) {
+    console.error('GBIF occurrence facets fetch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch from GBIF API' }),
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,21 @@
 import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
 
 const GBIF_BASE = 'https://api.gbif.org/v1';
 
 export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
   const { searchParams } = new URL(req.url);
 
   console.log('🌍 GBIF OCCURRENCES API called with params:', Object.fromEntries(searchParams.entries()));
   const name = searchParams.get('name'); // species name OR supply taxonKey directly
-  const taxonKey = searchParams.get('taxonKey');
+  const taxonKey = searchParams.get('taxonKey'); // one key, or several comma-separated ("212,359")
   const lat = searchParams.get('lat');
   const lng = searchParams.get('lng');
   const radiusKm = Number(searchParams.get('radius') ?? '50');
+  const geometry = searchParams.get('geometry'); // WKT polygon, counter-clockwise
 
   let key = taxonKey;
 
@@ -37,24 +42,44 @@ export async function GET(req: NextRequest) {
     }
   }
 
-  if (!key) {
+  // Without a taxon, the search is "everything observed here", which needs an area.
+  // A name that matched nothing is still an error, not a request for every species.
+  if (!key && (name || (!geometry && !(lat && lng)))) {
     return new Response(
-      JSON.stringify({ error: 'taxonKey or name parameter is required' }),
+      JSON.stringify({ error: 'taxonKey, name, geometry or lat/lng parameters are required' }),
       { status: 400 }
     );
   }
 
   // Build occurrence search parameters
   const params = new URLSearchParams({
-    taxonKey: key,
     limit: searchParams.get('limit') ?? '100',
     offset: searchParams.get('offset') ?? '0',
     hasCoordinate: 'true'
   });
+  for (const taxon of key?.split(',').filter(Boolean) ?? []) params.append('taxonKey', taxon);
+
+  // IUCN Red List categories, e.g. "CR,EN"
+  for (const category of searchParams.get('iucnRedListCategory')?.split(',').filter(Boolean) ?? []) {
+    params.append('iucnRedListCategory', category);
+  }
+
+  // Establishment means, e.g. "INTRODUCED" for invasive-species searches
+  for (const means of searchParams.get('establishmentMeans')?.split(',').filter(Boolean) ?? []) {
+    params.append('establishmentMeans', means);
+  }
+
+  // Observation months, e.g. "12,1,2"; one parameter each, as "4,5" would be a range to GBIF
+  for (const month of searchParams.get('month')?.split(',').filter(Boolean) ?? []) {
+    params.append('month', month);
+  }
+  const eventDate = searchParams.get('eventDate'); // "2025-04-01,2025-04-15"
 
-  // Add geospatial filter if coordinates provided
-  // Simple geospatial filter: circle -> bounding box (approximation)
-  if (lat && lng) {
+  // Add geospatial filter: the place geometry when given, otherwise
+  // a circle -> bounding box approximation around the coordinates
+  if (geometry) {
+    params.set('geometry', geometry);
+  } else if (lat && lng) {
     const deg = radiusKm / 111; // ~km per degree latitude (rough approximation)
     const latMin = Number(lat) - deg;
     const latMax = Number(lat) + deg;
@@ -68,10 +93,14 @@ export async function GET(req: NextRequest) {
   // Add additional quality filters
   params.set('basisOfRecord', 'HUMAN_OBSERVATION,OBSERVATION');
 
-  // Optional: filter by recent years for more relevant data
-  const minYear = searchParams.get('minYear') ?? '2010';
-  const maxYear = searchParams.get('maxYear') ?? new Date().getFullYear().toString();
-  params.set('year', `${minYear},${maxYear}`);
+  // A date range replaces the default filter to recent years
+  if (eventDate) {
+    params.set('eventDate', eventDate);
+  } else {
+    const minYear = searchParams.get('minYear') ?? '2010';
+    const maxYear = searchParams.get('maxYear') ?? new Date().getFullYear().toString();
+    params.set('year', `${minYear},${maxYear}`);
+  }
 
   const url = `${GBIF_BASE}/occurrence/search?${params.toString()}`;
 
@@ -1,8 +1,12 @@
 import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
 
 const GBIF_BASE = 'https://api.gbif.org/v1';
 
 export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
   const { searchParams } = new URL(req.url);
 
   console.log('🌍 GBIF SPECIES API called with params:', Object.fromEntries(searchParams.entries()));
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
+import { locationAgent } from '@/lib/location-agent';
+
+/**
+ * Reverse geocode a point (e.g. from browser geolocation) into a location
+ * Coordinates are reduced to CONFIG.geolocation.coordinatePrecision before lookup
+ */
+export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
+  try {
+    const { searchParams } = new URL(req.url);
+
+    const lat = searchParams.get('lat');
+    const lon = searchParams.get('lon');
+
+    if (!lat || !lon) {
+      return new Response(
+        JSON.stringify({ error: 'lat and lon parameters are required' }),
+        { status: 400 }
+      );
+    }
+
+    // Exact user coordinates are deliberately not logged
+    console.log('📍 REVERSE GEOCODE API called');
+
+    const result = await locationAgent.resolveCoordinates(Number(lat), Number(lon));
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.errorMessage }),
+        { status: 400 }
+      );
+    }
+
+    console.log(`✅ REVERSE GEOCODE SUCCESS: ${result.location?.displayName}`);
+    return Response.json(result);
+  } catch (error) {
+    console.error('Reverse geocode error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to look up your location' }),
+      { status: 502 }
+    );
+  }
+}
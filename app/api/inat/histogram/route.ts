@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
+
+const INAT_BASE = 'https://api.inaturalist.org/v1';
+
+// Histogram intervals this route is allowed to request
+const ALLOWED_INTERVALS = ['year', 'month', 'month_of_year'];
+
+/**
+ * Count iNaturalist observations by observation date, optionally for one taxon
+ * Without a taxon the counts are every observation in the area (sampling effort)
+ */
+export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+
+  console.log('📈 iNATURALIST HISTOGRAM API called with params:', Object.fromEntries(searchParams.entries()));
+
+  const interval = searchParams.get('interval') ?? 'year';
+  if (!ALLOWED_INTERVALS.includes(interval)) {
+    return new Response(
+      JSON.stringify({ error: `interval parameter must be one of: ${ALLOWED_INTERVALS.join(', ')}` }),
+      { status: 400 }
+    );
+  }
+
+  const bounds = ['swlat', 'swlng', 'nelat', 'nelng'].map(name => [name, searchParams.get(name)] as const);
+  if (!bounds.every(([, value]) => value)) {
+    return new Response(
+      JSON.stringify({ error: 'swlat, swlng, nelat and nelng parameters are required' }),
+      { status: 400 }
+    );
+  }
+
+  const qs = new URLSearchParams({
+    date_field: 'observed',
+    interval,
+    verifiable: 'true',
+    quality_grade: 'research'
+  });
+  for (const [name, value] of bounds) qs.set(name, value as string);
+
+  for (const name of ['taxon_name', 'taxon_id', 'd1', 'd2']) {
+    const value = searchParams.get(name);
+    if (value) qs.set(name, value);
+  }
+
+  const url = `${INAT_BASE}/observations/histogram?${qs.toString()}`;
+
+  console.log('🌐 FETCHING iNaturalist histogram from:', url);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Wildlife-Finder/1.0 (conservation education tool)'
+      },
+      // Past years' counts change slowly - cache for a day
+      next: { revalidate: 86400 }
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      console.error('iNaturalist histogram API error:', response.status, text);
+      return new Response(
+        JSON.stringify({ error: `iNaturalist histogram API error: ${response.status}` }),
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    const counts = data.results?.[interval] ?? {};
+    console.log(`✅ iNaturalist histogram SUCCESS: ${Object.keys(counts).length} ${interval} buckets`);
+    return Response.json({ interval, counts });
+  } catch (error) {
+    console.error('iNaturalist histogram fetch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to fetch histogram from iNaturalist API' }),
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
 
 const INAT_BASE = 'https://api.inaturalist.org/v1';
 
 export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
   const { searchParams } = new URL(req.url);
 
   console.log('🐛 iNATURALIST SPECIES-COUNTS API called with params:', Object.fromEntries(searchParams.entries()));
@@ -15,8 +19,12 @@ export async function GET(req: NextRequest) {
   const lng = searchParams.get('lng');
   const radius = searchParams.get('radius') ?? '50'; // km
   const placeId = searchParams.get('place_id');
+  const bounds = ['swlat', 'swlng', 'nelat', 'nelng'].map(name => [name, searchParams.get(name)] as const);
 
-  if (lat && lng) {
+  // A bounding box follows the place's real extent, so it wins over a radius
+  if (bounds.every(([, value]) => value)) {
+    for (const [name, value] of bounds) qs.set(name, value as string);
+  } else if (lat && lng) {
     qs.set('lat', lat);
     qs.set('lng', lng);
     qs.set('radius', radius);
@@ -39,6 +47,20 @@ export async function GET(req: NextRequest) {
     qs.set('threatened', 'true');
   }
 
+  // IUCN Red List categories, e.g. "CR,EN"
+  const iucnCategories = searchParams.get('csi');
+  if (iucnCategories) qs.set('csi', iucnCategories);
+
+  // Observation period: months ("3,4,5") and/or a date range (YYYY-MM-DD)
+  for (const name of ['month', 'd1', 'd2']) {
+    const value = searchParams.get(name);
+    if (value) qs.set(name, value);
+  }
+
+  // Taxa introduced where they were observed (invasive-species searches)
+  const introduced = searchParams.get('introduced');
+  if (introduced === 'true') qs.set('introduced', 'true');
+
   // Pagination
   qs.set('per_page', searchParams.get('per_page') ?? '100');
   qs.set('page', searchParams.get('page') ?? '1');
@@ -1,8 +1,12 @@
 import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
 
 const INAT_BASE = 'https://api.inaturalist.org/v1';
 
 export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
   const { searchParams } = new URL(req.url);
 
   console.log('🐛 iNATURALIST TAXA API called with params:', Object.fromEntries(searchParams.entries()));
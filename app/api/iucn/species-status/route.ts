@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
 
 /**
  * IUCN Red List API Route
@@ -7,6 +8,9 @@ import { NextRequest, NextResponse } from 'next/server';
  */
 
 export async function GET(request: NextRequest) {
+  const limited = enforceRateLimit(request, 'proxy');
+  if (limited) return limited;
+
   const startTime = Date.now();
 
   try {
@@ -38,15 +38,18 @@ export async function POST(request: NextRequest) {
       }
 
       case 'find_species': {
-        const species = await speciesFetcherMCP.findSpeciesByLocation({
+        const { species, nextCursor } = await speciesFetcherMCP.findSpeciesByLocation({
           latitude: data.latitude,
           longitude: data.longitude,
           displayName: data.displayName,
           city: data.city,
           state: data.state,
           country: data.country,
+          taxonGroups: data.taxonGroups,
+          redListCategories: data.redListCategories,
+          cursor: data.cursor,
         });
-        return NextResponse.json({ species });
+        return NextResponse.json({ species, nextCursor });
       }
 
       case 'species_info': {
@@ -68,13 +71,15 @@ export async function POST(request: NextRequest) {
         }
 
         // Step 2: Find species at that location
-        const species = await speciesFetcherMCP.findSpeciesByLocation({
+        const { species } = await speciesFetcherMCP.findSpeciesByLocation({
           latitude: location.lat,
           longitude: location.lon,
           displayName: location.displayName,
           city: location.city,
           state: location.state,
           country: location.country,
+          boundingBox: location.boundingBox,
+          polygon: location.polygon,
         });
 
         // Step 3: Get Wikipedia summary for first species
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
+import { wildlifeDataService } from '@/lib/wildlife-data-service';
+import { mappableObservations } from '@/lib/observation-map';
+
+const MAX_OBSERVATIONS = 100;
+
+/**
+ * Geolocated iNaturalist and GBIF observations of a species around a point,
+ * for the observation map panel
+ */
+export async function GET(req: NextRequest) {
+  const limited = enforceRateLimit(req, 'proxy');
+  if (limited) return limited;
+
+  const { searchParams } = new URL(req.url);
+
+  const species = searchParams.get('species');
+  const lat = Number(searchParams.get('lat'));
+  const lon = Number(searchParams.get('lon'));
+
+  if (!species || !searchParams.get('lat') || !searchParams.get('lon') || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+    return new Response(
+      JSON.stringify({ error: 'species, lat and lon parameters are required' }),
+      { status: 400 }
+    );
+  }
+
+  console.log(`🗺️ OBSERVATIONS API called for: ${species}`);
+
+  const limit = Math.min(Number(searchParams.get('limit')) || MAX_OBSERVATIONS, MAX_OBSERVATIONS);
+  const observations = await wildlifeDataService.getSpeciesObservations(
+    species,
+    { lat, lon, displayName: `${lat}, ${lon}` },
+    limit
+  );
+
+  return Response.json({ observations: mappableObservations(observations) });
+}
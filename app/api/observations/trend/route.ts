@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enforceRateLimit } from '@/lib/rate-limiter';
+import { describeObservationTrend, observationTrendService } from '@/lib/observation-trends';
+import type { Location } from '@/lib/conservation-tools';
+
+/**
+ * Yearly and monthly observation rates of a species around a location,
+ * normalized for sampling effort, for the trend timeline
+ * Returns the trend and a one-paragraph summary of it
+ */
+export async function POST(request: NextRequest) {
+  const limited = enforceRateLimit(request, 'proxy');
+  if (limited) return limited;
+
+  try {
+    const { species, location } = await request.json() as {
+      species?: { commonName?: string; scientificName?: string };
+      location?: Location;
+    };
+
+    if (!species?.commonName || typeof location?.lat !== 'number' || typeof location?.lon !== 'number') {
+      return NextResponse.json({ error: 'species.commonName and a location with lat/lon are required' }, { status: 400 });
+    }
+
+    console.log(`📈 OBSERVATION TREND API called for: ${species.commonName}`);
+
+    const trend = await observationTrendService.getTrend(
+      { commonName: species.commonName, scientificName: species.scientificName ?? 'Unknown' },
+      { ...location, displayName: location.displayName || `${location.lat}, ${location.lon}` }
+    );
+    return NextResponse.json({ trend, summary: describeObservationTrend(trend) });
+  } catch (error) {
+    console.error('Observation trend API error:', error);
+    return NextResponse.json({ error: 'Failed to compute observation trend' }, { status: 500 });
+  }
+}
@@ -1,10 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
+import type { Location } from '@/lib/conservation-tools';
+import { fetchIUCNStatus } from '@/lib/follow-up-qa';
+import { describeObservationTrend, observationTrendService } from '@/lib/observation-trends';
+import { enforceRateLimit } from '@/lib/rate-limiter';
+
+// Local observation trend and IUCN population trend, when they can be found.
+// Either lookup failing just leaves it out of the prompt.
+async function trendEvidence(animal: string, scientificName?: string, location?: Location): Promise<string> {
+  const knownName = scientificName && scientificName !== 'Unknown' ? scientificName : undefined;
+  const area = typeof location?.lat === 'number' && typeof location?.lon === 'number' ? location : undefined;
+  const [localTrend, iucn] = await Promise.allSettled([
+    area ? observationTrendService.getTrend({ commonName: animal, scientificName: knownName ?? 'Unknown' }, area) : Promise.resolve(null),
+    knownName ? fetchIUCNStatus(knownName) : Promise.resolve(null)
+  ]);
+
+  const lines: string[] = [];
+  if (iucn.status === 'fulfilled' && iucn.value?.found && iucn.value.populationTrend) {
+    lines.push(`- IUCN Red List population trend (global): ${iucn.value.populationTrend}${iucn.value.categoryLabel ? `, ${iucn.value.categoryLabel}` : ''}`);
+  }
+  if (localTrend.status === 'fulfilled' && localTrend.value) {
+    lines.push(`- Local observation trend: ${describeObservationTrend(localTrend.value)}`);
+  }
+  return lines.join('\n');
+}
 
 export async function POST(request: NextRequest) {
+  // A paid OpenAI call plus trend lookups, so it shares the chat limits
+  const limited = enforceRateLimit(request, 'chat');
+  if (limited) return limited;
+
   try {
-    const { animal, conversationContext } = await request.json();
+    const { animal, conversationContext, scientificName, location } = await request.json();
 
     console.log(`🤔 RECOMMENDATION API TRIGGERED for: ${animal}`);
 
@@ -12,6 +40,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Animal name is required' }, { status: 400 });
     }
 
+    const trends = await trendEvidence(animal, scientificName, location);
+
     // Use AI to analyze the conversation and make a recommendation
     const result = await generateText({
       model: openai('gpt-4o'),
@@ -21,11 +51,15 @@ export async function POST(request: NextRequest) {
 
 **Available Information:**
 ${conversationContext || 'No additional context provided'}
-
+${trends ? `
+**Population & Observation Trends:**
+${trends}
+` : ''}
 **Your Task:**
 Carefully analyze ALL available information about this species, including:
 - Current IUCN Red List conservation status
-- Population numbers and trends (declining, stable, or increasing)
+- Population numbers and trends (declining, stable, or increasing), including the IUCN population trend
+- How often the species is observed locally over the years, relative to survey effort (a local decline can matter even when the global trend is stable)
 - Geographic range and habitat threats
 - Human impacts (poaching, habitat loss, climate change, pollution)
 - Existing conservation programs and their effectiveness
@@ -24,6 +24,15 @@ import { RoadrunnerLoader } from "@/components/roadrunner-loader";
 import { OrganizationSearchLoader } from "@/components/organization-search-loader";
 import { ErrorLoader } from "@/components/error-loader";
 import { ValidationLoader } from "@/components/validation-loader";
+import { ChatProgress } from "@/components/chat-progress";
+import { ObservationMap } from "@/components/observation-map";
+import { ObservationTrendChart } from "@/components/observation-trend-chart";
+import { readChatEventStream, type ChatStageEvent } from "@/lib/chat-events";
+import { isInputError, type ChatPayload } from "@/lib/chat-payload";
+import { formatRateLimited } from "@/lib/chat-responses";
+import type { StructuredLocationInput } from "@/lib/location-agent";
+import type { Location, Species } from "@/lib/conservation-tools";
+import type { SessionStep } from "@/lib/session-store";
 import { CONFIG } from "@/lib/config";
 
 type SearchMode = 'initial' | 'location' | 'animal' | 'random';
@@ -35,6 +44,7 @@ export default function Home() {
   const [locationCity, setLocationCity] = useState('');
   const [animalInput, setAnimalInput] = useState('');
   const [locationError, setLocationError] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
   const [countdown, setCountdown] = useState(100);
   const [showExtinctionModal, setShowExtinctionModal] = useState(false);
   const [hasInteracted, setHasInteracted] = useState(false);
@@ -47,6 +57,9 @@ export default function Home() {
   const [selectedAnimal, setSelectedAnimal] = useState<string | null>(null);
   const [errorType, setErrorType] = useState<'invalid-location' | 'invalid-animal' | 'general-error' | null>(null);
   const [validationType, setValidationType] = useState<'location' | 'animal' | null>(null);
+  const [progressEvents, setProgressEvents] = useState<ChatStageEvent[]>([]);
+  const [chatStep, setChatStep] = useState<SessionStep>('initial');
+  const [mapTarget, setMapTarget] = useState<{ species: Species; location: Location } | null>(null);
   const [sessionId] = useState(() => {
     // Check if we have a stored session ID from previous page load
     if (typeof window !== 'undefined') {
@@ -113,12 +126,12 @@ export default function Home() {
   }, [informationTimeoutId]);
 
   // Function to generate and add wildlife information
-  const generateInformation = async (animal: string, location?: string) => {
+  const generateInformation = async (animal: string, location?: Location, scientificName?: string) => {
     try {
       const response = await fetch("/api/information", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ animal, location }),
+        body: JSON.stringify({ animal, location: location?.displayName }),
       });
 
       if (response.ok) {
@@ -135,8 +148,11 @@ export default function Home() {
           const recommendationResponse = await fetch("/api/recommendation", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
+            // The location and scientific name let the verdict use local and IUCN population trends
             body: JSON.stringify({
               animal,
+              scientificName,
+              location,
               conversationContext: data.response
             }),
           });
@@ -184,35 +200,6 @@ export default function Home() {
     }
   };
 
-  // Helper function to extract animal name from organization response
-  const extractAnimalFromResponse = (text: string): string | null => {
-    // Look for pattern like "**[Animal Name] Conservation Organizations:**"
-    const orgMatch = text.match(/\*\*([^*]+)\s+Conservation Organizations:\*\*/);
-    if (orgMatch) {
-      return orgMatch[1].trim();
-    }
-
-    // Look for pattern in the closing message like "protect [Animal Name]"
-    const protectMatch = text.match(/protect\s+([^.]+)\./);
-    if (protectMatch) {
-      return protectMatch[1].trim();
-    }
-
-    // Look for pattern in the closing message like "help protect [Animal Name]"
-    const helpProtectMatch = text.match(/help protect\s+([^.]+)\./);
-    if (helpProtectMatch) {
-      return helpProtectMatch[1].trim();
-    }
-
-    // Look for animal name at the start of a response (fallback)
-    const responseMatch = text.match(/\*\*([A-Za-z\s]+) Conservation Organizations:\*\*/);
-    if (responseMatch) {
-      return responseMatch[1].trim();
-    }
-
-    return null;
-  };
-
   // Validation: Check if user is trying to enter city/state before country
   const validateLocationInput = (field: 'state' | 'city', value: string) => {
     if (!locationCountry && value.trim()) {
@@ -231,11 +218,83 @@ export default function Home() {
     }
 
     setLocationError('');
-    const locationParts = [locationCity, locationState, locationCountry].filter(Boolean);
-    const locationString = locationParts.join(', ');
+    const location: StructuredLocationInput = {
+      country: locationCountry.trim(),
+      state: locationState.trim() || undefined,
+      city: locationCity.trim() || undefined
+    };
+    const locationString = [location.city, location.state, location.country].filter(Boolean).join(', ');
+
+    // The fields go to the server as they are, so it geocodes them as a structured query
+    setSearchMode('random'); // Switch to chat view
+    await submitMessage(locationString, locationString, location);
+  };
+
+  // Browser geolocation -> reverse geocode. Resolves to the search query, the point
+  // already reduced to the configured precision ("25.7600°N, 80.1900°W"), and the place name;
+  // rejects with a message for the user
+  const locateUser = () => new Promise<{ query: string; displayName: string }>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Your browser does not support location access. Please enter your location instead.'));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      async (position) => {
+        try {
+          const { latitude, longitude } = position.coords;
+          const response = await fetch(`/api/geocode/reverse?lat=${latitude}&lon=${longitude}`);
+          const result = await response.json();
+
+          if (!response.ok || !result.location) {
+            reject(new Error(result.error || 'Could not look up your location. Please enter it instead.'));
+            return;
+          }
+          resolve({ query: result.formattedLocationQuery, displayName: result.location.displayName });
+        } catch (error) {
+          console.error("Reverse geocoding failed:", error);
+          reject(new Error('Could not look up your location. Please enter it instead.'));
+        }
+      },
+      (error) => {
+        reject(new Error(error.code === error.PERMISSION_DENIED
+          ? 'Location access was denied. Please enter your location instead.'
+          : 'Could not get your current location. Please enter it instead.'));
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+
+  // Handle "Use my current location": browser geolocation -> reverse geocode -> species search
+  const handleUseMyLocation = async () => {
+    setLocationError('');
+    setIsLocating(true);
+
+    try {
+      const { query, displayName } = await locateUser();
+      setSearchMode('random'); // Switch to chat view
+      await submitMessage(query, `📍 ${displayName}`);
+    } catch (error) {
+      setLocationError(error instanceof Error ? error.message : 'Could not get your current location. Please enter it instead.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
 
+  // Handle "Invasive species near me": the same lookup, then a search for introduced
+  // and invasive species only. Without a position the chat asks for a location.
+  const handleInvasiveSpecies = async () => {
     setSearchMode('random'); // Switch to chat view
-    await submitMessage(locationString);
+    setIsLocating(true);
+
+    try {
+      const { query, displayName } = await locateUser();
+      await submitMessage(`Invasive species near ${query}`, `🚫 Invasive species near ${displayName}`);
+    } catch {
+      await submitMessage('Invasive species near me');
+    } finally {
+      setIsLocating(false);
+    }
   };
 
   // Handle animal name submission
@@ -250,34 +309,27 @@ export default function Home() {
     await submitMessage('Surprise me with a random animal');
   };
 
-  const submitMessage = async (messageText: string) => {
+  // `displayText` is shown in the chat instead of the message sent to the server;
+  // `location` sends the location form's fields in place of the message
+  const submitMessage = async (messageText: string, displayText: string = messageText, location?: StructuredLocationInput) => {
     if (!messageText.trim() || isLoading) return;
 
     const userMessage: UIMessage = {
       id: Date.now().toString(),
       role: "user",
-      parts: [{ type: "text", text: messageText }],
+      parts: [{ type: "text", text: displayText }],
     };
     setMessages((prev) => [...prev, userMessage]);
     setIsLoading(true);
+    setProgressEvents([]);
 
-    // Determine loading type based on message content
-    // Check if this looks like a location query (first step)
-    const locationPatterns = [
-      /\b(city|state|country|location)\b/i,
-      /\b[A-Z][a-z]+(,\s*[A-Z][a-z]+)*\b/, // City, State format
-      /\b(in|near|around|from)\s+[A-Z]/i,
-      /^\s*[A-Z][a-z]+(\s+[A-Z][a-z]+)*(\s*,\s*[A-Z][a-z]+(\s+[A-Z][a-z]+)*)*\s*$/
-    ];
-
-    const isLocationQuery = locationPatterns.some(pattern => pattern.test(messageText || ''));
-
-    if (isLocationQuery) {
-      setLoadingType('wildlife');
-    } else {
-      // This is likely an animal selection (organization search)
+    // Determine loading type from the step the server reported last time
+    if (chatStep === 'animal' || chatStep === 'completed') {
+      // The user is selecting an animal or a follow-up search (organization search)
       setLoadingType('organizations');
       setSelectedAnimal(messageText.trim());
+    } else {
+      setLoadingType('wildlife');
     }
 
     // Track start time for potential use
@@ -287,91 +339,120 @@ export default function Home() {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: messageText, sessionId }),
+        body: JSON.stringify(location ? { location, sessionId, stream: true } : { message: messageText, sessionId, stream: true }),
       });
 
-      let data;
-      try {
-        const responseText = await response.text();
-        data = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error("Failed to parse response:", parseError);
-        throw new Error("Server returned invalid response");
+      // Rate limited: explain how long to wait instead of showing a generic error
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("Retry-After")) || 30;
+        const rateLimitMessage: UIMessage = {
+          id: (Date.now() + 1).toString(),
+          role: "assistant",
+          parts: [{ type: "text", text: formatRateLimited(retryAfter) }],
+        };
+        setMessages((prev) => [...prev, rateLimitMessage]);
+        return;
       }
 
-      // No artificial delay - show response immediately when ready
-
-      if (response.ok) {
-        // Check if this is a disambiguation response - show immediately, no loader
-        const isDisambiguationResponse = data.response.includes('🌍 **Please add more info to your location!**');
-
-        // Check if this is other error responses that should show error loader
-        const isErrorResponse = data.response.includes('🐾 **Please select an animal from the list!**') ||
-                               data.response.includes('❌ **"') ||
-                               data.response.includes('❌ **I couldn\'t match your response') ||
-                               data.response.includes('🌍 **') && data.response.includes('Could not understand');
-
-        if (isErrorResponse) {
-          // Show error loader briefly before showing error message
-          setLoadingType('error');
-          if (data.response.includes('🐾') || data.response.includes('❌ **"') || data.response.includes('animal from the list')) {
-            setErrorType('invalid-animal');
-          } else {
-            setErrorType('invalid-location');
+      let data: ChatPayload | undefined;
+      if (response.ok && response.body && response.headers.get("Content-Type")?.includes("text/event-stream")) {
+        // Streamed response: show each stage as it completes, then use the final payload
+        await readChatEventStream(response.body, (event) => {
+          if (event.type === 'stage') {
+            setProgressEvents((prev) => [...prev, event]);
+          } else if (event.type === 'message') {
+            data = event.payload;
+          } else if (event.type === 'error') {
+            throw new Error(event.error);
           }
+        });
+      } else {
+        let body;
+        try {
+          const responseText = await response.text();
+          body = JSON.parse(responseText);
+        } catch (parseError) {
+          console.error("Failed to parse response:", parseError);
+          throw new Error("Server returned invalid response");
+        }
 
-          // Show error loader for 2 seconds, then show message
-          setTimeout(() => {
-            setIsLoading(false);
-            setLoadingType(null);
-            setErrorType(null);
-
-            const assistantMessage: UIMessage = {
-              id: (Date.now() + 1).toString(),
-              role: "assistant",
-              parts: [{ type: "text", text: data.response }],
-            };
-            setMessages((prev) => [...prev, assistantMessage]);
-          }, 2000);
-          return; // Don't show message immediately
+        if (!response.ok) {
+          throw new Error(body.error || "Failed to get response");
         }
+        data = body;
+      }
 
-        const assistantMessage: UIMessage = {
-          id: (Date.now() + 1).toString(),
-          role: "assistant",
-          parts: [{ type: "text", text: data.response }],
-        };
-        setMessages((prev) => [...prev, assistantMessage]);
+      if (!data) {
+        throw new Error("Server returned no response");
+      }
 
-        // Check if this is an organization response and schedule information generation
-        const animal = extractAnimalFromResponse(data.response);
-        if (animal) {
-          // Fetch animal image from Wikimedia
-          fetchAnimalImage(animal);
+      const payload: ChatPayload = data;
+      setChatStep(payload.step);
 
-          // Clear any existing information timeout
-          if (informationTimeoutId) {
-            clearTimeout(informationTimeoutId);
-          }
+      // Map sightings of the selected animal around the search location; a new species list replaces it
+      if ((payload.kind === 'organizations' || payload.kind === 'reporting-agencies') && payload.animal && payload.location) {
+        setMapTarget({ species: payload.animal, location: payload.location });
+      } else if (payload.kind === 'species-list') {
+        setMapTarget(null);
+      }
 
-          // Add indicator message that information is coming
-          const indicatorMessage: UIMessage = {
-            id: (Date.now() + 2).toString(),
+      // No artificial delay - show response immediately when ready
+
+      if (isInputError(payload)) {
+        // Show error loader briefly before showing error message
+        setLoadingType('error');
+        setErrorType(payload.errorType === 'invalid-animal' ? 'invalid-animal' : 'invalid-location');
+
+        // Show error loader for 2 seconds, then show message
+        setTimeout(() => {
+          setIsLoading(false);
+          setLoadingType(null);
+          setErrorType(null);
+
+          const assistantMessage: UIMessage = {
+            id: (Date.now() + 1).toString(),
             role: "assistant",
-            parts: [{ type: "text", text: `📊 **Enriching with Conservation Data**\n\n🔍 Searching RAG database for detailed information about the ${animal}...\n⏳ This may take a few seconds...` }],
+            parts: [{ type: "text", text: payload.response }],
           };
-          setMessages((prev) => [...prev, indicatorMessage]);
+          setMessages((prev) => [...prev, assistantMessage]);
+        }, 2000);
+        return; // Don't show message immediately
+      }
+
+      const assistantMessage: UIMessage = {
+        id: (Date.now() + 1).toString(),
+        role: "assistant",
+        parts: [{ type: "text", text: payload.response }],
+      };
+      setMessages((prev) => [...prev, assistantMessage]);
 
-          // Schedule information generation based on configuration
-          const timeoutId = setTimeout(() => {
-            generateInformation(animal); // Location context will be extracted from chat session
-            setInformationTimeoutId(null);
-          }, CONFIG.timing.poemDelay); // Keeping same timing config
+      // Organization results: schedule information generation for that animal
+      const animal = payload.kind === 'organizations' ? payload.animal?.commonName : undefined;
+      if (animal) {
+        // Fetch animal image from Wikimedia
+        fetchAnimalImage(animal);
 
-          setInformationTimeoutId(timeoutId);
+        // Clear any existing information timeout
+        if (informationTimeoutId) {
+          clearTimeout(informationTimeoutId);
         }
-      } else {
-        throw new Error(data.error || "Failed to get response");
+
+        // Add indicator message that information is coming
+        const indicatorMessage: UIMessage = {
+          id: (Date.now() + 2).toString(),
+          role: "assistant",
+          parts: [{ type: "text", text: `📊 **Enriching with Conservation Data**\n\n🔍 Searching RAG database for detailed information about the ${animal}...\n⏳ This may take a few seconds...` }],
+        };
+        setMessages((prev) => [...prev, indicatorMessage]);
+
+        // Schedule information generation based on configuration
+        const { location, animal: species } = payload;
+        const timeoutId = setTimeout(() => {
+          generateInformation(animal, location, species?.scientificName);
+          setInformationTimeoutId(null);
+        }, CONFIG.timing.poemDelay); // Keeping same timing config
+
+        setInformationTimeoutId(timeoutId);
       }
     } catch (error) {
       console.error("Error:", error);
@@ -393,7 +474,7 @@ export default function Home() {
   };
 
   return (
-    <div className="h-screen bg-gradient-to-br from-green-50 to-blue-50 flex flex-col max-w-4xl mx-auto">
+    <div className={`h-screen bg-gradient-to-br from-green-50 to-blue-50 flex flex-col mx-auto ${mapTarget ? 'max-w-7xl' : 'max-w-4xl'}`}>
       {/* Extinction Modal */}
       {showExtinctionModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -435,7 +516,7 @@ export default function Home() {
         </div>
       </div>
 
-      {/* Initial Mode Selection - Three Options */}
+      {/* Initial Mode Selection - Four Options */}
       {searchMode === 'initial' && (
         <div className="flex-1 flex items-center justify-center p-8">
           <div className="w-full max-w-2xl space-y-6">
@@ -500,6 +581,25 @@ export default function Home() {
                   </div>
                 </div>
               </button>
+
+              {/* Option 4: Invasive Species */}
+              <button
+                onClick={handleInvasiveSpecies}
+                disabled={isLocating || isLoading}
+                className="p-6 bg-white rounded-lg border-2 border-green-200 hover:border-green-400 hover:bg-green-50 transition-all text-left group disabled:opacity-60"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="text-3xl">🚫</div>
+                  <div>
+                    <h3 className="text-lg font-bold text-green-800 group-hover:text-green-900">
+                      Invasive Species Near Me
+                    </h3>
+                    <p className="text-sm text-green-600 mt-1">
+                      Find introduced and invasive animals around you and who to report them to
+                    </p>
+                  </div>
+                </div>
+              </button>
             </div>
           </div>
         </div>
@@ -520,6 +620,21 @@ export default function Home() {
             </div>
 
             <div className="space-y-4">
+              {/* Browser geolocation instead of typing */}
+              <button
+                onClick={handleUseMyLocation}
+                disabled={isLocating || isLoading}
+                className="w-full p-3 border-2 border-green-600 text-green-700 hover:bg-green-50 font-semibold rounded-lg disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                {isLocating ? '📍 Finding your location...' : '📍 Use my current location'}
+              </button>
+
+              <div className="flex items-center gap-3 text-sm text-green-600">
+                <div className="flex-1 border-t border-green-200" />
+                or enter it manually
+                <div className="flex-1 border-t border-green-200" />
+              </div>
+
               {/* Country Input - Required First */}
               <div>
                 <label className="block text-sm font-medium text-green-700 mb-2">
@@ -699,6 +814,7 @@ export default function Home() {
                       <ValidationLoader type={validationType} />
                     )}
                     {!loadingType && <RoadrunnerLoader />} {/* Fallback */}
+                    {loadingType !== 'error' && <ChatProgress events={progressEvents} />}
                   </div>
                 </div>
               )}
@@ -760,6 +876,17 @@ export default function Home() {
             </div>
             </div>
           </div>
+
+          {/* Observation Map & Trend Panel */}
+          {mapTarget && (
+            <div
+              key={`${mapTarget.species.commonName}-${mapTarget.location.lat}-${mapTarget.location.lon}`}
+              className="hidden lg:flex flex-col gap-6 w-[352px] flex-shrink-0 bg-white/90 border-l border-green-200 p-4 overflow-y-auto"
+            >
+              <ObservationMap species={mapTarget.species} location={mapTarget.location} />
+              <ObservationTrendChart species={mapTarget.species} location={mapTarget.location} />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,34 @@
+"use client";
+
+import { CHAT_STAGE_LABELS, type ChatStageEvent } from '@/lib/chat-events';
+
+interface ChatProgressProps {
+  events: ChatStageEvent[];
+}
+
+// Live progress reported by the chat API while a request is running
+export function ChatProgress({ events }: ChatProgressProps) {
+  if (events.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-lg mx-auto mt-4 p-4 bg-white/80 backdrop-blur-sm rounded-xl border border-green-200 shadow-lg">
+      <div className="space-y-3">
+        {events.map((event, index) => (
+          <div key={`${event.stage}-${index}`} className="flex items-start space-x-3">
+            <div className="w-6 h-6 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold bg-green-500 text-white">
+              ✓
+            </div>
+            <div>
+              <div className="text-sm font-medium text-green-700">{CHAT_STAGE_LABELS[event.stage]}</div>
+              <div className="text-xs text-gray-600">{event.message}</div>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center space-x-3">
+          <div className="w-6 h-6 rounded-full flex-shrink-0 bg-orange-500 animate-pulse" />
+          <span className="text-sm font-medium text-orange-700 animate-pulse">Working...</span>
+        </div>
+      </div>
+    </div>
+  );
+}
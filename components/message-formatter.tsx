@@ -56,6 +56,21 @@ export function MessageFormatter({ content, className = '' }: MessageFormatterPr
         return;
       }
 
+      // Handle numbered items (1. Item format) - users can reply with the number
+      if (trimmedLine.match(/^(\d+)\.\s+(.+)$/)) {
+        const match = trimmedLine.match(/^(\d+)\.\s+(.+)$/);
+        if (match) {
+          const [, number, itemText] = match;
+          elements.push(
+            <div key={index} className="flex items-start gap-2 mb-1">
+              <span className="text-green-600 font-bold min-w-[1.25rem] text-right">{number}.</span>
+              <div className="flex-1 text-green-700">{formatInlineMarkdown(itemText)}</div>
+            </div>
+          );
+        }
+        return;
+      }
+
       // Handle headers (** text ** at start of line)
       if (trimmedLine.match(/^\*\*(.+?)\*\*:?\s*$/)) {
         const match = trimmedLine.match(/^\*\*(.+?)\*\*:?\s*$/);
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Location, Species } from '@/lib/conservation-tools';
+import type { WildlifeObservation } from '@/lib/wildlife-data-service';
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  basemapPaths,
+  clusterObservations,
+  fitViewport,
+  panViewport,
+  projectPoint,
+  zoomViewport,
+  type MapViewport,
+  type ObservationCluster,
+} from '@/lib/observation-map';
+
+type ObservationSource = WildlifeObservation['source'];
+
+const SOURCES: ObservationSource[] = ['iNaturalist', 'GBIF'];
+const MAP_SIZE = { width: 320, height: 320 };
+
+interface ObservationMapProps {
+  species: Species;
+  location: Location;
+}
+
+// Recorded sightings of the selected species around the search location, on an
+// SVG base layer. Nearby points cluster; a cluster click zooms in, a point click
+// opens a popup linking to the record.
+export function ObservationMap({ species, location }: ObservationMapProps) {
+  const [observations, setObservations] = useState<WildlifeObservation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [source, setSource] = useState<ObservationSource>('iNaturalist');
+  const [viewport, setViewport] = useState<MapViewport>({ center: { lat: location.lat, lon: location.lon }, zoom: 9 });
+  const [selected, setSelected] = useState<ObservationCluster<WildlifeObservation> | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const speciesName = species.scientificName && species.scientificName !== 'Unknown' ? species.scientificName : species.commonName;
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setSelected(null);
+
+    const params = new URLSearchParams({ species: speciesName, lat: String(location.lat), lon: String(location.lon) });
+    fetch(`/api/observations?${params.toString()}`)
+      .then(response => response.ok ? response.json() : { observations: [] })
+      .then((data: { observations?: WildlifeObservation[] }) => {
+        if (cancelled) return;
+        const found = data.observations ?? [];
+        // Start on whichever source has records
+        const initialSource = found.some(obs => obs.source === 'iNaturalist') || !found.some(obs => obs.source === 'GBIF') ? 'iNaturalist' : 'GBIF';
+        setObservations(found);
+        setSource(initialSource);
+        setViewport(fitViewport({ lat: location.lat, lon: location.lon }, found.filter(obs => obs.source === initialSource), MAP_SIZE));
+      })
+      .catch(error => {
+        console.error('Error fetching observations:', error);
+        if (!cancelled) setObservations([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [speciesName, location.lat, location.lon]);
+
+  const visible = useMemo(() => observations.filter(obs => obs.source === source), [observations, source]);
+  const clusters = useMemo(() => clusterObservations(visible, viewport, MAP_SIZE), [visible, viewport]);
+  const basemap = useMemo(() => basemapPaths(viewport, MAP_SIZE), [viewport]);
+  const searchPoint = projectPoint({ lat: location.lat, lon: location.lon }, viewport, MAP_SIZE);
+
+  const changeSource = (next: ObservationSource) => {
+    setSource(next);
+    setSelected(null);
+    setViewport(fitViewport({ lat: location.lat, lon: location.lon }, observations.filter(obs => obs.source === next), MAP_SIZE));
+  };
+
+  const changeZoom = (zoom: number, anchor?: { x: number; y: number }) => {
+    setSelected(null);
+    setViewport(current => zoomViewport(current, zoom, MAP_SIZE, anchor));
+  };
+
+  const openCluster = (cluster: ObservationCluster<WildlifeObservation>) => {
+    // Zoom into a cluster until its points separate; at full zoom list them instead
+    if (cluster.observations.length > 1 && viewport.zoom < MAX_ZOOM) {
+      changeZoom(viewport.zoom + 2, { x: cluster.x, y: cluster.y });
+    } else {
+      setSelected(cluster);
+    }
+  };
+
+  const counts = Object.fromEntries(SOURCES.map(name => [name, observations.filter(obs => obs.source === name).length]));
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-green-800">Sightings nearby</h3>
+        <div className="flex rounded-lg border border-green-300 overflow-hidden text-xs">
+          {SOURCES.map(name => (
+            <button
+              key={name}
+              onClick={() => changeSource(name)}
+              className={`px-2 py-1 transition-colors ${source === name ? 'bg-green-600 text-white' : 'bg-white text-green-700 hover:bg-green-50'}`}
+            >
+              {name} ({counts[name]})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        className="relative rounded-lg overflow-hidden border border-green-200 shadow-inner select-none touch-none"
+        style={{ width: MAP_SIZE.width, height: MAP_SIZE.height }}
+        onPointerDown={(e) => {
+          dragStart.current = { x: e.clientX, y: e.clientY };
+        }}
+        onPointerMove={(e) => {
+          if (!dragStart.current) return;
+          const dx = e.clientX - dragStart.current.x;
+          const dy = e.clientY - dragStart.current.y;
+          dragStart.current = { x: e.clientX, y: e.clientY };
+          setViewport(current => panViewport(current, dx, dy));
+        }}
+        onPointerUp={() => { dragStart.current = null; }}
+        onPointerLeave={() => { dragStart.current = null; }}
+        onWheel={(e) => {
+          const bounds = e.currentTarget.getBoundingClientRect();
+          changeZoom(viewport.zoom + (e.deltaY < 0 ? 1 : -1), { x: e.clientX - bounds.left, y: e.clientY - bounds.top });
+        }}
+      >
+        <svg width={MAP_SIZE.width} height={MAP_SIZE.height} className="block bg-sky-100">
+          <path d={basemap.land.join('')} fill="#ecf3e3" stroke="#9bb59a" strokeWidth={0.8} fillRule="evenodd" />
+          {basemap.borders.map((d, index) => (
+            <path key={index} d={d} fill="none" stroke="#b8a98f" strokeWidth={0.6} strokeDasharray="3 2" />
+          ))}
+
+          {/* Search location */}
+          <circle cx={searchPoint.x} cy={searchPoint.y} r={5} fill="none" stroke="#1d4ed8" strokeWidth={2} />
+
+          {clusters.map(cluster => {
+            const count = cluster.observations.length;
+            const radius = count > 1 ? Math.min(10 + Math.log2(count) * 3, 22) : 6;
+            return (
+              <g
+                key={cluster.id}
+                className="cursor-pointer"
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => openCluster(cluster)}
+              >
+                <circle
+                  cx={cluster.x}
+                  cy={cluster.y}
+                  r={radius}
+                  fill={source === 'iNaturalist' ? '#16a34a' : '#ea580c'}
+                  fillOpacity={count > 1 ? 0.8 : 1}
+                  stroke="white"
+                  strokeWidth={2}
+                />
+                {count > 1 && (
+                  <text x={cluster.x} y={cluster.y} dy="0.35em" textAnchor="middle" className="fill-white text-[10px] font-bold pointer-events-none">
+                    {count}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+
+        {selected && (
+          <div
+            className="absolute z-10 w-56 max-h-40 overflow-y-auto bg-white rounded-lg shadow-lg border border-green-200 p-2 text-xs"
+            style={{
+              left: Math.min(Math.max(selected.x - 112, 4), MAP_SIZE.width - 228),
+              top: selected.y > MAP_SIZE.height / 2 ? Math.max(selected.y - 170, 4) : selected.y + 12
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <button onClick={() => setSelected(null)} className="float-right text-gray-400 hover:text-gray-700" aria-label="Close">
+              ✕
+            </button>
+            {selected.observations.map(obs => (
+              <div key={obs.id} className="mb-2 last:mb-0">
+                <div className="font-semibold text-green-800">{obs.commonName}</div>
+                <div className="text-gray-600">
+                  {new Date(obs.observedAt).toLocaleDateString()}
+                  {obs.observerName ? ` · ${obs.observerName}` : ''}
+                </div>
+                {obs.sourceUrl && (
+                  <a href={obs.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    View on {obs.source} →
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="absolute top-2 right-2 flex flex-col rounded shadow bg-white text-green-800" onPointerDown={(e) => e.stopPropagation()}>
+          <button onClick={() => changeZoom(viewport.zoom + 1)} disabled={viewport.zoom >= MAX_ZOOM} className="w-7 h-7 font-bold hover:bg-green-50 disabled:text-gray-300" aria-label="Zoom in">
+            +
+          </button>
+          <button onClick={() => changeZoom(viewport.zoom - 1)} disabled={viewport.zoom <= MIN_ZOOM} className="w-7 h-7 font-bold border-t border-green-100 hover:bg-green-50 disabled:text-gray-300" aria-label="Zoom out">
+            −
+          </button>
+        </div>
+
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/60 text-sm text-green-700 animate-pulse">
+            Loading sightings...
+          </div>
+        )}
+        {!isLoading && visible.length === 0 && (
+          <div className="absolute bottom-2 left-2 right-2 bg-white/90 rounded p-2 text-xs text-gray-600 text-center">
+            No {source} records of {species.commonName} near here
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {visible.length} {source} records within 50 km · Basemap: Natural Earth
+      </p>
+    </div>
+  );
+}
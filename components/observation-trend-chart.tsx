@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { Location, Species } from '@/lib/conservation-tools';
+import type { ObservationTrend, TrendDirection, TrendPoint } from '@/lib/observation-trends';
+
+const CHART = { width: 320, height: 140, left: 32, right: 8, top: 10, bottom: 22 };
+const MONTH_LETTERS = ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'];
+
+const DIRECTION_BADGES: Record<TrendDirection, { label: string; className: string }> = {
+  increasing: { label: '↗ Seen more often', className: 'bg-green-100 text-green-800' },
+  decreasing: { label: '↘ Seen less often', className: 'bg-red-100 text-red-800' },
+  stable: { label: '→ Stable', className: 'bg-gray-100 text-gray-700' },
+  'insufficient-data': { label: 'Too few records', className: 'bg-yellow-50 text-yellow-800' }
+};
+
+interface ObservationTrendChartProps {
+  species: Species;
+  location: Location;
+}
+
+function formatRate(rate: number): string {
+  return rate >= 10 ? rate.toFixed(0) : rate.toFixed(1);
+}
+
+// Yearly share of observations (per 1,000 in the area) as a timeline, with the
+// months the species is usually seen underneath
+export function ObservationTrendChart({ species, location }: ObservationTrendChartProps) {
+  const [trend, setTrend] = useState<ObservationTrend | null>(null);
+  const [summary, setSummary] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetch('/api/observations/trend', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ species: { commonName: species.commonName, scientificName: species.scientificName }, location })
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then((data: { trend?: ObservationTrend; summary?: string } | null) => {
+        if (cancelled) return;
+        setTrend(data?.trend ?? null);
+        setSummary(data?.summary ?? '');
+      })
+      .catch(error => {
+        console.error('Error fetching observation trend:', error);
+        if (!cancelled) setTrend(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [species.commonName, species.scientificName, location]);
+
+  if (isLoading) {
+    return <div className="text-sm text-green-700 animate-pulse">Loading observation trend...</div>;
+  }
+  if (!trend || trend.yearly.length === 0) {
+    return <div className="text-xs text-gray-500">No observation counts found for this area.</div>;
+  }
+
+  const { yearly, monthly } = trend;
+  const plotWidth = CHART.width - CHART.left - CHART.right;
+  const plotHeight = CHART.height - CHART.top - CHART.bottom;
+  const maxRate = Math.max(...yearly.map(point => point.rate), 0.1);
+  const firstYear = yearly[0].period;
+  const span = Math.max(yearly[yearly.length - 1].period - firstYear, 1);
+
+  const x = (point: TrendPoint) => CHART.left + (point.period - firstYear) / span * plotWidth;
+  const y = (point: TrendPoint) => CHART.top + plotHeight - point.rate / maxRate * plotHeight;
+  const line = yearly.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point).toFixed(1)} ${y(point).toFixed(1)}`).join('');
+
+  const maxMonthRate = Math.max(...monthly.map(point => point.rate), 0.1);
+  const badge = DIRECTION_BADGES[trend.direction];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-green-800">Observation trend</h3>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+          {badge.label}
+          {trend.changePerYear !== undefined && trend.direction !== 'stable' && trend.direction !== 'insufficient-data'
+            ? ` (${trend.changePerYear > 0 ? '+' : '−'}${Math.round(Math.abs(trend.changePerYear) * 100)}%/yr)`
+            : ''}
+        </span>
+      </div>
+
+      <svg width={CHART.width} height={CHART.height} className="block" role="img" aria-label={summary}>
+        {/* Axes */}
+        <line x1={CHART.left} y1={CHART.top} x2={CHART.left} y2={CHART.top + plotHeight} stroke="#d1d5db" />
+        <line x1={CHART.left} y1={CHART.top + plotHeight} x2={CHART.width - CHART.right} y2={CHART.top + plotHeight} stroke="#d1d5db" />
+        <text x={CHART.left - 4} y={CHART.top + 4} textAnchor="end" className="fill-gray-500 text-[9px]">{formatRate(maxRate)}</text>
+        <text x={CHART.left - 4} y={CHART.top + plotHeight} textAnchor="end" className="fill-gray-500 text-[9px]">0</text>
+        <text x={CHART.left} y={CHART.height - 6} className="fill-gray-500 text-[9px]">{firstYear}</text>
+        <text x={CHART.width - CHART.right} y={CHART.height - 6} textAnchor="end" className="fill-gray-500 text-[9px]">
+          {yearly[yearly.length - 1].period}
+        </text>
+
+        <path d={line} fill="none" stroke="#16a34a" strokeWidth={2} />
+        {yearly.map(point => (
+          <circle key={point.period} cx={x(point)} cy={y(point)} r={3} fill="#16a34a">
+            <title>{`${point.period}: ${point.speciesCount} of ${point.totalCount.toLocaleString()} observations (${formatRate(point.rate)} per 1,000)`}</title>
+          </circle>
+        ))}
+      </svg>
+      <p className="text-[11px] text-gray-500 -mt-1">Records per 1,000 observations in the area, by year</p>
+
+      {monthly.length > 0 && (
+        <div className="flex items-end gap-1 h-12" aria-label="Records per 1,000 observations by month">
+          {MONTH_LETTERS.map((letter, index) => {
+            const point = monthly.find(candidate => candidate.period === index + 1);
+            const height = point ? Math.max(point.rate / maxMonthRate * 32, point.speciesCount > 0 ? 2 : 0) : 0;
+            return (
+              <div key={index} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className="w-full bg-green-300 rounded-sm"
+                  style={{ height }}
+                  title={point ? `${point.speciesCount} records (${formatRate(point.rate)} per 1,000)` : 'No observations'}
+                />
+                <span className="text-[9px] text-gray-500">{letter}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {summary && <p className="text-xs text-gray-600">{summary}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+// Runs once when a Next.js server instance starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertRateLimitConfig } = await import('./lib/rate-limiter');
+    // Fails startup when INTERNAL_API_SECRET is missing in production
+    assertRateLimitConfig();
+  }
+}
@@ -0,0 +1,506 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ChatStateMachine, type ChatServices } from '../chat-state-machine'
+import type { Location, Species } from '../conservation-tools'
+import type { SessionData } from '../session-store'
+
+const miami: Location = { lat: 25.76, lon: -80.19, city: 'Miami', state: 'Florida', country: 'United States', displayName: 'Miami, Florida, United States' }
+const toronto: Location = { lat: 43.65, lon: -79.38, city: 'Toronto', country: 'Canada', displayName: 'Toronto, Ontario, Canada' }
+
+const panther: Species = { id: '1', commonName: 'Florida Panther', scientificName: 'Puma concolor coryi', conservationStatus: 'Endangered' }
+const manatee: Species = { id: '2', commonName: 'West Indian Manatee', scientificName: 'Trichechus manatus', conservationStatus: 'Vulnerable' }
+
+const organizations = [{ name: 'Florida Wildlife Federation', website: 'https://fwfonline.org' }]
+
+function createServices(overrides: Partial<ChatServices> = {}): ChatServices {
+  return {
+    classifyInput: vi.fn(async () => 'LOCATION' as const),
+    classifyRefinement: vi.fn(async () => 'LOCATION' as const),
+    lookupAnimal: vi.fn(async () => 'Common Name: Polar Bear'),
+    parseLocation: vi.fn(async () => ({ success: true, location: miami })),
+    parseStructuredLocation: vi.fn(async () => ({ success: true, location: miami })),
+    resolveDisambiguation: vi.fn(async () => ({ success: true, location: toronto })),
+    geocodeLocation: vi.fn(async () => toronto),
+    findSpecies: vi.fn(async () => ({ species: [panther, manatee] })),
+    enrichSpeciesStatus: vi.fn(async (species: Species[]) => ({ species, enrichedCount: species.length })),
+    searchOrganizations: vi.fn(async () => organizations),
+    pickRandomAnimal: vi.fn(async () => ({ species: manatee, placeName: 'United States', location: miami })),
+    answerQuestion: vi.fn(async () => ({
+      answer: 'Florida panthers mainly eat white-tailed deer and feral hogs [1].',
+      sources: [{ id: 1, kind: 'wikipedia' as const, title: 'Wikipedia: Florida panther', url: 'https://en.wikipedia.org/wiki/Florida_panther' }],
+    })),
+    ...overrides,
+  }
+}
+
+const animalStep: SessionData = { step: 'animal', mode: 'location-first', location: miami, species: [panther, manatee] }
+
+describe('ChatStateMachine', () => {
+  describe('initial step', () => {
+    it('should look up species when the input is a location', async () => {
+      const services = createServices()
+      const emit = vi.fn()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'initial' }, 'Miami, Florida', emit)
+
+      expect(services.parseLocation).toHaveBeenCalledWith('Miami, Florida')
+      expect(session).toMatchObject({ step: 'animal', mode: 'location-first', location: miami })
+      expect(payload).toMatchObject({ kind: 'species-list', step: 'animal', species: [panther, manatee] })
+      expect(emit.mock.calls.map(([event]) => event.stage)).toEqual(['classified', 'geocoded', 'species-found', 'iucn-enriched'])
+    })
+
+    it('should geocode the location form fields as a structured location', async () => {
+      const services = createServices()
+      const fields = { city: 'Miami', state: 'Florida', country: 'United States' }
+      const { session, payload } = await new ChatStateMachine(services).handleStructuredLocation({ step: 'initial' }, fields)
+
+      expect(services.parseStructuredLocation).toHaveBeenCalledWith(fields)
+      expect(services.classifyInput).not.toHaveBeenCalled()
+      expect(services.parseLocation).not.toHaveBeenCalled()
+      expect(session).toMatchObject({ step: 'animal', mode: 'location-first', location: miami })
+      expect(payload.kind).toBe('species-list')
+    })
+
+    it('should start a new search from the location form in any step', async () => {
+      const services = createServices({ parseStructuredLocation: vi.fn(async () => ({ success: true, location: toronto })) })
+      const completed: SessionData = { ...animalStep, step: 'completed', mode: 'animal-first' }
+      const { session } = await new ChatStateMachine(services).handleStructuredLocation(completed, { city: 'Toronto', country: 'Canada' })
+
+      expect(session).toMatchObject({ step: 'animal', mode: 'location-first', location: toronto })
+    })
+
+    it('should switch to animal-first mode when the input is an animal', async () => {
+      const services = createServices({ classifyInput: vi.fn(async () => 'ANIMAL' as const) })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'initial' }, 'polar bear')
+
+      expect(services.searchOrganizations).toHaveBeenCalledWith('polar bear', 'Worldwide')
+      expect(session).toMatchObject({ step: 'animal-location', mode: 'animal-first', selectedAnimal: { commonName: 'polar bear' } })
+      expect(payload.kind).toBe('organizations')
+    })
+
+    it('should fall back to the location step when the animal does not exist', async () => {
+      const services = createServices({
+        classifyInput: vi.fn(async () => 'ANIMAL' as const),
+        lookupAnimal: vi.fn(async () => null),
+      })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'initial' }, 'flibbertigibbet')
+
+      expect(session).toMatchObject({ step: 'location', mode: 'location-first' })
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'not-an-animal' })
+      expect(services.searchOrganizations).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('location step', () => {
+    it('should ask for disambiguation when the location is ambiguous', async () => {
+      const options = [{ displayName: 'Toronto, Ontario, Canada', searchQuery: 'Toronto, Ontario, Canada', description: 'City in Canada', country: 'Canada', region: 'Ontario' }]
+      const services = createServices({
+        parseLocation: vi.fn(async () => ({ success: false, needsDisambiguation: true, disambiguationOptions: options })),
+      })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'location' }, 'Toronto')
+
+      expect(session).toMatchObject({ step: 'disambiguation', disambiguationOptions: options })
+      expect(payload).toMatchObject({ kind: 'disambiguation', disambiguationOptions: options })
+    })
+
+    it('should stay in the location step when the location cannot be parsed', async () => {
+      const services = createServices({
+        parseLocation: vi.fn(async () => ({ success: false, errorMessage: 'Location not found' })),
+      })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'location' }, 'Nowhere')
+
+      expect(session.step).toBe('location')
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'invalid-location' })
+    })
+  })
+
+  describe('disambiguation step', () => {
+    const options = [
+      { displayName: 'Toronto, Ontario, Canada', searchQuery: 'Toronto, Ontario, Canada', description: 'City in Canada', country: 'Canada', region: 'Ontario' },
+      { displayName: 'Toronto, Ohio, USA', searchQuery: 'Toronto, Ohio, USA', description: 'City in Ohio', country: 'USA', region: 'Ohio' },
+    ]
+
+    it('should resolve the selected option and list species', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(
+        { step: 'disambiguation', disambiguationOptions: options },
+        'Toronto, Ohio, USA'
+      )
+
+      expect(services.resolveDisambiguation).toHaveBeenCalledWith(options[1])
+      expect(session.step).toBe('animal')
+      expect(session.disambiguationOptions).toBeUndefined()
+      expect(payload.kind).toBe('species-list')
+    })
+
+    it('should accept the option number or an ordinal', async () => {
+      const machine = new ChatStateMachine(createServices())
+      const session: SessionData = { step: 'disambiguation', disambiguationOptions: options }
+
+      expect(await machine.interpret(session, '#2')).toEqual({ type: 'OPTION_SELECTED', option: options[1] })
+      expect(await machine.interpret(session, 'the first one')).toEqual({ type: 'OPTION_SELECTED', option: options[0] })
+      expect(await machine.interpret(session, 'toronot ontario')).toEqual({ type: 'OPTION_SELECTED', option: options[0] })
+    })
+
+    it('should re-show the options when the reply matches none of them', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(
+        { step: 'disambiguation', disambiguationOptions: options },
+        'Paris'
+      )
+
+      expect(session.step).toBe('disambiguation')
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'invalid-selection', disambiguationOptions: options })
+    })
+  })
+
+  describe('animal step', () => {
+    it('should search organizations for a listed species and complete', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(animalStep, 'florida panther (Endangered)')
+
+      expect(services.searchOrganizations).toHaveBeenCalledWith('Florida Panther', 'Miami')
+      expect(session).toMatchObject({ step: 'completed', selectedAnimal: panther })
+      expect(payload).toMatchObject({ kind: 'organizations', animal: panther, organizations })
+    })
+
+    it('should put a protected area\'s managing authority first', async () => {
+      const everglades: Location = {
+        lat: 25.3, lon: -80.9, state: 'Florida', country: 'United States', displayName: 'Everglades National Park, Florida, United States',
+        namedArea: { name: 'Everglades National Park', kind: 'protected-area', managingAuthority: 'National Park Service', authorityWebsite: 'https://www.nps.gov/ever' },
+      }
+      const services = createServices()
+      const { payload } = await new ChatStateMachine(services).handleMessage({ ...animalStep, location: everglades }, '1')
+
+      expect(services.searchOrganizations).toHaveBeenCalledWith('Florida Panther', 'Everglades National Park')
+      expect(payload.organizations).toEqual([{ name: 'National Park Service', website: 'https://www.nps.gov/ever' }, ...organizations])
+    })
+
+    it('should select species by list number, ordinal or a misspelled name', async () => {
+      const machine = new ChatStateMachine(createServices())
+
+      expect(await machine.interpret(animalStep, '2')).toEqual({ type: 'SPECIES_SELECTED', species: manatee })
+      expect(await machine.interpret(animalStep, 'the last one')).toEqual({ type: 'SPECIES_SELECTED', species: manatee })
+      expect(await machine.interpret(animalStep, 'florida pantehr')).toEqual({ type: 'SPECIES_SELECTED', species: panther })
+      expect(await machine.interpret(animalStep, '7')).toMatchObject({ type: 'NON_ANIMAL_INPUT' })
+    })
+
+    it('should reset and search the new location when a location is entered', async () => {
+      const services = createServices({ parseLocation: vi.fn(async () => ({ success: true, location: toronto })) })
+      const machine = new ChatStateMachine(services)
+
+      expect(await machine.interpret(animalStep, 'I live in Toronto')).toEqual({ type: 'LOCATION_ENTERED', text: 'I live in Toronto' })
+
+      const { session, payload } = await machine.handleMessage(animalStep, 'I live in Toronto')
+
+      expect(services.parseLocation).toHaveBeenCalledWith('I live in Toronto')
+      expect(session).toMatchObject({ step: 'animal', location: toronto })
+      expect(payload).toMatchObject({ kind: 'species-list', location: toronto })
+    })
+
+    it('should keep the session when the new location cannot be found', async () => {
+      const services = createServices({ parseLocation: vi.fn(async () => ({ success: false })) })
+      const { session } = await new ChatStateMachine(services).handleMessage(animalStep, 'Canada')
+
+      expect(session.step).toBe('location')
+      expect(session.location).toBeUndefined()
+      expect(session.species).toBeUndefined()
+    })
+
+    it('should not treat a listed species as a new location', async () => {
+      const machine = new ChatStateMachine(createServices())
+      const session: SessionData = { ...animalStep, species: [{ id: '3', commonName: 'Georgia Aster', scientificName: 'Symphyotrichum georgianum', conservationStatus: 'Unknown' }] }
+
+      expect(await machine.interpret(session, 'Georgia Aster')).toMatchObject({ type: 'SPECIES_SELECTED' })
+    })
+
+    it('should reject non-animal input with the species reminder', async () => {
+      const { session, payload } = await new ChatStateMachine(createServices()).handleMessage(animalStep, 'hello there')
+
+      expect(session.step).toBe('animal')
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'invalid-animal' })
+    })
+
+    it('should search the same location again with filters', async () => {
+      const services = createServices({ findSpecies: vi.fn(async () => ({ species: [panther] })) })
+      const machine = new ChatStateMachine(services)
+
+      expect(await machine.interpret(animalStep, 'only mammals')).toEqual({ type: 'FILTERS_CHANGED', filters: { taxonGroups: ['mammal'] } })
+
+      const { session, payload } = await machine.handleMessage(animalStep, 'threatened mammals')
+
+      expect(services.findSpecies).toHaveBeenCalledWith(miami, { filters: { taxonGroups: ['mammal'], redListCategories: ['CR', 'EN', 'VU'] } })
+      expect(session.speciesSearch?.filters).toEqual({ taxonGroups: ['mammal'], redListCategories: ['CR', 'EN', 'VU'] })
+      expect(payload).toMatchObject({ kind: 'species-list', species: [panther] })
+      expect(payload.response).toContain('Threatened mammals near Miami')
+    })
+
+    it('should search the same location again for a season', async () => {
+      const services = createServices({ findSpecies: vi.fn(async () => ({ species: [panther] })) })
+
+      const { payload } = await new ChatStateMachine(services).handleMessage(animalStep, 'What can I see here in spring?')
+
+      expect(services.findSpecies).toHaveBeenCalledWith(miami, { filters: { period: { months: [3, 4, 5] } } })
+      expect(payload.response).toContain('Species from March to May near Miami')
+    })
+
+    it('should page through more species without repeating listed ones', async () => {
+      const heron: Species = { id: '4', commonName: 'Great Blue Heron', scientificName: 'Ardea herodias', conservationStatus: 'Least Concern' }
+      const services = createServices({ findSpecies: vi.fn(async () => ({ species: [manatee, heron] })) })
+      const paged: SessionData = { ...animalStep, speciesSearch: { nextCursor: '2:50', seen: ['puma concolor coryi', 'trichechus manatus'] } }
+
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(paged, 'show more')
+
+      expect(services.findSpecies).toHaveBeenCalledWith(miami, { filters: undefined, cursor: '2:50' })
+      expect(session.species).toEqual([heron])
+      expect(session.speciesSearch).toMatchObject({ nextCursor: undefined, seen: ['puma concolor coryi', 'trichechus manatus', 'ardea herodias'] })
+      expect(payload).toMatchObject({ kind: 'species-list', species: [heron] })
+    })
+
+    it('should say when there are no more species', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(animalStep, 'more')
+
+      expect(services.findSpecies).not.toHaveBeenCalled()
+      expect(session.species).toEqual([panther, manatee])
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'no-species' })
+    })
+
+    it('should report animals that are not in the list', async () => {
+      const { session, payload } = await new ChatStateMachine(createServices()).handleMessage(animalStep, 'giraffe')
+
+      expect(session.step).toBe('animal')
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'invalid-animal', species: [panther, manatee] })
+    })
+  })
+
+  describe('animal-location step', () => {
+    const animalLocationStep: SessionData = { step: 'animal-location', mode: 'animal-first', selectedAnimal: { id: 'polar-bear', commonName: 'polar bear', scientificName: 'Unknown', conservationStatus: 'Unknown' } }
+
+    it('should search organizations for a geocoded location', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(animalLocationStep, 'Toronto')
+
+      expect(services.geocodeLocation).toHaveBeenCalledWith('Toronto')
+      expect(services.searchOrganizations).toHaveBeenCalledWith('polar bear', 'Toronto')
+      expect(session).toMatchObject({ step: 'completed', location: toronto })
+      expect(payload.kind).toBe('organizations')
+    })
+
+    it('should search worldwide on request', async () => {
+      const services = createServices()
+      const { session } = await new ChatStateMachine(services).handleMessage(animalLocationStep, 'worldwide')
+
+      expect(services.searchOrganizations).toHaveBeenCalledWith('polar bear', 'Worldwide')
+      expect(session.step).toBe('completed')
+    })
+
+    it('should use a refined animal name', async () => {
+      const services = createServices({ classifyRefinement: vi.fn(async () => 'ANIMAL' as const) })
+      const { session } = await new ChatStateMachine(services).handleMessage(animalLocationStep, 'Polar Bear (Svalbard)')
+
+      expect(session.selectedAnimal?.commonName).toBe('Polar Bear (Svalbard)')
+      expect(animalLocationStep.selectedAnimal?.commonName).toBe('polar bear')
+    })
+
+    it('should stay in the step when the location cannot be geocoded', async () => {
+      const services = createServices({ geocodeLocation: vi.fn(async () => null) })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(animalLocationStep, 'Atlantis')
+
+      expect(session.step).toBe('animal-location')
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'invalid-location' })
+    })
+  })
+
+  describe('completed step', () => {
+    const history = [{ animal: 'Florida Panther', location: miami.displayName, organizationCount: 1, searchedAt: 1 }]
+    const completedStep: SessionData = { ...animalStep, step: 'completed', selectedAnimal: panther, history }
+
+    it('should answer follow-up questions about the selected animal with citations', async () => {
+      const services = createServices()
+      const emit = vi.fn()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(completedStep, 'What does it eat?', emit)
+
+      expect(services.answerQuestion).toHaveBeenCalledWith('What does it eat?', panther, miami)
+      expect(session).toEqual(completedStep)
+      expect(payload).toMatchObject({ kind: 'answer', step: 'completed', animal: panther, sources: [{ id: 1, kind: 'wikipedia' }] })
+      expect(payload.response).toContain('[1]')
+      expect(payload.response).toContain('https://en.wikipedia.org/wiki/Florida_panther')
+      expect(emit.mock.calls.map(([event]) => event.stage)).toEqual(['sources-found'])
+    })
+
+    it('should say so when no source answers the question', async () => {
+      const services = createServices({ answerQuestion: vi.fn(async () => ({ answer: '', sources: [] })) })
+      const { payload } = await new ChatStateMachine(services).handleMessage(completedStep, 'how many are left in Florida?')
+
+      expect(payload).toMatchObject({ kind: 'answer', sources: [] })
+      expect(payload.response).toContain("couldn't find sourced information")
+    })
+
+    it('should search organizations for another species from the list', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(completedStep, 'West Indian Manatee')
+
+      expect(services.searchOrganizations).toHaveBeenCalledWith('West Indian Manatee', 'Miami')
+      expect(session).toMatchObject({ step: 'completed', selectedAnimal: manatee, species: [panther, manatee] })
+      expect(session.history?.map(entry => entry.animal)).toEqual(['Florida Panther', 'West Indian Manatee'])
+      expect(payload).toMatchObject({ kind: 'organizations', animal: manatee })
+    })
+
+    it('should keep the animal when the location changes', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(completedStep, 'Toronto, Canada')
+
+      expect(services.geocodeLocation).toHaveBeenCalledWith('Toronto, Canada')
+      expect(services.searchOrganizations).toHaveBeenCalledWith('Florida Panther', 'Toronto')
+      expect(session).toMatchObject({ step: 'completed', location: toronto, selectedAnimal: panther })
+      expect(session.history).toHaveLength(2)
+      expect(payload).toMatchObject({ kind: 'organizations', location: toronto })
+    })
+
+    it('should search another species from the list where the list was found', async () => {
+      const services = createServices()
+      const machine = new ChatStateMachine(services)
+      const moved = await machine.handleMessage({ ...completedStep, speciesSearch: { seen: [], location: miami } }, 'Toronto, Canada')
+      expect(moved.session.location).toEqual(toronto)
+
+      const { session, payload } = await machine.handleMessage(moved.session, 'West Indian Manatee')
+      expect(services.searchOrganizations).toHaveBeenLastCalledWith('West Indian Manatee', 'Miami')
+      expect(session.location).toEqual(miami)
+      expect(payload).toMatchObject({ kind: 'organizations', animal: manatee, location: miami })
+    })
+
+    it('should widen the search to worldwide', async () => {
+      const services = createServices()
+      const { session } = await new ChatStateMachine(services).handleMessage(completedStep, 'worldwide')
+
+      expect(services.searchOrganizations).toHaveBeenCalledWith('Florida Panther', 'Worldwide')
+      expect(session.history?.[1]).toMatchObject({ animal: 'Florida Panther', location: 'Worldwide' })
+    })
+
+    it('should offer follow-up options for anything else', async () => {
+      const services = createServices()
+      const machine = new ChatStateMachine(services)
+
+      for (const text of ['thanks', 'ok', 'sounds good']) {
+        const { session, payload } = await machine.handleMessage(completedStep, text)
+        expect(session).toEqual(completedStep)
+        expect(payload).toMatchObject({ kind: 'completed', animal: panther })
+      }
+      expect(services.geocodeLocation).not.toHaveBeenCalled()
+      expect(services.searchOrganizations).not.toHaveBeenCalled()
+    })
+
+    it('should search a known place named on its own', async () => {
+      const services = createServices()
+      await new ChatStateMachine(services).handleMessage(completedStep, 'Toronto')
+
+      expect(services.geocodeLocation).toHaveBeenCalledWith('Toronto')
+    })
+
+    it('should stay completed when the new location cannot be geocoded', async () => {
+      const services = createServices({ geocodeLocation: vi.fn(async () => null) })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage(completedStep, 'near Atlantis')
+
+      expect(session).toEqual(completedStep)
+      expect(payload).toMatchObject({ kind: 'error', errorType: 'invalid-location' })
+    })
+  })
+
+  describe('invasive species', () => {
+    const caneToad: Species = { id: '3', commonName: 'Cane Toad', scientificName: 'Rhinella marina', conservationStatus: 'Least Concern', establishment: 'invasive' }
+
+    it('should search a named place for introduced and invasive species only', async () => {
+      const services = createServices({ findSpecies: vi.fn(async () => ({ species: [caneToad] })) })
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'initial' }, 'Invasive species near Miami, Florida')
+
+      expect(services.classifyInput).not.toHaveBeenCalled()
+      expect(services.parseLocation).toHaveBeenCalledWith('Miami, Florida')
+      expect(services.findSpecies).toHaveBeenCalledWith(miami, { filters: { nonNative: true } })
+      expect(session).toMatchObject({ step: 'animal', mode: 'invasive-species' })
+      expect(payload.response).toContain('Introduced and invasive species near Miami')
+      expect(payload.response).toContain('Cane Toad (Least Concern) 🚫 invasive here')
+    })
+
+    it('should ask for a location for "near me" and keep the filter for it', async () => {
+      const services = createServices()
+      const machine = new ChatStateMachine(services)
+      const prompted = await machine.handleMessage({ step: 'initial' }, 'invasive species near me')
+
+      expect(prompted.session).toMatchObject({ step: 'location', mode: 'invasive-species' })
+      expect(prompted.payload).toMatchObject({ kind: 'error', errorType: 'missing-location' })
+
+      await machine.handleMessage(prompted.session, 'Miami, Florida')
+      expect(services.findSpecies).toHaveBeenCalledWith(miami, { filters: { nonNative: true } })
+    })
+
+    it('should list every species again when a normal location search follows', async () => {
+      const services = createServices()
+      const machine = new ChatStateMachine(services)
+      const invasive = await machine.handleMessage({ step: 'initial' }, 'Invasive species near Miami, Florida')
+
+      const { session } = await machine.handleStructuredLocation(invasive.session, { city: 'Miami', state: 'Florida', country: 'United States' })
+      expect(services.findSpecies).toHaveBeenLastCalledWith(miami, { filters: {} })
+      expect(session).toMatchObject({ step: 'animal', mode: 'location-first' })
+
+      // Later location changes stay unfiltered too
+      await machine.handleMessage(session, 'Miami, Florida')
+      expect(services.findSpecies).toHaveBeenLastCalledWith(miami, { filters: {} })
+    })
+
+    it('should show reporting agencies instead of organizations for an invasive species', async () => {
+      const services = createServices()
+      const { session, payload } = await new ChatStateMachine(services).handleMessage({ ...animalStep, species: [panther, caneToad] }, 'cane toad')
+
+      expect(services.searchOrganizations).not.toHaveBeenCalled()
+      expect(session).toMatchObject({ step: 'completed', selectedAnimal: caneToad })
+      expect(payload).toMatchObject({ kind: 'reporting-agencies', animal: caneToad, location: miami })
+      expect(payload.organizations?.[0].name).toContain('EDDMapS')
+      expect(payload.response).toContain('Cane Toad is invasive near Miami')
+    })
+
+    it('should keep offering reporting agencies after an invasive species was chosen', async () => {
+      const services = createServices()
+      const machine = new ChatStateMachine(services)
+      const reported = await machine.handleMessage({ ...animalStep, species: [panther, caneToad] }, 'cane toad')
+
+      expect(reported.payload.response).toContain('where to report Cane Toad')
+      expect(reported.payload.response).not.toContain('worldwide')
+
+      const { payload } = await machine.handleMessage(reported.session, 'Toronto, Canada')
+      expect(services.searchOrganizations).not.toHaveBeenCalled()
+      expect(payload).toMatchObject({ kind: 'reporting-agencies', animal: caneToad, location: toronto })
+      expect(payload.organizations?.[0].name).toBe('Canadian Council on Invasive Species')
+
+      const worldwide = await machine.handleMessage(reported.session, 'worldwide')
+      expect(services.searchOrganizations).not.toHaveBeenCalled()
+      expect(worldwide.payload.kind).toBe('completed')
+    })
+  })
+
+  it('should handle surprise requests from any step without changing the session', async () => {
+    const services = createServices()
+    const { session, payload } = await new ChatStateMachine(services).handleMessage(animalStep, 'Surprise me with a random animal')
+
+    expect(services.pickRandomAnimal).toHaveBeenCalledWith({})
+    expect(session).toEqual(animalStep)
+    expect(payload).toMatchObject({ kind: 'organizations', animal: manatee })
+  })
+
+  it('should name the country of a random animal that could not be geocoded', async () => {
+    const services = createServices({ pickRandomAnimal: vi.fn(async () => ({ species: manatee, placeName: 'Belize' })) })
+    const { payload } = await new ChatStateMachine(services).handleMessage({ step: 'initial' }, 'Surprise me')
+
+    expect(services.searchOrganizations).toHaveBeenCalledWith('West Indian Manatee', 'Belize')
+    expect(payload.location).toBeUndefined()
+    expect(payload.response).toContain('Found in Belize')
+  })
+
+  it('should pass class and region filters to the random animal pick', async () => {
+    const services = createServices({ pickRandomAnimal: vi.fn(async () => null) })
+    const { session, payload } = await new ChatStateMachine(services).handleMessage({ step: 'initial' }, 'Surprise me with a bird in South America')
+
+    expect(services.pickRandomAnimal).toHaveBeenCalledWith({ taxonClass: 'bird', region: 'SOUTH_AMERICA' })
+    expect(session).toEqual({ step: 'initial' })
+    expect(payload).toMatchObject({ kind: 'error', errorType: 'no-species' })
+    expect(payload.response).toContain('bird in South America')
+  })
+})
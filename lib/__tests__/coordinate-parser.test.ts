@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodePlusCode,
+  formatCoordinates,
+  isValidCoordinate,
+  parseCoordinates,
+  parseShortPlusCode,
+  recoverShortPlusCode,
+  reduceCoordinatePrecision,
+} from '../coordinate-parser'
+
+describe('coordinate-parser', () => {
+  it('should parse decimal coordinates', () => {
+    expect(parseCoordinates('25.76, -80.19')).toEqual({ lat: 25.76, lon: -80.19, format: 'decimal' })
+    expect(parseCoordinates('25.76 -80.19')).toEqual({ lat: 25.76, lon: -80.19, format: 'decimal' })
+    expect(parseCoordinates("I'm at 25.76N, 80.19W")).toEqual({ lat: 25.76, lon: -80.19, format: 'decimal' })
+  })
+
+  it('should parse degrees, minutes and seconds', () => {
+    const result = parseCoordinates(`40°26'46"N 79°58'56"W`)
+
+    expect(result?.format).toBe('dms')
+    expect(result?.lat).toBeCloseTo(40.4461, 4)
+    expect(result?.lon).toBeCloseTo(-79.9822, 4)
+    expect(parseCoordinates('40° 26′ 46″ N, 79° 58′ 56″ W')?.lat).toBeCloseTo(40.4461, 4)
+  })
+
+  it('should use hemispheres to put longitude-first input in order', () => {
+    const result = parseCoordinates('80.19W 25.76N')
+
+    expect(result?.lat).toBe(25.76)
+    expect(result?.lon).toBe(-80.19)
+  })
+
+  it('should ignore input that is not coordinates', () => {
+    expect(parseCoordinates('Miami, Florida')).toBeNull()
+    expect(parseCoordinates('2, 3')).toBeNull()
+    expect(parseCoordinates('25.76N 80.19N')).toBeNull()
+    expect(parseCoordinates(`40°75'00"N 79°58'56"W`)).toBeNull()
+  })
+
+  it('should leave range checks to the caller', () => {
+    const result = parseCoordinates('95.5, 200.1')
+
+    expect(result).toEqual({ lat: 95.5, lon: 200.1, format: 'decimal' })
+    expect(isValidCoordinate(result!.lat, result!.lon)).toBe(false)
+    expect(isValidCoordinate(25.76, -80.19)).toBe(true)
+  })
+
+  it('should decode full plus codes', () => {
+    const decoded = decodePlusCode('849VCWC8+R9')
+
+    expect(decoded?.lat).toBeCloseTo(37.422, 3)
+    expect(decoded?.lon).toBeCloseTo(-122.084, 3)
+    expect(parseCoordinates('849vcwc8+r9')?.format).toBe('plus-code')
+    expect(decodePlusCode('849VCWC8+R')).toBeNull()
+  })
+
+  it('should recover short plus codes near a reference locality', () => {
+    expect(parseShortPlusCode('CWC8+R9 Mountain View, CA')).toEqual({ code: 'CWC8+R9', locality: 'Mountain View, CA' })
+    expect(parseShortPlusCode('Mountain View')).toBeNull()
+
+    const recovered = recoverShortPlusCode('CWC8+R9', 37.39, -122.08)
+    expect(recovered?.lat).toBeCloseTo(37.422, 3)
+    expect(recovered?.lon).toBeCloseTo(-122.084, 3)
+  })
+
+  it('should reduce coordinate precision only when configured', () => {
+    expect(reduceCoordinatePrecision(25.761681, -80.191788, 2)).toEqual({ lat: 25.76, lon: -80.19 })
+    expect(reduceCoordinatePrecision(25.761681, -80.191788, 0)).toEqual({ lat: 26, lon: -80 })
+    expect(reduceCoordinatePrecision(25.761681, -80.191788)).toEqual({ lat: 25.761681, lon: -80.191788 })
+  })
+
+  it('should format coordinates with hemispheres', () => {
+    expect(formatCoordinates(25.76, -80.19)).toBe('25.7600°N, 80.1900°W')
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { countryCodeFor, countryNameFor, findCountry, findCountryByCode, findSubdivision, findSubdivisions, listCountries } from '../country-registry'
+
+describe('country-registry', () => {
+  it('should cover every ISO 3166-1 country', () => {
+    expect(listCountries().length).toBeGreaterThanOrEqual(249)
+    expect(findCountryByCode('NPL')).toMatchObject({ alpha2: 'NP', name: 'Nepal' })
+    expect(countryNameFor('cd')).toBe('Democratic Republic of the Congo')
+  })
+
+  it('should match whole names only', () => {
+    expect(findCountry('us')?.alpha2).toBe('US')
+    expect(findCountry('Niger')?.alpha2).toBe('NE')
+    expect(findCountry('Nigeria')?.alpha2).toBe('NG')
+    expect(findCountry('Austral')).toBeUndefined()
+    // Codes are not names: "DE" is not Germany
+    expect(findCountry('DE')).toBeUndefined()
+  })
+
+  it('should recognise official, translated and everyday names', () => {
+    expect(findCountry('Korea, Republic of')?.alpha2).toBe('KR')
+    expect(findCountry('Alemania')?.alpha2).toBe('DE')
+    expect(findCountry('Deutschland')?.alpha2).toBe('DE')
+    expect(findCountry('Côte d’Ivoire')?.alpha2).toBe('CI')
+    expect(findCountry('Ivory Coast')?.alpha2).toBe('CI')
+  })
+
+  it('should find subdivisions by name, alias or code', () => {
+    expect(findSubdivision('Bavaria')?.code).toBe('DE-BY')
+    expect(findSubdivision('OR', 'US')?.name).toBe('Oregon')
+    expect(findSubdivisions('Georgia').map(subdivision => subdivision.code)).toContain('US-GA')
+    expect(findSubdivision('Ontario', 'US')).toBeUndefined()
+  })
+
+  it('should work out the country of a location', () => {
+    expect(countryCodeFor({ countryCode: 'au', displayName: 'Sydney' })).toBe('AU')
+    expect(countryCodeFor({ country: 'United States of America', displayName: 'Portland' })).toBe('US')
+    expect(countryCodeFor({ displayName: 'Lyon, Auvergne-Rhône-Alpes, France' })).toBe('FR')
+    expect(countryCodeFor({ state: 'Saskatchewan', displayName: 'Regina' })).toBe('CA')
+    expect(countryCodeFor({ displayName: 'Somewhere' })).toBeUndefined()
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import {
+  fromGbifOccurrence,
+  fromInatEstablishmentMeans,
+  mergeEstablishmentStatus,
+  parseInvasiveSpeciesRequest,
+} from '../establishment-status'
+import { invasiveSpeciesAgencies } from '../invasive-species-agencies'
+
+describe('establishment-status', () => {
+  it('should map iNaturalist and GBIF establishment means', () => {
+    expect(fromInatEstablishmentMeans({ establishment_means: 'introduced' })).toBe('introduced')
+    expect(fromInatEstablishmentMeans('endemic')).toBe('native')
+    expect(fromInatEstablishmentMeans(undefined)).toBe('unknown')
+
+    expect(fromGbifOccurrence({ establishmentMeans: 'NATIVE_INDIGENOUS' })).toBe('native')
+    expect(fromGbifOccurrence({ establishmentMeans: 'INTRODUCED', degreeOfEstablishment: 'INVASIVE' })).toBe('invasive')
+    expect(fromGbifOccurrence({ establishmentMeans: 'Naturalised' })).toBe('introduced')
+    expect(fromGbifOccurrence({ establishmentMeans: 'VAGRANT' })).toBe('unknown')
+  })
+
+  it('should keep the strongest claim when records disagree', () => {
+    expect(mergeEstablishmentStatus('native', 'introduced', 'unknown')).toBe('introduced')
+    expect(mergeEstablishmentStatus('introduced', 'invasive')).toBe('invasive')
+    expect(mergeEstablishmentStatus(undefined, 'unknown')).toBe('unknown')
+  })
+
+  it('should read invasive species requests with and without a place', () => {
+    expect(parseInvasiveSpeciesRequest('Invasive species near Miami, Florida')).toEqual({ place: 'Miami, Florida' })
+    expect(parseInvasiveSpeciesRequest('show me introduced animals in Queensland')).toEqual({ place: 'Queensland' })
+    expect(parseInvasiveSpeciesRequest('invasive species near me')).toEqual({})
+    expect(parseInvasiveSpeciesRequest('non-native wildlife nearby?')).toEqual({})
+    expect(parseInvasiveSpeciesRequest('cane toad')).toBeNull()
+    expect(parseInvasiveSpeciesRequest('only invasive birds')).toBeNull()
+  })
+
+  it('should list national reporting agencies before the global ones', () => {
+    const australia = invasiveSpeciesAgencies({ lat: -27.5, lon: 153, state: 'Queensland', country: 'Australia', displayName: 'Brisbane, Queensland, Australia' })
+    expect(australia[0].name).toBe('FeralScan')
+    expect(australia[australia.length - 1].name).toContain('iNaturalist')
+
+    const germany = invasiveSpeciesAgencies({ lat: 52.5, lon: 13.4, country: 'Germany', displayName: 'Berlin, Germany' })
+    expect(germany[0].name).toContain('EASIN')
+
+    const unknown = invasiveSpeciesAgencies({ lat: 0, lon: 0, displayName: 'Worldwide' })
+    expect(unknown.map(agency => agency.name)).toEqual([
+      'Global Invasive Species Database (IUCN Invasive Species Specialist Group)',
+      'iNaturalist (post the sighting so it is mapped)',
+    ])
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest'
+import { FollowUpQAService, isFollowUpQuestion, articleParagraphs, rankPassages, type FollowUpSourceProviders } from '../follow-up-qa'
+import type { Location, Species } from '../conservation-tools'
+
+const panther: Species = { id: '1', commonName: 'Florida Panther', scientificName: 'Puma concolor coryi', conservationStatus: 'Endangered' }
+const florida: Location = { lat: 27.99, lon: -81.76, state: 'Florida', country: 'United States', displayName: 'Florida, United States' }
+
+const ARTICLE = `
+<p>The Florida panther is a population of cougar in southern Florida.<sup>[1]</sup></p>
+<p>Its diet consists mainly of white-tailed deer, feral hogs and raccoons, which it hunts at dusk.</p>
+<p>About 120&ndash;230 adults remain in the wild, restricted to a small range in southwest Florida.</p>
+`
+
+function createProviders(overrides: Partial<FollowUpSourceProviders> = {}): FollowUpSourceProviders {
+  return {
+    getWikipediaSummary: vi.fn(async () => ({ title: 'Florida panther', extract: 'The Florida panther is a North American cougar population.', pageUrl: 'https://en.wikipedia.org/wiki/Florida_panther' })),
+    getWikipediaArticle: vi.fn(async () => ARTICLE),
+    searchRag: vi.fn(async () => ({ success: true, documents: [{ text: 'Panther numbers in Florida have grown since 1995 genetic restoration.', metadata: { source: 'https://www.fws.gov/species/florida-panther' } }] })),
+    getIUCNStatus: vi.fn(async () => ({ found: true, scientificName: 'Puma concolor', categoryLabel: 'Least Concern', populationTrend: 'Decreasing', taxonId: 18868 })),
+    ...overrides,
+  }
+}
+
+describe('follow-up-qa', () => {
+  it('should recognise follow-up questions', () => {
+    expect(isFollowUpQuestion('what does it eat')).toBe(true)
+    expect(isFollowUpQuestion('Diet?')).toBe(true)
+    expect(isFollowUpQuestion('Arizona')).toBe(false)
+    expect(isFollowUpQuestion('worldwide')).toBe(false)
+  })
+
+  it('should extract article paragraphs and rank them by question terms', () => {
+    const paragraphs = articleParagraphs(ARTICLE)
+
+    expect(paragraphs).toHaveLength(3)
+    expect(paragraphs[0]).not.toContain('[1]')
+    expect(rankPassages('What is its diet?', paragraphs, 1)[0]).toContain('white-tailed deer')
+  })
+
+  it('should ground the answer in every source and number the citations', async () => {
+    const generate = vi.fn(async (_prompt: string) => 'It mostly eats white-tailed deer and feral hogs [2].')
+    const providers = createProviders({ generate })
+
+    const { answer, sources } = await new FollowUpQAService(providers).answer('What is its diet?', panther, florida)
+
+    expect(answer).toBe('It mostly eats white-tailed deer and feral hogs [2].')
+    expect(sources.map(source => source.kind)).toEqual(['wikipedia', 'wikipedia', 'rag', 'iucn'])
+    expect(sources.map(source => source.id)).toEqual([1, 2, 3, 4])
+    expect(sources[3].url).toBe('https://www.iucnredlist.org/species/18868')
+    expect(providers.searchRag).toHaveBeenCalledWith('Florida Panther What is its diet?', 'Florida, United States')
+
+    const prompt = generate.mock.calls[0][0]
+    expect(prompt).toContain('[2] Wikipedia: Florida panther (full article)')
+    expect(prompt).toContain('Use ONLY the numbered sources')
+  })
+
+  it('should quote the sources when the LLM is unavailable', async () => {
+    const providers = createProviders({ generate: vi.fn(async () => { throw new Error('offline') }) })
+
+    const { answer } = await new FollowUpQAService(providers).answer('What is its diet?', panther, florida)
+
+    expect(answer).toContain('white-tailed deer')
+    expect(answer).toMatch(/\[\d\]/)
+  })
+
+  it('should return no sources when nothing could be retrieved', async () => {
+    const providers = createProviders({
+      getWikipediaSummary: vi.fn(async () => { throw new Error('not found') }),
+      getWikipediaArticle: vi.fn(async () => null),
+      searchRag: vi.fn(async () => ({ success: false, error: 'unavailable' })),
+      getIUCNStatus: vi.fn(async () => null),
+    })
+
+    expect(await new FollowUpQAService(providers).answer('What is its diet?', panther)).toEqual({ answer: '', sources: [] })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { FallbackGeocoder, createGeocoder, type Geocoder } from '../geocoder'
+import { PhotonGeocoder } from '../photon-geocoder'
+import type { GeocodeCandidate } from '../geocoding-service'
+
+const candidate = (name: string): GeocodeCandidate => ({
+  name,
+  importance: 0.5,
+  placeRank: 16,
+  placeType: 'city',
+  location: { lat: 1, lon: 2, displayName: name },
+})
+
+function provider(name: string, search: Geocoder['search']): Geocoder {
+  return { name, search: vi.fn(search), reverse: vi.fn(async () => null) }
+}
+
+describe('geocoder', () => {
+  it('should fall through providers that fail or find nothing', async () => {
+    const down = provider('down', async () => { throw new Error('offline') })
+    const empty = provider('empty', async () => [])
+    const found = provider('found', async () => [candidate('Miami')])
+    const chain = new FallbackGeocoder([down, empty, found], () => {})
+
+    expect((await chain.search('Miami')).map(c => c.name)).toEqual(['Miami'])
+    expect(empty.search).toHaveBeenCalledWith('Miami')
+  })
+
+  it('should give structured queries as free text to providers without structured search', async () => {
+    const free = provider('free', async () => [candidate('Miami')])
+    const structured = { ...provider('structured', async () => []), searchStructured: vi.fn(async () => []) }
+    const chain = new FallbackGeocoder([structured, free], () => {})
+
+    const query = { city: 'Miami', state: 'Florida', country: 'United States' }
+    expect((await chain.searchStructured(query)).map(c => c.name)).toEqual(['Miami'])
+    expect(structured.searchStructured).toHaveBeenCalledWith(query)
+    expect(structured.search).not.toHaveBeenCalled()
+    expect(free.search).toHaveBeenCalledWith('Miami, Florida, United States')
+  })
+
+  it('should stop at the first provider with results', async () => {
+    const first = provider('first', async () => [candidate('Miami')])
+    const second = provider('second', async () => [candidate('Other')])
+
+    await new FallbackGeocoder([first, second]).search('Miami')
+    expect(second.search).not.toHaveBeenCalled()
+  })
+
+  it('should only throw when every provider failed', async () => {
+    const down = provider('down', async () => { throw new Error('offline') })
+
+    await expect(new FallbackGeocoder([down]).search('Miami')).rejects.toThrow('offline')
+    expect(await new FallbackGeocoder([down, provider('empty', async () => [])]).search('Miami')).toEqual([])
+  })
+
+  it('should build the chain from provider names', () => {
+    expect(createGeocoder({ providers: ['photon', 'offline'] }).name).toBe('photon → offline')
+    expect(createGeocoder({ providers: ['bogus'] }).name).toBe('offline')
+  })
+
+  it('should map Photon features to candidates', async () => {
+    const fetcher = vi.fn(async (_url: string) => ({
+      ok: true,
+      json: async () => ({
+        features: [{
+          geometry: { coordinates: [-80.19, 25.76] },
+          properties: { name: 'Miami', type: 'city', state: 'Florida', country: 'United States', extent: [-80.32, 25.86, -80.13, 25.7] },
+        }],
+      }),
+    }) as Response)
+    const photon = new PhotonGeocoder({ baseUrl: 'https://photon.test', userAgent: 'test', fetcher, log: () => {} })
+
+    const [miami] = await photon.search('Miami')
+    await photon.search('Miami')
+
+    expect(miami).toMatchObject({ name: 'Miami', placeRank: 16, importance: 0.9 })
+    expect(miami.location).toMatchObject({ lat: 25.76, lon: -80.19, city: 'Miami', displayName: 'Miami, Florida, United States' })
+    expect(miami.location.boundingBox).toEqual({ south: 25.7, west: -80.32, north: 25.86, east: -80.13 })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+})
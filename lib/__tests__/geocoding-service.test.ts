@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileRequestSlotStore, GeocodingService, normalizeGeocodeQuery, type CachedGeocode, type GeocodeCacheStore, type GeocodingServiceOptions } from '../geocoding-service'
+
+const MIAMI = [
+  { lat: '25.7617', lon: '-80.1918', name: 'Miami', display_name: 'Miami, Florida, United States', importance: 0.78, place_rank: 16, addresstype: 'city', address: { city: 'Miami', state: 'Florida', country: 'United States' }, extratags: { population: '442241' } },
+]
+
+function jsonResponse(body: unknown) {
+  return { ok: true, json: async () => body } as Response
+}
+
+function createService(overrides: Partial<GeocodingServiceOptions> = {}) {
+  let time = 0
+  const sleeps: number[] = []
+  const fetcher = vi.fn(async (_url: string) => jsonResponse(MIAMI))
+  const service = new GeocodingService({
+    minIntervalMs: 1000,
+    searchLimit: 8,
+    cacheTtlMs: 60_000,
+    missTtlMs: 1_000,
+    cacheMaxEntries: 10,
+    userAgent: 'test',
+    fetcher,
+    now: () => time,
+    sleep: async (ms: number) => { sleeps.push(ms); time += ms },
+    log: () => {},
+    ...overrides,
+  })
+  return { service, fetcher, sleeps, advance: (ms: number) => { time += ms } }
+}
+
+class MapStore implements GeocodeCacheStore {
+  entries = new Map<string, CachedGeocode>()
+  async get(key: string) { return this.entries.get(key) }
+  async set(key: string, entry: CachedGeocode) { this.entries.set(key, entry) }
+}
+
+describe('geocoding-service', () => {
+  it('should normalize queries for the cache key', () => {
+    expect(normalizeGeocodeQuery('  Miami,Florida. ')).toBe('miami, florida')
+    expect(normalizeGeocodeQuery('Miami ,  FLORIDA')).toBe('miami, florida')
+  })
+
+  it('should map results to candidates and serve repeats from the cache', async () => {
+    const { service, fetcher } = createService()
+
+    const [candidate] = await service.search('Miami, Florida')
+    await service.search('miami,florida')
+
+    expect(candidate).toMatchObject({ name: 'Miami', importance: 0.78, placeRank: 16, placeType: 'city', population: 442241 })
+    expect(candidate.location).toMatchObject({ lat: 25.7617, lon: -80.1918, city: 'Miami', state: 'Florida' })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(fetcher.mock.calls[0][0]).toContain('q=miami%2C+florida')
+  })
+
+  it('should send structured queries as separate fields', async () => {
+    const { service, fetcher } = createService()
+
+    const [candidate] = await service.searchStructured({ city: 'Miami', state: 'Florida', country: 'United States', countryCode: 'US' })
+    await service.searchStructured({ city: 'miami', state: 'florida', country: 'United States' })
+
+    expect(candidate.location).toMatchObject({ city: 'Miami', state: 'Florida' })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    const params = new URL(fetcher.mock.calls[0][0]).searchParams
+    expect(params.get('q')).toBeNull()
+    expect(params.get('city')).toBe('miami')
+    expect(params.get('state')).toBe('florida')
+    expect(params.get('country')).toBe('united states')
+    expect(params.get('countrycodes')).toBe('us')
+  })
+
+  it('should keep place extents and drop outlines too long to search with', async () => {
+    const outlined = [
+      { ...MIAMI[0], boundingbox: ['25.70', '25.86', '-80.32', '-80.13'], geotext: 'POLYGON((-80.3 25.7,-80.1 25.7,-80.1 25.8,-80.3 25.7))' },
+      { ...MIAMI[0], name: 'Florida', geotext: `POLYGON((${'1 1,'.repeat(2000)}1 1))` },
+    ]
+    const store = new MapStore()
+    const fetcher = vi.fn(async (_url: string) => jsonResponse(outlined))
+    const { service } = createService({ fetcher, store })
+
+    const [city, state] = await service.search('Miami')
+
+    expect(fetcher.mock.calls[0][0]).toContain('polygon_text=1')
+    expect(city.location.boundingBox).toEqual({ south: 25.7, west: -80.32, north: 25.86, east: -80.13 })
+    expect(city.location.polygon).toMatch(/^POLYGON/)
+    expect(state.location.polygon).toBeUndefined()
+    expect(JSON.stringify([...store.entries.values()])).not.toContain('1 1,1 1')
+  })
+
+  it('should share one request between concurrent identical lookups', async () => {
+    const { service, fetcher } = createService()
+
+    const [first, second] = await Promise.all([service.geocode('Miami'), service.geocode('Miami')])
+
+    expect(first).toEqual(second)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('should space requests at least minIntervalMs apart', async () => {
+    const { service, fetcher, sleeps } = createService()
+
+    await Promise.all([service.geocode('Miami'), service.geocode('Tampa'), service.geocode('Orlando')])
+
+    expect(fetcher).toHaveBeenCalledTimes(3)
+    expect(sleeps).toEqual([1000, 1000])
+  })
+
+  it('should space requests from separate processes sharing the slot directory', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'geocode-slots-'))
+    let time = 1_000_000
+    const sleeps: number[] = []
+    const clock = { now: () => time, sleep: async (ms: number) => { sleeps.push(ms); time += ms } }
+
+    try {
+      // Two services with their own queues, as in the app and the MCP server
+      const app = createService({ ...clock, slots: new FileRequestSlotStore(directory) })
+      const mcp = createService({ ...clock, slots: new FileRequestSlotStore(directory) })
+
+      await app.service.geocode('Miami')
+      await mcp.service.geocode('Tampa')
+      await app.service.geocode('Orlando')
+
+      expect(sleeps).toEqual([1000, 1000])
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  it('should keep going after a failed request', async () => {
+    const fetcher = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(jsonResponse(MIAMI))
+    const { service } = createService({ fetcher })
+
+    await expect(service.geocode('Miami')).rejects.toThrow('offline')
+    expect((await service.geocode('Miami'))?.city).toBe('Miami')
+  })
+
+  it('should expire misses sooner than hits', async () => {
+    const fetcher = vi.fn(async (_url: string) => jsonResponse([]))
+    const { service, advance } = createService({ fetcher })
+
+    expect(await service.geocode('Nowhereville')).toBeNull()
+    await service.geocode('Nowhereville')
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    advance(1_001)
+    await service.geocode('Nowhereville')
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reuse entries from the persistent store', async () => {
+    const store = new MapStore()
+    await createService({ store }).service.geocode('Miami')
+
+    const { service, fetcher } = createService({ store })
+    expect((await service.geocode('Miami'))?.city).toBe('Miami')
+    expect(fetcher).not.toHaveBeenCalled()
+  })
+
+  it('should keep the given point when reverse geocoding', async () => {
+    const fetcher = vi.fn(async (_url: string) => jsonResponse({ display_name: 'Miami, Florida, United States', lat: '25.77', lon: '-80.19', address: { city: 'Miami', state: 'Florida', country: 'United States' } }))
+    const { service } = createService({ fetcher })
+
+    expect(await service.reverse(25.76, -80.191)).toMatchObject({ lat: 25.76, lon: -80.191, city: 'Miami' })
+  })
+
+  it('should return null for points with no named place', async () => {
+    const fetcher = vi.fn(async (_url: string) => jsonResponse({ error: 'Unable to geocode' }))
+    const { service } = createService({ fetcher })
+
+    expect(await service.reverse(0, -30)).toBeNull()
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest'
+import { InputClassifier, TaxonIndex, scoreInputLocally } from '../input-classifier'
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+// Fake proxy routes: iNaturalist knows the Florida panther, GBIF knows nothing
+function createFetcher() {
+  return vi.fn(async (url: string) => {
+    if (url.includes('/api/inat/taxa') && url.includes('florida%20panther')) {
+      return jsonResponse({
+        results: [{ name: 'Puma concolor coryi', preferred_common_name: 'Florida Panther', matched_term: 'Florida panther' }],
+      })
+    }
+    return jsonResponse({ results: [] })
+  })
+}
+
+function createClassifier(fetcher = createFetcher()) {
+  const taxonIndex = new TaxonIndex({ ttlMs: 60_000, maxEntries: 10, fetcher })
+  return { classifier: new InputClassifier(taxonIndex, 0.75, 0.2), fetcher }
+}
+
+describe('input-classifier', () => {
+  describe('scoreInputLocally', () => {
+    it('should score known places as locations', () => {
+      expect(scoreInputLocally('Miami, Florida').scores.location).toBeGreaterThanOrEqual(0.9)
+      expect(scoreInputLocally('Canada').scores.location).toBeGreaterThanOrEqual(0.9)
+      expect(scoreInputLocally('worldwide').scores.location).toBe(1)
+      expect(scoreInputLocally('25.76, -80.19').scores.location).toBe(1)
+      expect(scoreInputLocally('849VCWC8+R9').signals).toContain('coordinates')
+      expect(scoreInputLocally('Yellowstone').signals).toContain('gazetteer:protected-area:Yellowstone National Park')
+    })
+
+    it('should score listed animals and descriptive names as animals', () => {
+      expect(scoreInputLocally('otter').scores.animal).toBeGreaterThanOrEqual(0.9)
+      expect(scoreInputLocally('bald eagle').scores.animal).toBeGreaterThanOrEqual(0.8)
+      expect(scoreInputLocally('whales').scores.animal).toBeGreaterThanOrEqual(0.9)
+    })
+
+    it('should favour animals that refine the previous search', () => {
+      const { scores } = scoreInputLocally("Agassiz's Desert Tortoise", { previousAnimal: 'desert tortoise' })
+      expect(scores.animal).toBeGreaterThan(scores.location)
+    })
+  })
+
+  describe('InputClassifier', () => {
+    it('should classify clear inputs without network or LLM calls', async () => {
+      const { classifier, fetcher } = createClassifier()
+      const llm = vi.fn()
+
+      const location = await classifier.classify('Toronto, Canada', {}, llm)
+      const animal = await classifier.classify('red fox', {}, llm)
+
+      expect(location).toMatchObject({ kind: 'LOCATION', source: 'local' })
+      expect(animal).toMatchObject({ kind: 'ANIMAL', source: 'local' })
+      expect(fetcher).not.toHaveBeenCalled()
+      expect(llm).not.toHaveBeenCalled()
+    })
+
+    it('should resolve unknown animal names through the taxon index', async () => {
+      const { classifier } = createClassifier()
+      const llm = vi.fn()
+
+      const result = await classifier.classify('Florida panther', {}, llm)
+
+      expect(result.kind).toBe('ANIMAL')
+      expect(result.source).toBe('taxon-index')
+      expect(result.confidence).toBeGreaterThanOrEqual(0.75)
+      expect(llm).not.toHaveBeenCalled()
+    })
+
+    it('should only call the LLM when the input stays ambiguous', async () => {
+      const { classifier } = createClassifier()
+      const llm = vi.fn().mockResolvedValue('LOCATION')
+
+      const result = await classifier.classify('Springfield', {}, llm)
+
+      expect(llm).toHaveBeenCalledTimes(1)
+      expect(result).toMatchObject({ kind: 'LOCATION', source: 'llm' })
+    })
+
+    it('should fall back to the best local guess when the LLM fails', async () => {
+      const { classifier } = createClassifier()
+      const llm = vi.fn().mockRejectedValue(new Error('offline'))
+
+      const result = await classifier.classify('Springfield', {}, llm)
+
+      expect(result.kind).toBe('LOCATION')
+      expect(result.source).toBe('default')
+    })
+
+    it('should cache taxon lookups, including misses', async () => {
+      const { classifier, fetcher } = createClassifier()
+
+      await classifier.classify('Springfield')
+      await classifier.classify('Springfield')
+
+      // One iNaturalist and one GBIF request for the first call only
+      expect(fetcher).toHaveBeenCalledTimes(2)
+    })
+  })
+})
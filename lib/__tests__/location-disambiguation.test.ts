@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { assessAmbiguity, describeCandidate, distanceKm } from '../location-disambiguation'
+import type { GeocodeCandidate } from '../geocoding-service'
+
+function candidate(overrides: Partial<GeocodeCandidate> & { lat: number; lon: number; state?: string; country: string }): GeocodeCandidate {
+  const { lat, lon, state, country, ...rest } = overrides
+  return {
+    name: 'Paris',
+    importance: 0.5,
+    placeRank: 16,
+    placeType: 'city',
+    ...rest,
+    location: { lat, lon, state, country, displayName: [rest.name ?? 'Paris', state, country].filter(Boolean).join(', ') },
+  }
+}
+
+const parisFrance = candidate({ lat: 48.8566, lon: 2.3522, state: 'Ile-de-France', country: 'France', importance: 0.88, population: 2133111 })
+const parisTexas = candidate({ lat: 33.6609, lon: -95.5555, state: 'Texas', country: 'United States', importance: 0.56 })
+const parisArrondissement = candidate({ lat: 48.86, lon: 2.34, state: 'Ile-de-France', country: 'France', importance: 0.7, placeRank: 12, placeType: 'administrative' })
+const parisStreet = candidate({ lat: 40.7, lon: -74, state: 'New York', country: 'United States', importance: 0.8, placeRank: 26, placeType: 'road' })
+
+describe('location-disambiguation', () => {
+  it('should measure great-circle distance', () => {
+    expect(distanceKm(parisFrance.location, parisTexas.location)).toBeGreaterThan(7500)
+    expect(distanceKm(parisFrance.location, parisArrondissement.location)).toBeLessThan(5)
+  })
+
+  it('should prompt for comparably important places far apart', () => {
+    const assessment = assessAmbiguity([parisTexas, parisFrance])
+
+    expect(assessment.needsDisambiguation).toBe(true)
+    expect(assessment.best).toBe(parisFrance)
+    expect(assessment.options?.map(option => option.displayName)).toEqual([
+      'Paris, Ile-de-France, France',
+      'Paris, Texas, United States',
+    ])
+    expect(assessment.options?.[1].location).toBe(parisTexas.location)
+  })
+
+  it('should treat nearby results in one country as the same place', () => {
+    const assessment = assessAmbiguity([parisFrance, parisArrondissement])
+
+    expect(assessment.needsDisambiguation).toBe(false)
+    expect(assessment.best).toBe(parisFrance)
+  })
+
+  it('should ignore minor or street-level candidates', () => {
+    const minorParis = { ...parisTexas, importance: 0.3 }
+
+    expect(assessAmbiguity([parisFrance, minorParis, parisStreet]).needsDisambiguation).toBe(false)
+    expect(assessAmbiguity([])).toEqual({ needsDisambiguation: false })
+  })
+
+  it('should cap the number of options', () => {
+    const settings = { maxOptions: 1, minImportanceRatio: 0.5, minDistanceKm: 100, maxPlaceRank: 20 }
+
+    expect(assessAmbiguity([parisFrance, parisTexas], settings).options).toHaveLength(1)
+  })
+
+  it('should describe candidates from their place type, region and population', () => {
+    expect(describeCandidate(parisFrance)).toBe('City in Ile-de-France, France (population 2,133,111)')
+    expect(describeCandidate(parisArrondissement)).toBe('County or district in Ile-de-France, France')
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  basemapPaths,
+  clusterObservations,
+  fitViewport,
+  mappableObservations,
+  panViewport,
+  projectPoint,
+  unprojectPoint,
+  zoomViewport,
+} from '../observation-map'
+
+const size = { width: 320, height: 320 }
+const miami = { lat: 25.76, lon: -80.19 }
+
+describe('observation-map', () => {
+  it('should project points around the viewport center', () => {
+    const viewport = { center: miami, zoom: 9 }
+
+    expect(projectPoint(miami, viewport, size)).toEqual({ x: 160, y: 160 })
+    const east = projectPoint({ lat: 25.76, lon: -80 }, viewport, size)
+    expect(east.x).toBeGreaterThan(160)
+    expect(east.y).toBeCloseTo(160)
+
+    const back = unprojectPoint(east.x, east.y, viewport, size)
+    expect(back.lat).toBeCloseTo(25.76)
+    expect(back.lon).toBeCloseTo(-80)
+  })
+
+  it('should pan and zoom around an anchor point', () => {
+    const viewport = { center: miami, zoom: 9 }
+
+    const panned = panViewport(viewport, 100, 0)
+    expect(panned.center.lon).toBeLessThan(miami.lon)
+    expect(panned.zoom).toBe(9)
+
+    const anchor = { x: 40, y: 60 }
+    const fixed = unprojectPoint(anchor.x, anchor.y, viewport, size)
+    const zoomed = zoomViewport(viewport, 11, size, anchor)
+    const after = projectPoint(fixed, zoomed, size)
+    expect(after.x).toBeCloseTo(anchor.x)
+    expect(after.y).toBeCloseTo(anchor.y)
+    expect(zoomViewport(viewport, 30, size).zoom).toBe(13)
+  })
+
+  it('should fit the viewport to the observations', () => {
+    const nearby = [{ lat: 25.8, lng: -80.2 }, { lat: 25.7, lng: -80.1 }]
+    const wide = [...nearby, { lat: 26.7, lng: -80.0 }]
+
+    const close = fitViewport(miami, nearby, size)
+    const far = fitViewport(miami, wide, size)
+    expect(far.zoom).toBeLessThan(close.zoom)
+    expect(fitViewport(miami, [], size)).toEqual({ center: miami, zoom: 9 })
+  })
+
+  it('should cluster nearby observations and split them when zoomed in', () => {
+    const observations = [
+      { id: 'a', lat: 25.76, lng: -80.19 },
+      { id: 'b', lat: 25.761, lng: -80.191 },
+      { id: 'c', lat: 25.9, lng: -80.4 },
+    ]
+
+    const clustered = clusterObservations(observations, { center: miami, zoom: 9 }, size)
+    expect(clustered.map(cluster => cluster.observations.map(obs => obs.id)).sort()).toEqual([['a', 'b'], ['c']])
+
+    const zoomedIn = clusterObservations(observations, { center: miami, zoom: 17 }, size)
+    expect(zoomedIn).toHaveLength(3)
+  })
+
+  it('should drop observations without a real location', () => {
+    const observations = [{ lat: 0, lng: 0 }, { lat: Number.NaN, lng: 10 }, { lat: 25.76, lng: -80.19 }]
+    expect(mappableObservations(observations)).toEqual([{ lat: 25.76, lng: -80.19 }])
+  })
+
+  it('should draw only the base layer inside the viewport', () => {
+    const florida = basemapPaths({ center: miami, zoom: 6 }, size)
+    expect(florida.land.length).toBeGreaterThan(0)
+    expect(florida.land.length).toBeLessThan(10)
+    expect(florida.land[0]).toMatch(/^M-?\d/)
+
+    const openOcean = basemapPaths({ center: { lat: -45, lon: 90 }, zoom: 8 }, size)
+    expect(openOcean.land).toEqual([])
+    expect(openOcean.borders).toEqual([])
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import {
+  describeObservationPeriod,
+  extractObservationPeriod,
+  gbifPeriodParams,
+  inatPeriodParams,
+  monthRange,
+} from '../observation-period'
+
+describe('observation-period', () => {
+  it('should read seasons for the hemisphere of the location', () => {
+    expect(extractObservationPeriod('what can i see here in spring')).toEqual({ period: { months: [3, 4, 5] }, rest: 'what can i see here' })
+    expect(extractObservationPeriod('birds in spring', -33.9)?.period).toEqual({ months: [9, 10, 11] })
+    expect(extractObservationPeriod('during the winter', 45)?.period).toEqual({ months: [12, 1, 2] })
+  })
+
+  it('should read months, month ranges and date ranges', () => {
+    expect(extractObservationPeriod('in april')?.period).toEqual({ months: [4] })
+    expect(extractObservationPeriod('in april and june')?.period).toEqual({ months: [4, 6] })
+    expect(extractObservationPeriod('from november to february')?.period).toEqual({ months: [11, 12, 1, 2] })
+    expect(extractObservationPeriod('between 2025-04-15 and 2025-04-01')?.period).toEqual({ startDate: '2025-04-01', endDate: '2025-04-15' })
+    expect(monthRange(12, 2)).toEqual([12, 1, 2])
+  })
+
+  it('should leave text without a period alone', () => {
+    expect(extractObservationPeriod('what may i see here')).toBeUndefined()
+    expect(extractObservationPeriod('only birds')).toBeUndefined()
+    expect(extractObservationPeriod('from 2025-02-30 to 2025-03-10')).toBeUndefined()
+    expect(extractObservationPeriod('any time')).toEqual({ period: null, rest: '' })
+  })
+
+  it('should describe periods and map them to iNaturalist and GBIF parameters', () => {
+    expect(describeObservationPeriod({ months: [3, 4, 5] })).toBe('from March to May')
+    expect(describeObservationPeriod({ months: [4, 6] })).toBe('in April and June')
+    expect(inatPeriodParams({ months: [12, 1] })).toEqual({ month: '12,1' })
+    expect(inatPeriodParams({ startDate: '2025-04-01', endDate: '2025-04-15' })).toEqual({ d1: '2025-04-01', d2: '2025-04-15' })
+    expect(gbifPeriodParams({ months: [12, 1] })).toEqual([['month', '12'], ['month', '1']])
+    expect(gbifPeriodParams({ startDate: '2025-04-01', endDate: '2025-04-15' })).toEqual([['eventDate', '2025-04-01,2025-04-15']])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest'
+import { ObservationTrendService, describeObservationTrend, normalizeCounts, trendDirection } from '../observation-trends'
+import type { Location } from '../conservation-tools'
+
+const miami: Location = { lat: 25.76, lon: -80.19, city: 'Miami', state: 'Florida', country: 'United States', displayName: 'Miami, Florida, United States' }
+const settings = { years: 6, minYears: 5, minRecords: 20, stableChangePerYear: 0.05 }
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+// Survey effort doubles every year while species records stay flat: a falling share
+function createFetcher({ inatFails = false } = {}) {
+  return vi.fn(async (url: string) => {
+    const { pathname, searchParams } = new URL(url)
+    if (pathname === '/api/gbif/occurrence-facets') {
+      const forSpecies = searchParams.has('scientificName')
+      const counts = searchParams.get('facet') === 'year'
+        ? [2019, 2020, 2021, 2022, 2023, 2024].map((year, index) => ({ name: String(year), count: forSpecies ? 10 : 1000 * 2 ** index }))
+        : [{ name: '1', count: forSpecies ? 30 : 3000 }, { name: '7', count: forSpecies ? 0 : 5000 }]
+      return jsonResponse({ counts })
+    }
+    if (pathname === '/api/inat/histogram') {
+      if (inatFails) return new Response('error', { status: 500 })
+      const forSpecies = searchParams.has('taxon_name')
+      const counts = searchParams.get('interval') === 'year'
+        ? { '2023-01-01': forSpecies ? 5 : 500, '2024-01-01': forSpecies ? 5 : 1000 }
+        : { '1': forSpecies ? 10 : 100 }
+      return jsonResponse({ counts })
+    }
+    return new Response('not found', { status: 404 })
+  })
+}
+
+describe('observation-trends', () => {
+  it('should normalize counts by the observations in each period', () => {
+    const points = normalizeCounts(new Map([[2020, 5], [2021, 5]]), new Map([[2020, 1000], [2021, 0], [2022, 2000]]), [2020, 2021, 2022])
+
+    expect(points).toEqual([
+      { period: 2020, speciesCount: 5, totalCount: 1000, rate: 5 },
+      { period: 2022, speciesCount: 0, totalCount: 2000, rate: 0 },
+    ])
+  })
+
+  it('should classify the direction of the yearly rates', () => {
+    const series = (rates: number[]) => rates.map((rate, index) => ({ period: 2018 + index, speciesCount: 10, totalCount: 1000, rate }))
+
+    expect(trendDirection(series([10, 8, 6, 4, 2]), settings)).toMatchObject({ direction: 'decreasing' })
+    expect(trendDirection(series([2, 4, 6, 8, 10]), settings)).toMatchObject({ direction: 'increasing' })
+    expect(trendDirection(series([5, 5.1, 4.9, 5, 5]), settings)).toMatchObject({ direction: 'stable' })
+    expect(trendDirection(series([10, 8, 6]), settings)).toEqual({ direction: 'insufficient-data' })
+  })
+
+  it('should combine GBIF and iNaturalist counts for the last full years', async () => {
+    const fetcher = createFetcher()
+    const service = new ObservationTrendService({ fetcher, settings, now: () => new Date('2025-06-01') })
+
+    const trend = await service.getTrend({ commonName: 'Florida Panther', scientificName: 'Puma concolor coryi' }, miami)
+
+    expect(trend.sources).toEqual(['GBIF', 'iNaturalist'])
+    expect(trend.yearly.map(point => point.period)).toEqual([2019, 2020, 2021, 2022, 2023, 2024])
+    expect(trend.yearly[5]).toEqual({ period: 2024, speciesCount: 15, totalCount: 33000, rate: 15 / 33000 * 1000 })
+    expect(trend.monthly).toEqual([
+      { period: 1, speciesCount: 40, totalCount: 3100, rate: 40 / 3100 * 1000 },
+      { period: 7, speciesCount: 0, totalCount: 5000, rate: 0 },
+    ])
+    expect(trend.direction).toBe('decreasing')
+
+    const gbifCall = new URL(fetcher.mock.calls[0][0])
+    expect(gbifCall.searchParams.get('year')).toBe('2019,2024')
+    expect(gbifCall.searchParams.get('geometry')).toMatch(/^POLYGON/)
+    expect(describeObservationTrend(trend)).toContain('decreasing')
+  })
+
+  it('should leave out a failing source and skip GBIF without a scientific name', async () => {
+    const fetcher = createFetcher({ inatFails: true })
+    const service = new ObservationTrendService({ fetcher, settings, now: () => new Date('2025-06-01') })
+
+    expect((await service.getTrend({ commonName: 'Florida Panther', scientificName: 'Puma concolor coryi' }, miami)).sources).toEqual(['GBIF'])
+
+    const unnamed = await service.getTrend({ commonName: 'Florida Panther', scientificName: 'Unknown' }, miami)
+    expect(unnamed.sources).toEqual([])
+    expect(unnamed.direction).toBe('insufficient-data')
+    expect(describeObservationTrend(unnamed)).toBe('No Florida Panther observation counts were found near Miami.')
+  })
+})
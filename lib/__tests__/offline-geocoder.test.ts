@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { OfflineGeocoder } from '../offline-geocoder'
+
+describe('offline-geocoder', () => {
+  const geocoder = new OfflineGeocoder()
+
+  it('should find cities with their bounding boxes', async () => {
+    const [miami] = await geocoder.search('Miami')
+
+    expect(miami.location).toMatchObject({ city: 'Miami', state: 'Florida', country: 'United States', displayName: 'Miami, Florida, United States' })
+    expect(miami.location.boundingBox!.south).toBeLessThan(miami.location.lat)
+    expect(miami).toMatchObject({ placeRank: 16, placeType: 'city' })
+  })
+
+  it('should match aliases, accents and qualifiers', async () => {
+    expect((await geocoder.search('UK'))[0].name).toBe('United Kingdom')
+    expect((await geocoder.search('São Paulo'))[0].location.country).toBe('Brazil')
+    expect(await geocoder.search('Portland, Oregon')).toHaveLength(1)
+    expect(await geocoder.search('Portland, USA')).toHaveLength(1)
+    expect(await geocoder.search('Portland, Canada')).toEqual([])
+  })
+
+  it('should return every place sharing a name, most prominent first', async () => {
+    const georgias = await geocoder.search('Georgia')
+
+    expect(georgias.map(candidate => candidate.location.displayName)).toEqual(['Georgia', 'Georgia, United States'])
+  })
+
+  it('should reverse geocode to the most specific place', async () => {
+    expect(await geocoder.reverse(25.77, -80.2)).toMatchObject({ lat: 25.77, lon: -80.2, city: 'Miami', state: 'Florida', country: 'United States' })
+    expect(await geocoder.reverse(31, -100)).toMatchObject({ city: undefined, state: 'Texas', country: 'United States' })
+    expect(await geocoder.reverse(-17.8, -179)).toMatchObject({ country: 'Fiji' })
+    expect(await geocoder.reverse(-40, -30)).toBeNull()
+  })
+})
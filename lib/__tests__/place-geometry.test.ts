@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  boundingBoxToWkt,
+  orientWktPolygon,
+  parseBoundingBox,
+  searchBoundingBox,
+  toGbifGeometry,
+  toInatBounds,
+} from '../place-geometry'
+import type { Location } from '../conservation-tools'
+
+const settings = { fallbackRadiusKm: { city: 50, region: 500 }, minExtentKm: 10, maxPolygonLength: 200 }
+
+const miami: Location = {
+  lat: 25.7617,
+  lon: -80.1918,
+  city: 'Miami',
+  displayName: 'Miami, Florida, United States',
+  boundingBox: { south: 25.7, west: -80.32, north: 25.86, east: -80.13 },
+}
+
+describe('place-geometry', () => {
+  it('should parse Nominatim bounding boxes', () => {
+    expect(parseBoundingBox(['25.7', '25.86', '-80.32', '-80.13'])).toEqual(miami.boundingBox)
+    expect(parseBoundingBox(['25.7', 'north'])).toBeUndefined()
+    expect(parseBoundingBox(undefined)).toBeUndefined()
+  })
+
+  it('should search the place extent instead of a fixed radius', () => {
+    expect(searchBoundingBox(miami, settings)).toEqual(miami.boundingBox)
+
+    const countryWide: Location = { lat: 39.8, lon: -98.6, country: 'United States', displayName: 'United States' }
+    const box = searchBoundingBox(countryWide, settings)
+    expect(box.north - box.south).toBeCloseTo(1000 / 111.32, 2)
+  })
+
+  it('should widen tiny places to the minimum extent', () => {
+    const village: Location = { ...miami, boundingBox: { south: 25.76, west: -80.2, north: 25.761, east: -80.199 } }
+    const box = searchBoundingBox(village, settings)
+
+    expect(box.north - box.south).toBeCloseTo(10 / 111.32, 3)
+    expect(box.south).toBeLessThan(25.76)
+  })
+
+  it('should keep the larger side of boxes across the antimeridian for iNaturalist', () => {
+    expect(toInatBounds({ south: -21, west: 178, north: -12, east: -175 })).toEqual({ swlat: -21, swlng: -180, nelat: -12, nelng: -175 })
+    expect(toInatBounds({ south: 50, west: 170, north: 60, east: -179 })).toEqual({ swlat: 50, swlng: 170, nelat: 60, nelng: 180 })
+  })
+
+  it('should write counter-clockwise WKT for boxes', () => {
+    expect(boundingBoxToWkt({ south: 1, west: 2, north: 3, east: 4 })).toBe('POLYGON((2 1,4 1,4 3,2 3,2 1))')
+    expect(boundingBoxToWkt({ south: -21, west: 176, north: -12, east: -178 })).toMatch(/^MULTIPOLYGON\(\(\(176 -21,180 -21/)
+  })
+
+  it('should orient outer rings counter-clockwise and holes clockwise', () => {
+    const clockwise = 'POLYGON((0 0,0 10,10 10,10 0,0 0),(2 2,4 2,4 4,2 4,2 2))'
+
+    expect(orientWktPolygon(clockwise)).toBe('POLYGON((0 0,10 0,10 10,0 10,0 0),(2 2,2 4,4 4,4 2,2 2))')
+    expect(orientWktPolygon('MULTIPOLYGON(((0 0,1 0,1 1,0 0)),((5 5,5 6,6 6,5 5)))')).toBe('MULTIPOLYGON(((0 0,1 0,1 1,0 0)),((5 5,6 6,5 6,5 5)))')
+    expect(orientWktPolygon('POINT(1 2)')).toBeUndefined()
+  })
+
+  it('should prefer the place outline for GBIF and fall back to the box', () => {
+    const outlined = { ...miami, polygon: 'POLYGON((-80.3 25.7,-80.3 25.8,-80.1 25.8,-80.3 25.7))' }
+
+    expect(toGbifGeometry(outlined, settings)).toBe('POLYGON((-80.3 25.7,-80.1 25.8,-80.3 25.8,-80.3 25.7))')
+    expect(toGbifGeometry({ ...outlined, polygon: `POLYGON((${'1 1,'.repeat(60)}1 1))` }, settings)).toBe(boundingBoxToWkt(miami.boundingBox!))
+  })
+
+  it('should search the same widened box on GBIF as on iNaturalist for tiny places', () => {
+    const village: Location = {
+      ...miami,
+      boundingBox: { south: 25.76, west: -80.2, north: 25.761, east: -80.199 },
+      polygon: 'POLYGON((-80.2 25.76,-80.199 25.76,-80.199 25.761,-80.2 25.76))',
+    }
+
+    expect(toGbifGeometry(village, settings)).toBe(boundingBoxToWkt(searchBoundingBox(village, settings)))
+    // A park is searched exactly, however small
+    const park = { ...village, namedArea: { name: 'Tiny Park', kind: 'protected-area' as const } }
+    expect(toGbifGeometry(park, settings)).toBe(village.polygon)
+  })
+})
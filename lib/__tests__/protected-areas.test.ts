@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { findSubdivisionByCode } from '../country-registry'
+import { findProtectedArea, listProtectedAreas, namedAreaFromCandidate, protectedAreaLocation } from '../protected-areas'
+import { searchBoundingBox } from '../place-geometry'
+
+describe('protected-areas', () => {
+  it('should find areas by name, alias or another designation', () => {
+    expect(findProtectedArea('Yellowstone')?.name).toBe('Yellowstone National Park')
+    expect(findProtectedArea('Kruger park')?.name).toBe('Kruger National Park')
+    expect(findProtectedArea('Masai Mara')?.name).toBe('Maasai Mara National Reserve')
+    expect(findProtectedArea('Doñana National Park')?.name).toBe('Doñana National Park')
+  })
+
+  it('should not match bare words by their core name', () => {
+    expect(findProtectedArea('Glacier')).toBeUndefined()
+    expect(findProtectedArea('Glacier park')?.name).toBe('Glacier National Park')
+    expect(findProtectedArea('Central Park')).toBeUndefined()
+  })
+
+  it('should build a location bounded by the area', () => {
+    const location = protectedAreaLocation(findProtectedArea('Yellowstone')!)
+
+    expect(location).toMatchObject({
+      state: 'Wyoming',
+      country: 'United States',
+      countryCode: 'US',
+      displayName: 'Yellowstone National Park, Wyoming, United States',
+      namedArea: { name: 'Yellowstone National Park', kind: 'protected-area', managingAuthority: 'National Park Service' }
+    })
+    expect(location.boundingBox).toEqual({ south: 44.13, west: -111.16, north: 45.11, east: -109.83 })
+  })
+
+  it('should search small areas without widening them', () => {
+    const monteverde = protectedAreaLocation(findProtectedArea('Monteverde')!)
+
+    expect(searchBoundingBox(monteverde)).toEqual(monteverde.boundingBox)
+    expect(searchBoundingBox({ ...monteverde, namedArea: undefined }).north).toBeGreaterThan(monteverde.boundingBox!.north)
+  })
+
+  it('should recognise protected areas and natural features among geocoder results', () => {
+    const candidate = { location: { lat: 0, lon: 0, displayName: 'x' }, name: 'Hluhluwe', importance: 0.5, placeRank: 12 }
+
+    expect(namedAreaFromCandidate({ ...candidate, placeType: 'national_park' })).toEqual({ name: 'Hluhluwe', kind: 'protected-area', designation: 'National Park' })
+    expect(namedAreaFromCandidate({ ...candidate, placeType: 'wetland' })?.kind).toBe('natural-feature')
+    expect(namedAreaFromCandidate({ ...candidate, placeType: 'city' })).toBeUndefined()
+  })
+
+  it('should only reference known countries and subdivisions', () => {
+    for (const area of listProtectedAreas()) {
+      expect(protectedAreaLocation(area).countryCode, area.name).toBeDefined()
+      if (area.subdivision) expect(findSubdivisionByCode(area.subdivision), area.subdivision).toBeDefined()
+    }
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest'
+import { RandomSpeciesService, parseRandomSpeciesFilters, describeRandomSpeciesFilters } from '../random-species'
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } })
+}
+
+// Fake GBIF proxy: one endangered bird in South America, recorded mostly in Brazil
+function createFetcher(speciesCounts = [{ name: '2480528', count: 1200 }]) {
+  return vi.fn(async (url: string) => {
+    const { pathname, searchParams } = new URL(url)
+    if (pathname === '/api/gbif/occurrence-facets' && searchParams.get('facet') === 'speciesKey') {
+      return jsonResponse({ facet: 'speciesKey', counts: speciesCounts })
+    }
+    if (pathname === '/api/gbif/occurrence-facets' && searchParams.get('facet') === 'country') {
+      return jsonResponse({ facet: 'country', counts: [{ name: 'BR', count: 900 }, { name: 'AR', count: 300 }] })
+    }
+    if (pathname === '/api/gbif/species') {
+      return jsonResponse({ canonicalName: 'Anodorhynchus hyacinthinus', scientificName: 'Anodorhynchus hyacinthinus (Latham, 1790)', vernacularName: 'Hyacinth Macaw' })
+    }
+    return new Response('not found', { status: 404 })
+  })
+}
+
+describe('random-species', () => {
+  describe('parseRandomSpeciesFilters', () => {
+    it('should read class and region filters from the request', () => {
+      expect(parseRandomSpeciesFilters('Surprise me with a bird in South America')).toEqual({ taxonClass: 'bird', region: 'SOUTH_AMERICA' })
+      expect(parseRandomSpeciesFilters('surprise me with frogs')).toEqual({ taxonClass: 'amphibian' })
+      expect(parseRandomSpeciesFilters('Surprise me with a random animal')).toEqual({})
+    })
+
+    it('should describe the filters for messages', () => {
+      expect(describeRandomSpeciesFilters({ taxonClass: 'bird', region: 'SOUTH_AMERICA' })).toBe('bird in South America')
+      expect(describeRandomSpeciesFilters({})).toBe('animal')
+    })
+  })
+
+  describe('RandomSpeciesService', () => {
+    it('should pick a threatened species with its real status and top country', async () => {
+      const fetcher = createFetcher()
+      const service = new RandomSpeciesService({ fetcher, random: () => 0 })
+
+      const pick = await service.pick({ taxonClass: 'bird', region: 'SOUTH_AMERICA' })
+
+      expect(pick).toMatchObject({
+        species: { commonName: 'Hyacinth Macaw', scientificName: 'Anodorhynchus hyacinthinus', conservationStatus: 'Critically Endangered' },
+        category: 'CR',
+        taxonClass: 'bird',
+        region: 'SOUTH_AMERICA',
+        countryCode: 'BR',
+        countryName: 'Brazil',
+        occurrenceCount: 900,
+      })
+
+      const facetUrl = new URL(fetcher.mock.calls[0][0])
+      expect(facetUrl.searchParams.get('classKey')).toBe('212')
+      expect(facetUrl.searchParams.get('continent')).toBe('SOUTH_AMERICA')
+      expect(facetUrl.searchParams.get('iucnRedListCategory')).toBe('CR')
+    })
+
+    it('should weight the class and region when no filters are given', async () => {
+      const fetcher = createFetcher()
+      // Just below the end of the weight range selects the last entry of each table
+      const service = new RandomSpeciesService({ fetcher, random: () => 0.999 })
+
+      const pick = await service.pick()
+
+      expect(pick).toMatchObject({ taxonClass: 'insect', region: 'OCEANIA', category: 'VU' })
+    })
+
+    it('should return null when no species match after every attempt', async () => {
+      const fetcher = createFetcher([])
+      const service = new RandomSpeciesService({ fetcher, random: () => 0.5 })
+
+      expect(await service.pick({ taxonClass: 'shark', region: 'EUROPE' })).toBeNull()
+      expect(fetcher).toHaveBeenCalledTimes(4)
+    })
+  })
+})
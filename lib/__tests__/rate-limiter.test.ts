@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { RateLimiter, enforceRateLimit, getClientIp, internalRequestHeaders, resolveInternalSecret } from '../rate-limiter'
+import { CONFIG } from '../config'
+
+const limits = { capacity: 2, refillPerMinute: 6 }
+
+function createLimiter(maxTrackedKeys = 100) {
+  let time = 0
+  const limiter = new RateLimiter({ maxTrackedKeys, now: () => time })
+  return { limiter, advance: (ms: number) => { time += ms } }
+}
+
+function request(headers: Record<string, string> = {}) {
+  return new Request('http://localhost/api/gbif/search', { headers })
+}
+
+describe('rate-limiter', () => {
+  it('should allow a burst up to capacity and then compute Retry-After', () => {
+    const { limiter } = createLimiter()
+
+    expect(limiter.consume(['ip:a'], limits).allowed).toBe(true)
+    expect(limiter.consume(['ip:a'], limits)).toEqual({ allowed: true, retryAfterSeconds: 0, remaining: 0 })
+
+    const blocked = limiter.consume(['ip:a'], limits)
+    expect(blocked.allowed).toBe(false)
+    // 6 tokens per minute = one token every 10 seconds
+    expect(blocked.retryAfterSeconds).toBe(10)
+  })
+
+  it('should refill tokens over time', () => {
+    const { limiter, advance } = createLimiter()
+    limiter.consume(['ip:a'], limits)
+    limiter.consume(['ip:a'], limits)
+
+    advance(4_000)
+    expect(limiter.consume(['ip:a'], limits).retryAfterSeconds).toBe(6)
+
+    advance(6_000)
+    expect(limiter.consume(['ip:a'], limits).allowed).toBe(true)
+  })
+
+  it('should spend nothing when any bucket is empty', () => {
+    const { limiter } = createLimiter()
+    limiter.consume(['ip:a', 'session:1'], limits)
+    limiter.consume(['ip:a', 'session:1'], limits)
+
+    // A new session from the same IP is still blocked by the IP bucket
+    expect(limiter.consume(['ip:a', 'session:2'], limits).allowed).toBe(false)
+    // ...and the blocked request did not drain the new session's bucket
+    expect(limiter.consume(['ip:b', 'session:2'], limits).remaining).toBe(1)
+  })
+
+  it('should forget the least recently used keys', () => {
+    const { limiter } = createLimiter(1)
+    limiter.consume(['ip:a'], limits)
+    limiter.consume(['ip:a'], limits)
+    limiter.consume(['ip:b'], limits)
+
+    expect(limiter.consume(['ip:a'], limits).allowed).toBe(true)
+  })
+
+  it('should read the client IP from the hop added by the trusted proxy', () => {
+    // The client sent "203.0.113.7"; the proxy appended the address it saw
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7, 198.51.100.9' }), 1)).toBe('198.51.100.9')
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7, 198.51.100.9, 10.0.0.1' }), 2)).toBe('198.51.100.9')
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.7' }), 0)).toBe('unknown')
+    expect(getClientIp(request({ 'x-real-ip': '198.51.100.2' }), 1)).toBe('198.51.100.2')
+    expect(getClientIp(request(), 1)).toBe('unknown')
+  })
+
+  it('should ignore headers only a trusted platform or proxy can set', () => {
+    const headers = { 'x-vercel-forwarded-for': '192.0.2.5', 'x-forwarded-for': '203.0.113.7, 198.51.100.9' }
+    expect(getClientIp(request(headers), 1, true)).toBe('192.0.2.5')
+    // Off Vercel the header is just something the client sent
+    expect(getClientIp(request(headers), 1, false)).toBe('198.51.100.9')
+    expect(getClientIp(request({ 'x-real-ip': '198.51.100.2' }), 0, false)).toBe('unknown')
+  })
+
+  it('should not let a forged first hop escape the limit', () => {
+    const { capacity } = CONFIG.rateLimit.routes.proxy
+
+    for (let i = 0; i < capacity; i++) {
+      expect(enforceRateLimit(request({ 'x-forwarded-for': `203.0.113.${i}, 192.0.2.77` }), 'proxy')).toBeNull()
+    }
+    expect(enforceRateLimit(request({ 'x-forwarded-for': '203.0.113.250, 192.0.2.77' }), 'proxy')?.status).toBe(429)
+  })
+
+  it('should return a 429 once a client exceeds the route limit', async () => {
+    const headers = { 'x-forwarded-for': '192.0.2.99' }
+    const { capacity } = CONFIG.rateLimit.routes.proxy
+
+    for (let i = 0; i < capacity; i++) {
+      expect(enforceRateLimit(request(headers), 'proxy')).toBeNull()
+    }
+
+    const response = enforceRateLimit(request(headers), 'proxy')
+    expect(response?.status).toBe(429)
+    expect(Number(response?.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect((await response?.json()).error).toBe('Too many requests')
+  })
+
+  it('should limit a session on its own and every session from an IP together', () => {
+    const { capacity } = CONFIG.rateLimit.routes.chat
+    const from = (ip: string) => request({ 'x-forwarded-for': ip })
+
+    // One session hopping between addresses is still limited by its session bucket
+    for (let i = 0; i < capacity; i++) {
+      expect(enforceRateLimit(from(`198.51.100.${i}`), 'chat', 'session-1')).toBeNull()
+    }
+    expect(enforceRateLimit(from('198.51.100.200'), 'chat', 'session-1')?.status).toBe(429)
+
+    // Rotating session IDs from one address runs into the IP bucket
+    for (let i = 0; i < capacity; i++) {
+      expect(enforceRateLimit(from('192.0.2.200'), 'chat', `rotating-${i}`)).toBeNull()
+    }
+    expect(enforceRateLimit(from('192.0.2.200'), 'chat', 'rotating-new')?.status).toBe(429)
+  })
+
+  it('should require a shared internal secret in production', () => {
+    expect(resolveInternalSecret('shared', true)).toBe('shared')
+    expect(() => resolveInternalSecret('', true)).toThrow('INTERNAL_API_SECRET')
+    expect(resolveInternalSecret('', false)).toMatch(/^[0-9a-f-]{36}$/)
+  })
+
+  it('should not limit the app\'s own internal requests', () => {
+    const headers = { 'x-forwarded-for': '192.0.2.100', ...internalRequestHeaders() }
+    const { capacity } = CONFIG.rateLimit.routes.proxy
+
+    for (let i = 0; i <= capacity; i++) {
+      expect(enforceRateLimit(request(headers), 'proxy')).toBeNull()
+    }
+  })
+})
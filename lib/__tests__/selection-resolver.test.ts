@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { parseOrdinal, resolveSelection, editDistance, normalizeSelectionText } from '../selection-resolver'
+
+const animals = ['Florida Panther', 'West Indian Manatee', 'Gray Bat', 'Long-tailed Macaque']
+const byName = (name: string) => [name]
+
+describe('selection-resolver', () => {
+  describe('parseOrdinal', () => {
+    it('should parse numbers, ordinals and positions from the end', () => {
+      expect(parseOrdinal('2', 4)).toBe(1)
+      expect(parseOrdinal('#3', 4)).toBe(2)
+      expect(parseOrdinal('number 1.', 4)).toBe(0)
+      expect(parseOrdinal('the second one', 4)).toBe(1)
+      expect(parseOrdinal('3rd', 4)).toBe(2)
+      expect(parseOrdinal("I'll take the fourth", 4)).toBe(3)
+      expect(parseOrdinal('the last one', 4)).toBe(3)
+      expect(parseOrdinal('second to last', 4)).toBe(2)
+    })
+
+    it('should ignore positions outside the list and non-ordinal text', () => {
+      expect(parseOrdinal('5', 4)).toBeUndefined()
+      expect(parseOrdinal('0', 4)).toBeUndefined()
+      expect(parseOrdinal('last', 0)).toBeUndefined()
+      expect(parseOrdinal('panther', 4)).toBeUndefined()
+      expect(parseOrdinal('no', 4)).toBeUndefined()
+    })
+  })
+
+  describe('resolveSelection', () => {
+    it('should report how each selection was matched', () => {
+      expect(resolveSelection('the last one', animals, byName)).toMatchObject({ index: 3, matchedBy: 'ordinal' })
+      expect(resolveSelection('west indian manatee', animals, byName)).toMatchObject({ index: 1, matchedBy: 'exact' })
+      expect(resolveSelection('macaque', animals, byName)).toMatchObject({ index: 3, matchedBy: 'partial' })
+      expect(resolveSelection('florida panter', animals, byName)).toMatchObject({ index: 0, matchedBy: 'fuzzy' })
+    })
+
+    it('should treat synonyms, accents and status suffixes as equal', () => {
+      expect(resolveSelection('Grey Bat (Vulnerable)', animals, byName)).toMatchObject({ index: 2, matchedBy: 'exact' })
+      expect(normalizeSelectionText('São Tomé')).toBe('sao tome')
+      expect(normalizeSelectionText('St. Louis, USA')).toBe('saint louis united states')
+    })
+
+    it('should only number the listed items', () => {
+      expect(resolveSelection('4', animals, byName, { listedCount: 3 })).toBeUndefined()
+      expect(resolveSelection('the last one', animals, byName, { listedCount: 3 })).toMatchObject({ index: 2 })
+    })
+
+    it('should reject ambiguous typos instead of guessing', () => {
+      expect(resolveSelection('gray bar', ['Gray Bat', 'Gray Bay'], byName)).toBeUndefined()
+    })
+
+    it('should return undefined when nothing is close', () => {
+      expect(resolveSelection('giraffe', animals, byName)).toBeUndefined()
+    })
+  })
+
+  it('should compute edit distance', () => {
+    expect(editDistance('kitten', 'sitting')).toBe(3)
+    expect(editDistance('', 'abc')).toBe(3)
+    expect(editDistance('same', 'same')).toBe(0)
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  MemorySessionStore,
+  FileSessionStore,
+  SessionTooLargeError,
+  type SessionStoreOptions,
+} from '../session-store'
+
+function createClock(start = 1_000_000) {
+  let current = start
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms
+    },
+  }
+}
+
+describe('session-store', () => {
+  describe('MemorySessionStore', () => {
+    it('should round-trip a session without sharing references', async () => {
+      const store = new MemorySessionStore({ ttlMs: 1000, maxEntries: 10, maxSessionBytes: 10_000 })
+      const session = { step: 'location' as const, mode: 'location-first' as const }
+
+      await store.set('a', session)
+      const loaded = await store.get('a')
+
+      expect(loaded).toEqual(session)
+      expect(loaded).not.toBe(session)
+    })
+
+    it('should expire sessions after the TTL', async () => {
+      const clock = createClock()
+      const store = new MemorySessionStore({ ttlMs: 1000, maxEntries: 10, maxSessionBytes: 10_000, now: clock.now })
+
+      await store.set('a', { step: 'initial' })
+      clock.advance(999)
+      expect(await store.get('a')).toBeDefined()
+
+      clock.advance(1)
+      expect(await store.get('a')).toBeUndefined()
+    })
+
+    it('should evict the least recently used session when full', async () => {
+      const store = new MemorySessionStore({ ttlMs: 1000, maxEntries: 2, maxSessionBytes: 10_000 })
+
+      await store.set('a', { step: 'initial' })
+      await store.set('b', { step: 'initial' })
+      await store.get('a')
+      await store.set('c', { step: 'initial' })
+
+      expect(store.size).toBe(2)
+      expect(await store.get('a')).toBeDefined()
+      expect(await store.get('b')).toBeUndefined()
+      expect(await store.get('c')).toBeDefined()
+    })
+
+    it('should reject sessions over the size cap', async () => {
+      const store = new MemorySessionStore({ ttlMs: 1000, maxEntries: 10, maxSessionBytes: 50 })
+
+      await expect(
+        store.set('a', { step: 'animal', species: [{ id: '1', commonName: 'A'.repeat(100), scientificName: 'x', conservationStatus: 'LC' }] })
+      ).rejects.toThrow(SessionTooLargeError)
+    })
+  })
+
+  describe('FileSessionStore', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true })
+    })
+
+    it('should persist sessions across store instances', async () => {
+      const options: SessionStoreOptions = { ttlMs: 1000, maxEntries: 10, maxSessionBytes: 10_000 }
+      await new FileSessionStore(directory, options).set('session/../1', { step: 'animal', mode: 'location-first' })
+
+      const loaded = await new FileSessionStore(directory, options).get('session/../1')
+
+      expect(loaded).toEqual({ step: 'animal', mode: 'location-first' })
+    })
+
+    it('should expire and delete sessions after the TTL', async () => {
+      const clock = createClock()
+      const store = new FileSessionStore(directory, { ttlMs: 1000, maxEntries: 10, maxSessionBytes: 10_000, now: clock.now })
+
+      await store.set('a', { step: 'initial' })
+      clock.advance(1000)
+
+      expect(await store.get('a')).toBeUndefined()
+      expect(await fs.readdir(directory)).toHaveLength(0)
+    })
+
+    it('should sweep expired sessions on a later write', async () => {
+      const clock = createClock()
+      const store = new FileSessionStore(directory, { ttlMs: 1000, maxEntries: 10, maxSessionBytes: 10_000, now: clock.now })
+
+      await store.set('a', { step: 'initial' })
+      await store.set('b', { step: 'initial' })
+      clock.advance(60_000)
+      await store.set('c', { step: 'initial' })
+
+      // Only "c" is left, without "a" or "b" ever being read again
+      expect(await fs.readdir(directory)).toHaveLength(1)
+      expect(await store.get('c')).toBeDefined()
+    })
+
+    it('should not share temp files between concurrent writes of one session', async () => {
+      const store = new FileSessionStore(directory, { ttlMs: 60_000, maxEntries: 10, maxSessionBytes: 10_000 })
+
+      await Promise.all([
+        store.set('a', { step: 'initial' }),
+        store.set('a', { step: 'location' }),
+        store.set('a', { step: 'animal' }),
+      ])
+
+      expect(await fs.readdir(directory)).toHaveLength(1)
+      expect(await store.get('a')).toBeDefined()
+    })
+
+    it('should prune the oldest sessions beyond maxEntries', async () => {
+      const store = new FileSessionStore(directory, { ttlMs: 60_000, maxEntries: 2, maxSessionBytes: 10_000 })
+
+      await store.set('a', { step: 'initial' })
+      await new Promise(resolve => setTimeout(resolve, 20))
+      await store.set('b', { step: 'initial' })
+      await new Promise(resolve => setTimeout(resolve, 20))
+      await store.set('c', { step: 'initial' })
+
+      expect(await fs.readdir(directory)).toHaveLength(2)
+      expect(await store.get('a')).toBeUndefined()
+      expect(await store.get('c')).toBeDefined()
+    })
+  })
+})
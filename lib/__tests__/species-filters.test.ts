@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  decodeSpeciesCursor,
+  describeSpeciesFilters,
+  gbifEstablishmentMeans,
+  gbifTaxonKeys,
+  iconicTaxaForSearch,
+  inatEstablishmentParams,
+  inatEstablishmentStatus,
+  isMoreSpeciesRequest,
+  matchesEstablishmentFilter,
+  mergeSpeciesPages,
+  nextSpeciesCursor,
+  parseSpeciesFilters,
+} from '../species-filters'
+import type { Species } from '../conservation-tools'
+
+describe('species-filters', () => {
+  it('should read taxon groups and Red List statuses from filter requests', () => {
+    expect(parseSpeciesFilters('only birds')).toEqual({ taxonGroups: ['bird'] })
+    expect(parseSpeciesFilters('show me threatened mammals and reptiles')).toEqual({ taxonGroups: ['mammal', 'reptile'], redListCategories: ['CR', 'EN', 'VU'] })
+    expect(parseSpeciesFilters('critically endangered species')).toEqual({ redListCategories: ['CR'] })
+  })
+
+  it('should build on the current filters', () => {
+    expect(parseSpeciesFilters('include fish')).toEqual({ taxonGroups: ['mammal', 'bird', 'reptile', 'amphibian', 'fish'] })
+    expect(parseSpeciesFilters('include insects', { taxonGroups: ['bird'] })).toEqual({ taxonGroups: ['bird', 'insect'] })
+    expect(parseSpeciesFilters('endangered', { taxonGroups: ['bird'] })).toEqual({ taxonGroups: ['bird'], redListCategories: ['CR', 'EN'] })
+    expect(parseSpeciesFilters('all species', { taxonGroups: ['bird'], redListCategories: ['CR'] })).toEqual({})
+  })
+
+  it('should read observation periods alongside the other filters', () => {
+    expect(parseSpeciesFilters('what can I see here in spring?', {}, { lat: 25.8 })).toEqual({ period: { months: [3, 4, 5] } })
+    expect(parseSpeciesFilters('birds in spring', {}, { lat: -33.9 })).toEqual({ taxonGroups: ['bird'], period: { months: [9, 10, 11] } })
+    expect(parseSpeciesFilters('only mammals', { period: { months: [4] } })).toEqual({ taxonGroups: ['mammal'], period: { months: [4] } })
+    expect(parseSpeciesFilters('any time', { taxonGroups: ['bird'], period: { months: [4] } })).toEqual({ taxonGroups: ['bird'] })
+    expect(describeSpeciesFilters({ taxonGroups: ['bird'], period: { months: [4] } })).toBe('birds in April')
+  })
+
+  it('should read introduced and invasive species requests', () => {
+    expect(parseSpeciesFilters('invasive species')).toEqual({ nonNative: true })
+    expect(parseSpeciesFilters('only introduced birds')).toEqual({ taxonGroups: ['bird'], nonNative: true })
+    expect(parseSpeciesFilters('only mammals', { nonNative: true })).toEqual({ taxonGroups: ['mammal'], nonNative: true })
+    expect(parseSpeciesFilters('all species', { nonNative: true })).toEqual({})
+    expect(describeSpeciesFilters({ taxonGroups: ['bird'], nonNative: true })).toBe('introduced and invasive birds')
+    expect(gbifEstablishmentMeans({ nonNative: true })).toContain('INTRODUCED')
+    expect(gbifEstablishmentMeans({})).toEqual([])
+  })
+
+  it('should keep iNaturalist results of an introduced-species query under the non-native filter', () => {
+    expect(inatEstablishmentParams({ nonNative: true })).toEqual({ introduced: 'true' })
+    expect(inatEstablishmentParams({ taxonGroups: ['bird'] })).toEqual({})
+
+    // species_counts has no establishment_means without a place_id
+    const record: Species = { id: 'inat-13858', commonName: 'House Sparrow', scientificName: 'Passer domesticus', conservationStatus: 'Least Concern', establishment: inatEstablishmentStatus(undefined, true) }
+    expect(matchesEstablishmentFilter(record, { nonNative: true })).toBe(true)
+    expect(inatEstablishmentStatus({ establishment_means: 'invasive' }, true)).toBe('invasive')
+    expect(inatEstablishmentStatus(undefined, false)).toBe('unknown')
+  })
+
+  it('should combine establishment statuses when merging source pages', () => {
+    const inat: Species = { id: 'inat-1', commonName: 'House Sparrow', scientificName: 'Passer domesticus', conservationStatus: 'Least Concern', establishment: 'unknown' }
+    const gbif: Species = { id: 'gbif-1', commonName: 'House Sparrow', scientificName: 'Passer domesticus', conservationStatus: 'Not Evaluated', establishment: 'introduced' }
+
+    expect(mergeSpeciesPages([inat], [gbif])).toEqual([{ ...inat, establishment: 'introduced' }])
+  })
+
+  it('should leave species names and other input alone', () => {
+    expect(parseSpeciesFilters('Fish Crow')).toBeNull()
+    expect(parseSpeciesFilters('Red-winged Blackbird')).toBeNull()
+    expect(parseSpeciesFilters('Miami, Florida')).toBeNull()
+    expect(isMoreSpeciesRequest('show more species')).toBe(true)
+    expect(isMoreSpeciesRequest('more please!')).toBe(true)
+    expect(isMoreSpeciesRequest('more about the panther')).toBe(false)
+  })
+
+  it('should describe filters and map them to iNaturalist and GBIF taxa', () => {
+    const filters = { taxonGroups: ['bird' as const, 'fish' as const], redListCategories: ['CR' as const, 'EN' as const, 'VU' as const] }
+
+    expect(describeSpeciesFilters(filters)).toBe('threatened birds and fish')
+    expect(describeSpeciesFilters({})).toBe('species')
+    expect(iconicTaxaForSearch({}, filters)).toBe('Aves,Actinopterygii')
+    expect(iconicTaxaForSearch({ waterType: 'freshwater' }, {})).toContain('Actinopterygii')
+    expect(gbifTaxonKeys(filters)).toEqual([212, 204])
+  })
+
+  it('should page each source until it runs out', () => {
+    const first = decodeSpeciesCursor(undefined)
+    expect(first).toEqual({ inatPage: 1, gbifOffset: 0 })
+
+    const next = nextSpeciesCursor(first, { returned: 20, requested: 20 }, { returned: 12, requested: 50 })
+    expect(next).toBe('2:-')
+    expect(decodeSpeciesCursor(next)).toEqual({ inatPage: 2, gbifOffset: undefined })
+
+    expect(nextSpeciesCursor({ inatPage: 2 }, { returned: 3, requested: 20 }, { returned: 0, requested: 50 })).toBeUndefined()
+    expect(decodeSpeciesCursor('garbage')).toEqual(first)
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { findWaterBody, iconicTaxaFor, waterBodyLocation, waterTypeFromCandidate } from '../water-bodies'
+import { toInatBounds } from '../place-geometry'
+
+describe('water-bodies', () => {
+  it('should find seas and lakes by name or alias', () => {
+    expect(findWaterBody('Coral Sea')?.waterType).toBe('marine')
+    expect(findWaterBody('the Mediterranean')?.name).toBe('Mediterranean Sea')
+    expect(findWaterBody('Sea of Cortez')?.name).toBe('Gulf of California')
+    expect(findWaterBody('Lake Baikal')?.waterType).toBe('freshwater')
+    expect(findWaterBody('Baikal Street')).toBeUndefined()
+  })
+
+  it('should build a location bounded by the water body', () => {
+    const baikal = waterBodyLocation(findWaterBody('Lake Baikal')!)
+
+    expect(baikal).toMatchObject({
+      displayName: 'Lake Baikal',
+      waterType: 'freshwater',
+      namedArea: { name: 'Lake Baikal', kind: 'natural-feature', designation: 'Lake' },
+      boundingBox: { south: 51.45, west: 103.6, north: 55.8, east: 109.9 }
+    })
+  })
+
+  it('should keep the larger side of oceans across the antimeridian', () => {
+    const pacific = waterBodyLocation(findWaterBody('Pacific')!)
+
+    expect(toInatBounds(pacific.boundingBox!)).toEqual({ swlat: -60, swlng: -180, nelat: 60, nelng: -70 })
+  })
+
+  it('should search aquatic taxa for water locations', () => {
+    expect(iconicTaxaFor({})).toBe('Mammalia,Aves,Reptilia,Amphibia')
+    expect(iconicTaxaFor({ waterType: 'marine' })).toContain('Actinopterygii')
+    expect(iconicTaxaFor({ waterType: 'marine' })).toContain('Animalia')
+    expect(iconicTaxaFor({ waterType: 'freshwater' })).toContain('Amphibia')
+  })
+
+  it('should recognise water among geocoder results', () => {
+    expect(waterTypeFromCandidate({ placeType: 'sea' })).toBe('marine')
+    expect(waterTypeFromCandidate({ placeType: 'lake' })).toBe('freshwater')
+    expect(waterTypeFromCandidate({ placeType: 'city' })).toBeUndefined()
+  })
+})
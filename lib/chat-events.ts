@@ -0,0 +1,104 @@
+// Typed progress events streamed from /api/chat as Server-Sent Events
+import type { ChatPayload } from './chat-payload';
+
+export type ChatStage =
+  | 'classified'
+  | 'animal-info'
+  | 'geocoded'
+  | 'species-found'
+  | 'iucn-enriched'
+  | 'orgs-found'
+  | 'sources-found';
+
+export interface ChatStageEvent {
+  type: 'stage';
+  stage: ChatStage;
+  message: string;
+  count?: number;
+}
+
+export interface ChatMessageEvent {
+  type: 'message';
+  payload: ChatPayload;
+}
+
+export interface ChatErrorEvent {
+  type: 'error';
+  error: string;
+}
+
+export type ChatStreamEvent = ChatStageEvent | ChatMessageEvent | ChatErrorEvent;
+
+// Callback used by the chat flow to report progress as each stage completes
+export type ChatProgressEmitter = (event: Omit<ChatStageEvent, 'type'>) => void;
+
+export const noopProgressEmitter: ChatProgressEmitter = () => {};
+
+// Human-readable labels for rendering progress in the UI
+export const CHAT_STAGE_LABELS: Record<ChatStage, string> = {
+  'classified': 'Understanding your request',
+  'animal-info': 'Looking up the animal',
+  'geocoded': 'Locating your area',
+  'species-found': 'Finding local wildlife',
+  'iucn-enriched': 'Checking IUCN Red List status',
+  'orgs-found': 'Finding conservation organizations',
+  'sources-found': 'Checking trusted sources'
+};
+
+/**
+ * Encode an event as an SSE frame
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Parse a single SSE frame back into an event (returns null for comments/keep-alives)
+ */
+export function decodeChatEvent(frame: string): ChatStreamEvent | null {
+  const dataLines = frame
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trim());
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return JSON.parse(dataLines.join('\n')) as ChatStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an SSE response body and invoke the handler for every event
+ */
+export async function readChatEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let separatorIndex = buffer.indexOf('\n\n');
+    while (separatorIndex !== -1) {
+      const frame = buffer.slice(0, separatorIndex);
+      buffer = buffer.slice(separatorIndex + 2);
+
+      const event = decodeChatEvent(frame);
+      if (event) onEvent(event);
+
+      separatorIndex = buffer.indexOf('\n\n');
+    }
+  }
+
+  const trailing = decodeChatEvent(buffer);
+  if (trailing) onEvent(trailing);
+}
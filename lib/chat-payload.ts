@@ -0,0 +1,45 @@
+import type { Location, Species, Organization } from './conservation-tools';
+import type { DisambiguationOption } from './location-agent';
+import type { AnswerSource } from './follow-up-qa';
+import type { SessionStep, SessionMode } from './session-store';
+
+// Structured reply from /api/chat. `response` is the markdown shown in the chat;
+// the client branches on `kind` and the typed data instead of parsing that prose.
+export type ChatPayloadKind =
+  | 'species-list'    // species found for a location, waiting for an animal selection
+  | 'disambiguation'  // location matched several places
+  | 'organizations'   // conservation organizations for an animal
+  | 'reporting-agencies' // where to report an introduced or invasive animal, instead of organizations
+  | 'answer'          // cited answer to a follow-up question about the animal
+  | 'error'           // input could not be used; see errorType
+  | 'completed';      // search finished; repeats the follow-up options for input that isn't one
+
+export type ChatErrorType =
+  | 'invalid-location'   // location could not be parsed or geocoded
+  | 'invalid-selection'  // reply did not match a disambiguation option
+  | 'invalid-animal'     // input is not one of the listed species
+  | 'not-an-animal'      // animal-first lookup found no such species
+  | 'no-species'         // no wildlife data for the location
+  | 'missing-location';  // no location to search yet
+
+export interface ChatPayload {
+  kind: ChatPayloadKind;
+  response: string;
+  step: SessionStep;
+  mode?: SessionMode;
+  location?: Location;
+  species?: Species[];
+  animal?: Species;
+  organizations?: Organization[];
+  disambiguationOptions?: DisambiguationOption[];
+  errorType?: ChatErrorType;
+  sources?: AnswerSource[];
+}
+
+// Errors the UI reports with the error loader before showing the message
+export function isInputError(payload: ChatPayload): boolean {
+  return payload.kind === 'error' &&
+    (payload.errorType === 'invalid-location' ||
+     payload.errorType === 'invalid-selection' ||
+     payload.errorType === 'invalid-animal');
+}
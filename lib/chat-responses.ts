@@ -0,0 +1,347 @@
+import { CONFIG } from './config';
+import type { Location, Species, Organization } from './conservation-tools';
+import type { DisambiguationOption } from './location-agent';
+import type { SessionData } from './session-store';
+import type { AnswerSource } from './follow-up-qa';
+import { describeSpeciesFilters, hasSpeciesFilters, type SpeciesFilters } from './species-filters';
+import { isNonNative } from './establishment-status';
+
+// Markdown replies for the chat flow. Wording can change freely: the client
+// branches on the structured ChatPayload, never on this text.
+
+const THREATENED_STATUSES = ['Critically Endangered', 'Endangered', 'Vulnerable', 'Near Threatened'];
+
+const LOCATION_FORMATS = `• **City and state**: "Miami, Florida"\n• **City and country**: "Toronto, Canada"\n• **Just a city**: "Seattle"\n• **Just a state**: "California"\n• **A country**: "Canada"\n• **A park or reserve**: "Yellowstone", "Kruger National Park"\n• **A sea or lake**: "Coral Sea", "Lake Baikal"\n• **Coordinates**: "25.76, -80.19", 40°26'46"N 79°58'56"W or a plus code`;
+
+export const MISSING_LOCATION_MESSAGE = `🌍 **I need your location to find local wildlife!**\n\nPlease enter your location to get started.\n\nTry adding a location please!`;
+
+export const INVALID_SELECTION_RETRY_MESSAGE = `❌ **Unable to process that selection.** Please try entering your location again.\n\nUse formats like:\n• "Miami, Florida"\n• "Toronto, Canada"\n• "California"`;
+
+export const EMPTY_SPECIES_MESSAGE = `❌ **No animals found for your location.**\n\nPlease start over and try a different location.`;
+
+/**
+ * Short place name used in headings ("near Miami")
+ */
+export function placeName(location: Location): string {
+  return location.namedArea?.name || location.city || location.state || location.country || location.displayName;
+}
+
+/**
+ * Note that the search was limited to a protected area or natural feature
+ */
+function formatSearchArea(location: Location): string {
+  const area = location.namedArea;
+  if (!area) return '';
+
+  if (location.waterType === 'marine') {
+    return `🌊 Searched the waters of **${area.name}**, including fish, marine mammals, sea turtles and corals.\n\n`;
+  }
+  if (location.waterType === 'freshwater') {
+    return `🌊 Searched **${area.name}**, including fish, amphibians, turtles and other freshwater life.\n\n`;
+  }
+  if (area.kind === 'natural-feature') {
+    return `📍 Searched within **${area.name}**.\n\n`;
+  }
+  const authority = area.managingAuthority ? `, managed by **${area.managingAuthority}**` : '';
+  return `🏞️ Searched within **${area.name}**, a protected area${authority}.\n\n`;
+}
+
+function statusSuffix(species: Species): string {
+  return species.conservationStatus && species.conservationStatus !== 'Unknown'
+    ? ` (${species.conservationStatus})`
+    : '';
+}
+
+// Introduced and invasive species are flagged, so they don't read as wildlife to protect
+function establishmentSuffix(species: Species): string {
+  if (species.establishment === 'invasive') return ' 🚫 invasive here';
+  if (species.establishment === 'introduced') return ' ⚠️ introduced here';
+  return '';
+}
+
+function exampleNames(species: Species[]): string[] {
+  return species.slice(0, 3).map(s => s.commonName).filter(Boolean);
+}
+
+/**
+ * Numbered species lines; numbers match what the selection resolver accepts
+ */
+function numberedSpecies(species: Species[], bold: boolean = true): string {
+  return species.slice(0, CONFIG.ui.maxDisplayedSpecies)
+    .map((animal, index) => {
+      const name = bold ? `**${animal.commonName}**` : animal.commonName;
+      return `${index + 1}. ${name}${statusSuffix(animal)}${establishmentSuffix(animal)}\n`;
+    })
+    .join('');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export interface SpeciesListOptions {
+  filters?: SpeciesFilters;
+  hasMore?: boolean; // more species can be listed with "more"
+  continued?: boolean; // this list follows an earlier one for the same search
+}
+
+export function formatSpeciesList(location: Location, species: Species[], options: SpeciesListOptions = {}): string {
+  const hasEndangeredSpecies = species.some(s => s.conservationStatus && THREATENED_STATUSES.includes(s.conservationStatus));
+
+  const locationDisplayName = location.namedArea?.name || location.city || location.state || location.country || 'this location';
+  const more = options.continued ? 'More ' : '';
+  let response = hasSpeciesFilters(options.filters)
+    ? `**🔎 ${more}${capitalize(describeSpeciesFilters(options.filters))} near ${locationDisplayName}:**\n\n`
+    : hasEndangeredSpecies
+      ? `**🔴 ${more}Endangered & Threatened Species near ${locationDisplayName}:**\n\n`
+      : `**🌿 ${more}Wildlife near ${locationDisplayName}:**\n\n`;
+
+  response += formatSearchArea(location);
+
+  response += numberedSpecies(species, false);
+
+  const nonNativeListed = species.slice(0, CONFIG.ui.maxDisplayedSpecies).some(isNonNative);
+  if (nonNativeListed && !options.filters?.nonNative) {
+    response += `\n⚠️ Species marked introduced or invasive were brought here by people; choosing one shows where to report it instead of groups protecting it.\n`;
+  }
+
+  const examples = exampleNames(species);
+  const exampleText = examples.length > 0
+    ? `\n**Examples from your location:**\n${examples.map(name => `"${name}"`).join(' or ')}`
+    : '';
+
+  const next = options.filters?.nonNative
+    ? `We'll then show where to report it and who manages it`
+    : `We'll then search for organizations protecting that species`;
+  response += `\n\n⚠️ **IMPORTANT: You MUST select ONE animal from the list above.**\n\n📋 **How to choose:**\n• Type its **number** (e.g., "2") or say "the last one"\n• Or type the **animal name** (small typos are fine)\n• ${next}${exampleText}`;
+
+  response += `\n\n🔎 **Not what you're looking for?**\n`;
+  if (options.hasMore) response += `• Type **"more"** to see more species\n`;
+  response += `• Narrow the list: "only birds", "threatened species", "include fish", "in spring", "invasive species"`;
+  if (hasSpeciesFilters(options.filters)) response += `\n• Type **"all species"** to clear the filters`;
+
+  return response;
+}
+
+export function formatNoMoreSpecies(location: Location, filters?: SpeciesFilters): string {
+  return `🐾 **That's all the ${describeSpeciesFilters(filters)} recorded near ${placeName(location)}.**\n\nChoose an animal from the list above, try a different filter (e.g., "include insects"), or enter a new location.`;
+}
+
+export function formatNoFilteredSpecies(location: Location, filters: SpeciesFilters): string {
+  // Few records say whether an animal is native, so an empty list is not proof there are none
+  const caveat = filters.nonNative
+    ? ` Most wildlife records don't say whether an animal is native, so introduced species can be missed.`
+    : '';
+  return `🔎 **No ${describeSpeciesFilters(filters)} found near ${placeName(location)}.**${caveat}\n\nTry a different filter (e.g., "only mammals"), type **"all species"** to clear the filters, or enter a new location.`;
+}
+
+export function formatInvasiveSpeciesPrompt(): string {
+  return `🚫 **Invasive species near you**\n\nTell me where you are and I'll list the introduced and invasive animals recorded there, with who to report them to.\n\n${LOCATION_FORMATS}`;
+}
+
+/**
+ * Reporting and management agencies for an introduced or invasive animal, in place of conservation organizations
+ */
+export function formatReportingAgencies(animal: Species, location: Location, agencies: Organization[]): string {
+  const place = placeName(location);
+  const heading = animal.establishment === 'invasive'
+    ? `🚫 **${animal.commonName} is invasive near ${place}**`
+    : `⚠️ **${animal.commonName} was introduced near ${place}**`;
+
+  let response = `${heading}\n\nIt isn't native here, so instead of groups protecting it, these agencies track and manage it. Report sightings to them:\n\n`;
+  response += formatOrganizationList(agencies);
+  response += `Note the date, place and a photo if you can, and don't move or release the animal. Your state or provincial wildlife agency can also take reports.`;
+  return response;
+}
+
+export function formatSpeciesReminder(location: Location, species: Species[]): string {
+  let response = `🐾 **Please select an animal from the list!**\n\nChoose one of these animals found near ${location.city || location.state || location.country}:\n\n`;
+  response += numberedSpecies(species);
+
+  const examples = exampleNames(species);
+  const exampleText = examples.length > 0
+    ? `\n**Try one of these:**\n${examples.map(name => `"${name}"`).join(' or ')}`
+    : '';
+
+  response += `\n\n⚠️ **You MUST select ONE animal from this list.**\n\n📋 **How to choose:**\n• Type its **number** (e.g., "1") or the **animal name**\n• We'll find organizations protecting that species${exampleText}`;
+  return response;
+}
+
+export function formatAnimalNotInList(input: string, location: Location, species: Species[]): string {
+  let response = `❌ **"${input}" was not found in your location's wildlife list.**\n\n`;
+  response += `⚠️ **Remember: You can ONLY select animals from the list below** (found near ${location.city || location.state || location.country}):\n\n`;
+
+  response += numberedSpecies(species);
+
+  const examples = exampleNames(species);
+  if (examples.length > 0) {
+    response += `\n\n💡 **Try one of these:**\n${examples.map(name => `"${name}"`).join(', ')}`;
+  }
+
+  response += `\n\n📝 **Tip:** You can also reply with the animal's number from the list.`;
+  return response;
+}
+
+export function formatNoSpeciesFound(location: Location): string {
+  return `🚫 **Unable to find wildlife data for ${location.displayName}**\n\nThis could be due to:\n• **API connectivity issues** (OpenAI services may be temporarily unavailable)\n• **Limited coverage** for this specific location\n• **Server overload** during peak usage\n\n💡 **Try these alternatives:**\n• Enter a **major nearby city** (e.g., "Miami, Florida" instead of just "Miami")\n• Use a **state or province name** (e.g., "California", "Ontario")\n• Try again in a few minutes\n\nExamples: "New York City", "Toronto, Canada", "Los Angeles"`;
+}
+
+export function formatLocationHelp(errorMessage: string): string {
+  return `🌍 **${errorMessage}**\n\nPlease enter your location in one of these formats:\n\n${LOCATION_FORMATS}\n\nTry entering your location now!`;
+}
+
+export function formatNotAnAnimal(input: string): string {
+  return `🌍 **I couldn't find an animal called "${input}"**\n\nLet's try entering a location instead!\n\nPlease enter your location in one of these formats:\n\n${LOCATION_FORMATS}`;
+}
+
+export function formatAnimalLocationHelp(animalName: string): string {
+  return `🌍 **Could not understand that location.**\n\nPlease enter:\n• A specific location (e.g., "California", "Florida", "Singapore")\n• Or type "worldwide" to see all organizations for ${animalName}`;
+}
+
+export function formatDisambiguationMessage(options: DisambiguationOption[]): string {
+  let message = `🌍 **Please add more info to your location!**\n\nI found multiple places with that name:\n\n`;
+
+  options.forEach((option, index) => {
+    message += `${index + 1}. **${option.displayName}**\n`;
+    message += `  ${option.description}\n\n`;
+  });
+
+  message += `Reply with the **number** (e.g., "1") or the **location name** from the list above, or add the state/country to your original location.`;
+
+  return message;
+}
+
+export function formatInvalidSelection(options: DisambiguationOption[]): string {
+  return `❌ **I couldn't match your response to one of the options.**\n\n${formatDisambiguationMessage(options)}\n\n**Reply with a number from the list, e.g. "2" or "the last one".**`;
+}
+
+/**
+ * Bulleted organization list with websites
+ */
+export function formatOrganizationList(organizations: Organization[], bullet: string = '-'): string {
+  let list = '';
+  organizations.forEach(org => {
+    list += `${bullet} **${org.name}**\n`;
+    if (org.website && org.website !== '#') {
+      list += `  ${org.website}\n`;
+    }
+    list += `\n`;
+  });
+  return list;
+}
+
+/**
+ * Organization results for an animal; `fallback` is shown when nothing was found
+ */
+export function formatOrganizations(heading: string, animalName: string, organizations: Organization[], fallback: string): string {
+  let response = `**${heading}:**\n\n`;
+
+  if (organizations.length > 0) {
+    response += formatOrganizationList(organizations);
+    response += `Contact these organizations to help protect ${animalName}.`;
+  } else {
+    response += fallback;
+  }
+
+  return response;
+}
+
+export function formatAnimalOverview(animalName: string, animalInfo: string, organizations: Organization[]): string {
+  // Use proper capitalization for the animal name
+  const capitalizedAnimal = animalName.split(' ').map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+  ).join(' ');
+
+  const orgsResponse = organizations.length > 0
+    ? formatOrganizationList(organizations)
+    : `- Contact your local wildlife department\n- Search for international wildlife conservation organizations\n\nThese can help protect ${animalName}.`;
+
+  return `🐾 **${capitalizedAnimal}**\n\n${animalInfo}\n\n---\n\n**${capitalizedAnimal} Conservation Organizations:**\n\n${orgsResponse}\nContact these organizations to help protect ${animalName}.\n\n---\n\n**Want more specific results?**\n\n1. **Enter a specific location** to find organizations in that area (e.g., "California", "Arizona", "United States")\n2. **Type "worldwide"** to search for more global organizations\n3. **Select a specific subspecies** if multiple were listed above`;
+}
+
+export function formatRandomAnimal(species: Species, placeName: string, organizations: Organization[]): string {
+  let response = `🎲 **Random Threatened Animal: ${species.commonName}**\n\n*${species.scientificName}*${statusSuffix(species)} - Found in ${placeName}\n\n`;
+  response += `**Conservation Organizations:**\n\n`;
+
+  if (organizations.length > 0) {
+    response += formatOrganizationList(organizations, '•');
+    response += `Contact these organizations to help protect the ${species.commonName}.`;
+  } else {
+    response += `• Contact your local wildlife conservation groups\n• Support international wildlife funds\n\nThese can help protect the ${species.commonName}.`;
+  }
+
+  return response;
+}
+
+export function formatRateLimited(retryAfterSeconds: number): string {
+  const wait = retryAfterSeconds >= 60
+    ? `about ${Math.ceil(retryAfterSeconds / 60)} minute${retryAfterSeconds >= 120 ? 's' : ''}`
+    : `${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`;
+  return `🐢 **Slow down a little!**\n\nYou're sending messages faster than our wildlife researchers can keep up. Please wait ${wait} and try again.`;
+}
+
+export function formatNoRandomAnimal(description: string): string {
+  return `🎲 **I couldn't find a threatened ${description} right now.**\n\nTry "Surprise me" again, or ask for something broader (e.g., "surprise me with a mammal").`;
+}
+
+/**
+ * Cited answer to a follow-up question, with a numbered source list
+ */
+export function formatFollowUpAnswer(animalName: string, answer: string, sources: AnswerSource[]): string {
+  let response = `💬 **About the ${animalName}**\n\n${answer}\n\n**Sources:**\n`;
+  sources.forEach(source => {
+    response += `${source.id}. ${source.title}${source.url ? ` - ${source.url}` : ''}\n`;
+  });
+  return response;
+}
+
+export function formatNoAnswer(animalName: string): string {
+  return `💬 **I couldn't find sourced information to answer that about the ${animalName}.**\n\nTry asking about its diet, habitat, range, population or conservation status.`;
+}
+
+// Species from the session's list that haven't had an organization search yet
+function remainingSpecies(session: SessionData): Species[] {
+  const searched = new Set((session.history ?? []).map(entry => entry.animal.toLowerCase()));
+  return (session.species ?? [])
+    .slice(0, CONFIG.ui.maxDisplayedSpecies)
+    .filter(species => !searched.has(species.commonName.toLowerCase()));
+}
+
+/**
+ * Follow-up actions offered after organizations are shown
+ */
+export function formatFollowUpOptions(session: SessionData): string {
+  const animalName = session.selectedAnimal?.commonName ?? 'this animal';
+  const others = remainingSpecies(session).slice(0, 3).map(species => `"${species.commonName}"`);
+
+  let response = `**What next?**\n\n`;
+  if (others.length > 0) {
+    response += `• **Another animal from your list**: ${others.join(', ')}\n`;
+  }
+  // Introduced animals get reporting agencies, which only exist for a place
+  if (session.selectedAnimal && isNonNative(session.selectedAnimal)) {
+    response += `• **A different location** to find where to report ${animalName} there (e.g., "Arizona")\n`;
+  } else {
+    response += `• **A different location** to find ${animalName} organizations there (e.g., "Arizona")\n`;
+    response += `• **"worldwide"** for global ${animalName} organizations\n`;
+  }
+  response += `• **A question** about the ${animalName} (e.g., "What does it eat?")`;
+
+  return response;
+}
+
+export function formatCompletedOptions(session: SessionData): string {
+  const searches = session.history ?? [];
+
+  let response = `✅ **Your search is complete!**\n\n`;
+  if (searches.length > 0) {
+    response += `**Searched so far:**\n`;
+    searches.forEach(entry => {
+      response += `• ${entry.animal} (${entry.location}) - ${entry.organizationCount} organizations\n`;
+    });
+    response += `\n`;
+  }
+
+  response += `${formatFollowUpOptions(session)}\n\nOr click the **Reset** button to start a new search.`;
+  return response;
+}
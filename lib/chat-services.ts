@@ -0,0 +1,197 @@
+import type { Location } from './conservation-tools';
+import { parseUserLocation, parseStructuredUserLocation, handleLocationDisambiguation } from './location-agent';
+import { speciesFetcherMCP, wikipediaMCP } from './mcp-client';
+import { wildlifeDataService } from './wildlife-data-service';
+import { inputClassifier, type ClassificationResult } from './input-classifier';
+import { randomSpeciesService } from './random-species';
+import { FollowUpQAService, fetchIUCNStatus } from './follow-up-qa';
+import { searchWildlifeInformation } from './wildlife-rag-service';
+import type { ChatServices, InputClassification } from './chat-state-machine';
+
+// Production implementations of the chat state machine's services
+
+async function classifyWithLLM(prompt: string): Promise<InputClassification> {
+  const { openai } = await import('@ai-sdk/openai');
+  const { generateText } = await import('ai');
+
+  const classificationResult = await generateText({
+    model: openai('gpt-4o-mini'),
+    prompt,
+    temperature: 0.1
+  });
+
+  return classificationResult.text.trim().toUpperCase() === 'ANIMAL' ? 'ANIMAL' : 'LOCATION';
+}
+
+function logClassification(message: string, result: ClassificationResult): void {
+  console.log(`🧭 "${message}" -> ${result.kind} (confidence ${result.confidence.toFixed(2)}, ${result.source}; ${result.signals.join(', ') || 'no signals'})`);
+}
+
+function createFollowUpQA(): FollowUpQAService {
+  return new FollowUpQAService({
+    getWikipediaSummary: title => wikipediaMCP.getSummary(title),
+    getWikipediaArticle: async title => {
+      const article = await wikipediaMCP.getArticle(title);
+      return typeof article === 'string' ? article : null;
+    },
+    searchRag: async (query, location) => process.env.VECTORIZE_TOKEN
+      ? searchWildlifeInformation(query, location, 3)
+      : { success: false, error: 'VECTORIZE_TOKEN not configured' },
+    getIUCNStatus: scientificName => fetchIUCNStatus(scientificName),
+    async generate(prompt) {
+      const { openai } = await import('@ai-sdk/openai');
+      const { generateText } = await import('ai');
+
+      const answer = await generateText({
+        model: openai('gpt-4o-mini'),
+        prompt,
+        temperature: 0.2
+      });
+      return answer.text;
+    }
+  });
+}
+
+export function createChatServices(): ChatServices {
+  const followUpQA = createFollowUpQA();
+
+  return {
+    async classifyInput(message) {
+      console.log(`🔍 CLASSIFYING INPUT: "${message}"`);
+      const result = await inputClassifier.classify(message, {}, () => classifyWithLLM(`Classify this user input as either an ANIMAL name or a LOCATION:
+
+Input: "${message}"
+
+Rules:
+- If it's clearly an animal species name (common or scientific), respond with: ANIMAL
+- If it's a place (city, state, country, region), respond with: LOCATION
+- If ambiguous, prefer ANIMAL if it contains animal-related words
+
+Respond with ONLY one word: ANIMAL or LOCATION`));
+      logClassification(message, result);
+      return result.kind;
+    },
+
+    async classifyRefinement(previousAnimal, message) {
+      const result = await inputClassifier.classify(message, { previousAnimal }, () => classifyWithLLM(`The user previously searched for "${previousAnimal}" and we showed them subspecies/variants.
+
+Now they responded with: "${message}"
+
+Is this:
+A) A more specific animal name/subspecies (e.g., "Agassiz's Desert Tortoise", "Morafka's Desert Tortoise")
+B) A location (e.g., "California", "Florida", "worldwide")
+
+Respond with ONLY one word: ANIMAL or LOCATION`));
+      logClassification(message, result);
+      return result.kind;
+    },
+
+    async lookupAnimal(name) {
+      // Use OpenAI web search to get basic animal info and location
+      const { OpenAI } = await import('openai');
+      const openaiClient = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY
+      });
+
+      console.log(`🔍 WEB SEARCH: Finding basic information for "${name}"`);
+
+      const animalSearchResult = await openaiClient.chat.completions.create({
+        model: 'gpt-4o-search-preview',
+        web_search_options: {},
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a wildlife expert. Search the web for current, accurate information about animal species and their habitats.'
+          },
+          {
+            role: 'user',
+            content: `Search for information about "${name}" (animal species).
+
+Find:
+1. Scientific name if available
+2. Conservation status (IUCN Red List)
+3. Primary geographic locations where this species is found (countries, states/provinces)
+4. Current population status
+
+Format:
+Common Name: [name]
+Scientific Name: [name]
+Conservation Status: [status]
+Found in: [list of countries/regions/states where it's commonly found - be specific]
+Population: [brief note on numbers/trend]
+
+If this is not a valid animal species, respond with: NOT_AN_ANIMAL`
+          }
+        ]
+      });
+
+      const animalInfo = animalSearchResult.choices[0]?.message?.content || '';
+      console.log(`🔍 ANIMAL SEARCH RESULT:`, animalInfo);
+
+      return animalInfo.includes('NOT_AN_ANIMAL') ? null : animalInfo;
+    },
+
+    parseLocation: parseUserLocation,
+
+    parseStructuredLocation: parseStructuredUserLocation,
+
+    resolveDisambiguation: handleLocationDisambiguation,
+
+    async geocodeLocation(query) {
+      return (await speciesFetcherMCP.geocodeLocation(query)) as Location | null;
+    },
+
+    findSpecies(location, query = {}) {
+      return speciesFetcherMCP.findSpeciesByLocation({
+        latitude: location.lat,
+        longitude: location.lon,
+        displayName: location.displayName,
+        city: location.city,
+        state: location.state,
+        country: location.country,
+        boundingBox: location.boundingBox,
+        polygon: location.polygon,
+        namedArea: location.namedArea,
+        waterType: location.waterType,
+        taxonGroups: query.filters?.taxonGroups,
+        redListCategories: query.filters?.redListCategories,
+        months: query.filters?.period?.months,
+        startDate: query.filters?.period?.startDate,
+        endDate: query.filters?.period?.endDate,
+        nonNative: query.filters?.nonNative,
+        cursor: query.cursor
+      });
+    },
+
+    enrichSpeciesStatus(species, limit) {
+      return wildlifeDataService.enrichSpeciesStatus(species, limit);
+    },
+
+    searchOrganizations(animalName, place) {
+      return speciesFetcherMCP.searchConservationOrganizations(
+        animalName,
+        place,
+        process.env.OPENAI_API_KEY || ''
+      );
+    },
+
+    async pickRandomAnimal(filters) {
+      const pick = await randomSpeciesService.pick(filters);
+      if (!pick) return null;
+
+      console.log(`🎲 ${pick.species.commonName} (${pick.category}) - ${pick.occurrenceCount} GBIF records in ${pick.countryName}`);
+
+      // Geocode the representative country; without coordinates the pick is named by
+      // country only, so nothing maps or searches a made-up point
+      const geocoded = (await speciesFetcherMCP.geocodeLocation(pick.countryName).catch(() => null)) as Location | null;
+      if (!geocoded) console.warn(`⚠️ Could not geocode ${pick.countryName} for the random animal`);
+      const location = geocoded ? { ...geocoded, displayName: pick.countryName, country: pick.countryName } : undefined;
+
+      return { species: pick.species, placeName: pick.countryName, location };
+    },
+
+    answerQuestion(question, animal, location) {
+      return followUpQA.answer(question, animal, location);
+    }
+  };
+}
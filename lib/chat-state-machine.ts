@@ -0,0 +1,864 @@
+import { CONFIG } from './config';
+import type { Location, Species, Organization } from './conservation-tools';
+import type { DisambiguationOption, LocationParsingResult, StructuredLocationInput } from './location-agent';
+import type { SessionData, SessionStep } from './session-store';
+import type { ChatPayload } from './chat-payload';
+import { noopProgressEmitter, type ChatProgressEmitter } from './chat-events';
+import { resolveSelection } from './selection-resolver';
+import { isFollowUpQuestion, type FollowUpAnswer } from './follow-up-qa';
+import { parseRandomSpeciesFilters, describeRandomSpeciesFilters, type RandomSpeciesFilters } from './random-species';
+import { isCoordinateInput } from './coordinate-parser';
+import { findPlace } from './gazetteer';
+import { structuredQueryText } from './geocoder';
+import { managingAuthorityOrganization } from './protected-areas';
+import { isNonNative, parseInvasiveSpeciesRequest } from './establishment-status';
+import { invasiveSpeciesAgencies } from './invasive-species-agencies';
+import {
+  hasSpeciesFilters,
+  isMoreSpeciesRequest,
+  parseSpeciesFilters,
+  type SpeciesFilters,
+  type SpeciesPage,
+  type SpeciesQuery
+} from './species-filters';
+import {
+  EMPTY_SPECIES_MESSAGE,
+  INVALID_SELECTION_RETRY_MESSAGE,
+  MISSING_LOCATION_MESSAGE,
+  formatAnimalLocationHelp,
+  formatAnimalNotInList,
+  formatAnimalOverview,
+  formatCompletedOptions,
+  formatDisambiguationMessage,
+  formatFollowUpOptions,
+  formatInvalidSelection,
+  formatInvasiveSpeciesPrompt,
+  formatLocationHelp,
+  formatFollowUpAnswer,
+  formatNoAnswer,
+  formatNoFilteredSpecies,
+  formatNoMoreSpecies,
+  formatNoRandomAnimal,
+  formatNoSpeciesFound,
+  formatNotAnAnimal,
+  formatOrganizations,
+  formatRandomAnimal,
+  formatReportingAgencies,
+  formatSpeciesList,
+  formatSpeciesReminder,
+  placeName
+} from './chat-responses';
+
+// Finite-state machine for the chat flow.
+//
+// A user message is first interpreted into a typed ChatEvent for the current
+// session step, then the transition table decides what happens next. Every side
+// effect (LLM calls, geocoding, species and organization lookups) goes through
+// the injected ChatServices so transitions can be tested without network access.
+
+export type InputClassification = 'ANIMAL' | 'LOCATION';
+
+export interface RandomAnimal {
+  species: Species;
+  placeName: string; // country the animal was picked from
+  location?: Location; // that country geocoded; missing when geocoding failed
+}
+
+export interface ChatServices {
+  classifyInput(message: string): Promise<InputClassification>;
+  classifyRefinement(previousAnimal: string, message: string): Promise<InputClassification>;
+  /** Web lookup for an animal; resolves to null when the input is not an animal */
+  lookupAnimal(name: string): Promise<string | null>;
+  parseLocation(input: string): Promise<LocationParsingResult>;
+  /** Location form fields, geocoded as a structured query */
+  parseStructuredLocation(input: StructuredLocationInput): Promise<LocationParsingResult>;
+  resolveDisambiguation(option: DisambiguationOption): Promise<LocationParsingResult>;
+  geocodeLocation(query: string): Promise<Location | null>;
+  /** One page of species; pass the page's nextCursor back for the next one */
+  findSpecies(location: Location, query?: SpeciesQuery): Promise<SpeciesPage>;
+  enrichSpeciesStatus(species: Species[], limit: number): Promise<{ species: Species[]; enrichedCount: number }>;
+  searchOrganizations(animalName: string, place: string): Promise<Organization[]>;
+  /** Random threatened species matching the filters; null when none can be found */
+  pickRandomAnimal(filters: RandomSpeciesFilters): Promise<RandomAnimal | null>;
+  /** Cited answer to a question about the animal, grounded in Wikipedia, RAG and IUCN data */
+  answerQuestion(question: string, animal: Species, location?: Location): Promise<FollowUpAnswer>;
+}
+
+export type ChatEvent =
+  | { type: 'SURPRISE_REQUESTED'; text: string }
+  | { type: 'INVASIVE_SPECIES_REQUESTED'; text: string; place?: string }
+  | { type: 'LOCATION_ENTERED'; text: string; fields?: StructuredLocationInput }
+  | { type: 'ANIMAL_ENTERED'; text: string }
+  | { type: 'WORLDWIDE_REQUESTED' }
+  | { type: 'OPTION_SELECTED'; option: DisambiguationOption }
+  | { type: 'SPECIES_SELECTED'; species: Species }
+  | { type: 'FILTERS_CHANGED'; filters: SpeciesFilters }
+  | { type: 'MORE_SPECIES_REQUESTED' }
+  | { type: 'NON_ANIMAL_INPUT'; text: string }
+  | { type: 'QUESTION_ASKED'; text: string }
+  | { type: 'UNRECOGNIZED_INPUT'; text: string };
+
+export type ChatEventType = ChatEvent['type'];
+
+export interface TransitionResult {
+  session: SessionData;
+  payload: ChatPayload;
+}
+
+interface TransitionContext {
+  session: SessionData;
+  services: ChatServices;
+  emit: ChatProgressEmitter;
+}
+
+type TransitionHandler<E extends ChatEvent = ChatEvent> = (context: TransitionContext, event: E) => Promise<TransitionResult>;
+
+export type TransitionTable = {
+  [S in SessionStep]: { [T in ChatEventType]?: TransitionHandler<Extract<ChatEvent, { type: T }>> };
+};
+
+// Global scope for organization searches (no country, so it is searched as "Worldwide")
+const WORLDWIDE: Location = {
+  displayName: 'Worldwide',
+  lat: 0,
+  lon: 0
+};
+
+function result(session: SessionData, payload: Omit<ChatPayload, 'step' | 'mode'>): TransitionResult {
+  return { session, payload: { ...payload, step: session.step, mode: session.mode } };
+}
+
+function missingLocation({ session }: TransitionContext): TransitionResult {
+  return result(session, { kind: 'error', errorType: 'missing-location', response: MISSING_LOCATION_MESSAGE });
+}
+
+async function searchOrganizations({ services, emit }: TransitionContext, animalName: string, place: string): Promise<Organization[]> {
+  console.log(`🏢 SEARCHING ORGANIZATIONS for ${animalName} in ${place}`);
+  const organizations = await services.searchOrganizations(animalName, place);
+  console.log(`🔍 FOUND ${organizations.length} organizations for ${animalName}`);
+  emit({ stage: 'orgs-found', message: `Found ${organizations.length} organizations for ${animalName}`, count: organizations.length });
+  return organizations;
+}
+
+// Species pages fetched at most per request, in case later pages only repeat listed species
+const MAX_PAGES_PER_REQUEST = 3;
+
+function speciesKey(species: Species): string {
+  return (species.scientificName || species.commonName).toLowerCase();
+}
+
+// Enrich the displayed species with IUCN status and list them, moving to the animal step
+async function listSpecies(
+  context: TransitionContext,
+  location: Location,
+  species: Species[],
+  options: { continued?: boolean } = {}
+): Promise<TransitionResult> {
+  const { session, services, emit } = context;
+
+  if (species.length > 0) {
+    const enrichment = await services.enrichSpeciesStatus(species, CONFIG.ui.maxDisplayedSpecies);
+    species = enrichment.species;
+    emit({ stage: 'iucn-enriched', message: `Checked IUCN Red List status for ${enrichment.enrichedCount} species`, count: enrichment.enrichedCount });
+  }
+
+  session.location = location;
+  session.species = species;
+  session.step = 'animal';
+  delete session.disambiguationOptions;
+
+  const filters = session.speciesSearch?.filters;
+  return result(session, {
+    kind: 'species-list',
+    response: formatSpeciesList(location, species, {
+      filters,
+      continued: options.continued,
+      hasMore: species.length > CONFIG.ui.maxDisplayedSpecies || Boolean(session.speciesSearch?.nextCursor)
+    }),
+    location,
+    species: species.slice(0, CONFIG.ui.maxDisplayedSpecies)
+  });
+}
+
+// Fetch the first page of species for a location and move to the animal step.
+// The session's filters carry over unless new ones are given.
+async function showSpeciesForLocation(
+  context: TransitionContext,
+  location: Location,
+  filters: SpeciesFilters | undefined = context.session.speciesSearch?.filters
+): Promise<TransitionResult> {
+  const { session, services, emit } = context;
+
+  console.log(`📍 FETCHING SPECIES for location: ${location.displayName}${hasSpeciesFilters(filters) ? `, filters: ${JSON.stringify(filters)}` : ''}`);
+  const page = await services.findSpecies(location, { filters });
+  const species = page.species;
+  console.log(`🐾 FOUND ${species.length} species for ${location.displayName}`);
+  emit({ stage: 'species-found', message: `Found ${species.length} species near ${location.displayName}`, count: species.length });
+
+  session.speciesSearch = { filters, nextCursor: page.nextCursor, seen: species.map(speciesKey), location };
+
+  if (species.length === 0) {
+    session.location = location;
+    session.species = species;
+    session.step = 'animal';
+    delete session.disambiguationOptions;
+
+    const response = filters && hasSpeciesFilters(filters) ? formatNoFilteredSpecies(location, filters) : formatNoSpeciesFound(location);
+    return result(session, { kind: 'error', errorType: 'no-species', response, location, species });
+  }
+
+  return listSpecies(context, location, species);
+}
+
+// "more": list the species after the displayed ones, fetching further pages as needed
+async function showMoreSpecies(context: TransitionContext): Promise<TransitionResult> {
+  const { session, services, emit } = context;
+  const location = session.location!;
+  const search = session.speciesSearch ?? { seen: (session.species ?? []).map(speciesKey) };
+  const seen = new Set(search.seen);
+
+  let species = (session.species ?? []).slice(CONFIG.ui.maxDisplayedSpecies);
+  let nextCursor = search.nextCursor;
+
+  for (let pages = 0; pages < MAX_PAGES_PER_REQUEST && nextCursor && species.length < CONFIG.ui.maxDisplayedSpecies; pages++) {
+    console.log(`📄 FETCHING MORE SPECIES for ${location.displayName} from ${nextCursor}`);
+    const page = await services.findSpecies(location, { filters: search.filters, cursor: nextCursor });
+    const unseen = page.species.filter(candidate => !seen.has(speciesKey(candidate)));
+    unseen.forEach(candidate => seen.add(speciesKey(candidate)));
+    species = [...species, ...unseen];
+    nextCursor = page.nextCursor;
+  }
+
+  session.speciesSearch = { ...search, nextCursor, seen: [...seen] };
+
+  if (species.length === 0) {
+    return result(session, {
+      kind: 'error',
+      errorType: 'no-species',
+      response: formatNoMoreSpecies(location, search.filters),
+      location,
+      species: session.species?.slice(0, CONFIG.ui.maxDisplayedSpecies)
+    });
+  }
+
+  emit({ stage: 'species-found', message: `Found ${species.length} more species near ${location.displayName}`, count: species.length });
+  return listSpecies(context, location, species, { continued: true });
+}
+
+async function enterLocation(context: TransitionContext, event: { text: string; fields?: StructuredLocationInput }): Promise<TransitionResult> {
+  const { session, services, emit } = context;
+  session.step = 'location';
+
+  const locationResult = event.fields
+    ? await services.parseStructuredLocation(event.fields)
+    : await services.parseLocation(event.text);
+
+  if (locationResult.success && locationResult.location) {
+    emit({ stage: 'geocoded', message: `Located ${locationResult.location.displayName}` });
+    return showSpeciesForLocation(context, locationResult.location);
+  }
+
+  if (locationResult.needsDisambiguation && locationResult.disambiguationOptions) {
+    session.step = 'disambiguation';
+    session.disambiguationOptions = locationResult.disambiguationOptions;
+    return result(session, {
+      kind: 'disambiguation',
+      response: formatDisambiguationMessage(locationResult.disambiguationOptions),
+      disambiguationOptions: locationResult.disambiguationOptions
+    });
+  }
+
+  const errorMessage = locationResult.errorMessage || 'Could not understand your location input.';
+  return result(session, { kind: 'error', errorType: 'invalid-location', response: formatLocationHelp(errorMessage) });
+}
+
+async function surprise(context: TransitionContext, event: { text: string }): Promise<TransitionResult> {
+  const { session, services } = context;
+  const filters = parseRandomSpeciesFilters(event.text);
+  const random = await services.pickRandomAnimal(filters);
+
+  if (!random) {
+    return result(session, { kind: 'error', errorType: 'no-species', response: formatNoRandomAnimal(describeRandomSpeciesFilters(filters)) });
+  }
+  console.log(`🎲 RANDOM ANIMAL SELECTED: ${random.species.commonName}`);
+
+  const organizations = await searchOrganizations(context, random.species.commonName, random.placeName);
+
+  return result(session, {
+    kind: 'organizations',
+    response: formatRandomAnimal(random.species, random.placeName, organizations),
+    location: random.location,
+    animal: random.species,
+    organizations
+  });
+}
+
+// "invasive species near me": list only introduced and invasive species, so choosing
+// one shows reporting agencies. A named place is searched fresh; otherwise the current
+// location is searched again, or the user is asked for one.
+async function invasiveSpecies(context: TransitionContext, event: { place?: string }): Promise<TransitionResult> {
+  const { session } = context;
+  session.mode = 'invasive-species';
+  console.log(`🚫 INVASIVE SPECIES MODE${event.place ? ` for "${event.place}"` : ''}`);
+
+  if (event.place) {
+    delete session.location;
+    delete session.species;
+    delete session.disambiguationOptions;
+    session.speciesSearch = { filters: { nonNative: true }, seen: [] };
+    return enterLocation(context, { text: event.place });
+  }
+
+  if (session.location && (session.step === 'animal' || session.step === 'completed')) {
+    return showSpeciesForLocation(context, session.location, { ...session.speciesSearch?.filters, nonNative: true });
+  }
+
+  // The filter waits in the session until a location is entered
+  session.step = 'location';
+  session.speciesSearch = { filters: { nonNative: true }, seen: [] };
+  return result(session, { kind: 'error', errorType: 'missing-location', response: formatInvasiveSpeciesPrompt() });
+}
+
+// A location search outside invasive-species mode lists native species again;
+// the other filters carry over to the new place
+function clearInvasiveSpeciesFilter(session: SessionData): void {
+  if (session.mode === 'invasive-species' || !session.speciesSearch?.filters?.nonNative) return;
+  const filters = { ...session.speciesSearch.filters };
+  delete filters.nonNative;
+  session.speciesSearch = { ...session.speciesSearch, filters };
+}
+
+// Follow-up question about the selected animal; the step does not change
+async function answerQuestion(context: TransitionContext, event: { text: string }): Promise<TransitionResult> {
+  const { session, services, emit } = context;
+  const animal = session.selectedAnimal!;
+
+  console.log(`❓ FOLLOW-UP QUESTION about ${animal.commonName}: "${event.text}"`);
+  const { answer, sources } = await services.answerQuestion(event.text, animal, session.location);
+  emit({ stage: 'sources-found', message: `Checked ${sources.length} sources about ${animal.commonName}`, count: sources.length });
+
+  return result(session, {
+    kind: 'answer',
+    response: sources.length > 0
+      ? `${formatFollowUpAnswer(animal.commonName, answer, sources)}\n${formatFollowUpOptions(session)}`
+      : `${formatNoAnswer(animal.commonName)}\n\n${formatFollowUpOptions(session)}`,
+    location: session.location,
+    animal,
+    sources
+  });
+}
+
+async function showOrganizationsFor(
+  context: TransitionContext,
+  animal: Species,
+  location: Location,
+  heading: string,
+  fallback: string
+): Promise<TransitionResult> {
+  const { session } = context;
+  const found = await searchOrganizations(context, animal.commonName, placeName(location));
+
+  // A protected area's managing authority always belongs on the list
+  const authority = managingAuthorityOrganization(location.namedArea);
+  const organizations = authority
+    ? [authority, ...found.filter(org => org.name.toLowerCase() !== authority.name.toLowerCase())]
+    : found;
+
+  session.selectedAnimal = animal;
+  session.step = 'completed';
+  recordSearch(session, animal, location, organizations.length);
+
+  return result(session, {
+    kind: 'organizations',
+    response: `${formatOrganizations(heading, animal.commonName, organizations, fallback)}\n\n---\n\n${formatFollowUpOptions(session)}`,
+    location,
+    animal,
+    organizations
+  });
+}
+
+// Keep a bounded log of completed organization searches for the session
+function recordSearch(session: SessionData, animal: Species, location: Location, organizationCount: number) {
+  const entry = {
+    animal: animal.commonName,
+    location: location.displayName,
+    organizationCount,
+    searchedAt: Date.now()
+  };
+  session.history = [...(session.history ?? []), entry].slice(-CONFIG.session.maxHistoryEntries);
+}
+
+function showOrganizationsWorldwide(context: TransitionContext, animal: Species): Promise<TransitionResult> {
+  console.log(`🌍 WORLDWIDE ORGANIZATIONS requested for ${animal.commonName}`);
+
+  return showOrganizationsFor(
+    context,
+    animal,
+    WORLDWIDE,
+    `${animal.commonName} Conservation Organizations (Worldwide)`,
+    `No specific organizations found. Try searching online for "${animal.commonName} conservation" for local and international groups.`
+  );
+}
+
+// Geocode a place and search organizations there for the selected animal
+async function showOrganizationsNear(
+  context: TransitionContext,
+  animal: Species,
+  query: string,
+  onNotFound: () => TransitionResult
+): Promise<TransitionResult> {
+  const { session, services, emit } = context;
+  const location = await services.geocodeLocation(query);
+
+  if (!location) return onNotFound();
+
+  console.log(`📍 LOCATION SELECTED: ${location.displayName} for ${animal.commonName}`);
+  emit({ stage: 'geocoded', message: `Located ${location.displayName}` });
+  session.location = location;
+
+  if (isNonNative(animal)) return showReportingAgencies(context, animal, location);
+
+  return showOrganizationsFor(
+    context,
+    animal,
+    location,
+    `${animal.commonName} Conservation Organizations in ${location.city || location.state || location.country}`,
+    `No specific organizations found in this area. Try contacting your local wildlife department or searching for "${animal.commonName} conservation ${location.country}".`
+  );
+}
+
+// Introduced and invasive animals get the agencies that track and manage them, not groups protecting them
+function showReportingAgencies(context: TransitionContext, animal: Species, location: Location): TransitionResult {
+  const { session, emit } = context;
+  const agencies = invasiveSpeciesAgencies(location);
+  console.log(`🚫 ${animal.commonName} is ${animal.establishment} near ${location.displayName}: ${agencies.length} reporting agencies`);
+  emit({ stage: 'orgs-found', message: `Found ${agencies.length} agencies to report ${animal.commonName} to`, count: agencies.length });
+
+  session.selectedAnimal = animal;
+  session.step = 'completed';
+  recordSearch(session, animal, location, agencies.length);
+
+  return result(session, {
+    kind: 'reporting-agencies',
+    response: `${formatReportingAgencies(animal, location, agencies)}\n\n---\n\n${formatFollowUpOptions(session)}`,
+    location,
+    animal,
+    organizations: agencies
+  });
+}
+
+// A species chosen from the list; its establishment status holds for the list's location only
+async function showSpeciesOrganizations(context: TransitionContext, species: Species): Promise<TransitionResult> {
+  const { session } = context;
+  const location = session.speciesSearch?.location ?? session.location!;
+  session.location = location;
+  if (isNonNative(species)) return showReportingAgencies(context, species, location);
+
+  const name = species.commonName;
+  return showOrganizationsFor(
+    context,
+    species,
+    location,
+    `${name} Conservation Organizations`,
+    `- Contact your state wildlife department\n- Search for local conservation groups\n\nThese can help you learn how to protect ${name}.`
+  );
+}
+
+// The follow-up options again, when the input after a search is not one of them
+async function showCompletedOptions({ session }: TransitionContext): Promise<TransitionResult> {
+  return result(session, {
+    kind: 'completed',
+    response: formatCompletedOptions(session),
+    location: session.location,
+    animal: session.selectedAnimal,
+    species: session.species?.slice(0, CONFIG.ui.maxDisplayedSpecies)
+  });
+}
+
+export const CHAT_TRANSITIONS: TransitionTable = {
+  initial: {
+    SURPRISE_REQUESTED: surprise,
+    INVASIVE_SPECIES_REQUESTED: invasiveSpecies,
+
+    LOCATION_ENTERED: async (context, event) => {
+      context.emit({ stage: 'classified', message: `Searching for the location "${event.text}"` });
+      context.session.mode = 'location-first';
+      clearInvasiveSpeciesFilter(context.session);
+      return enterLocation(context, event);
+    },
+
+    // Animal-first mode: look the animal up on the web and show worldwide organizations
+    ANIMAL_ENTERED: async (context, event) => {
+      const { session, services, emit } = context;
+      emit({ stage: 'classified', message: `Searching for the animal "${event.text}"` });
+      console.log(`🐾 ANIMAL-FIRST MODE: Searching for "${event.text}"`);
+
+      const animalInfo = await services.lookupAnimal(event.text);
+      emit({ stage: 'animal-info', message: `Looked up ${event.text} on the web` });
+
+      if (!animalInfo) {
+        // Fall back to location mode
+        session.mode = 'location-first';
+        session.step = 'location';
+        return result(session, { kind: 'error', errorType: 'not-an-animal', response: formatNotAnAnimal(event.text) });
+      }
+
+      const organizations = await searchOrganizations(context, event.text, WORLDWIDE.displayName);
+
+      session.mode = 'animal-first';
+      session.step = 'animal-location';
+      session.selectedAnimal = {
+        id: event.text.toLowerCase().replace(/\s+/g, '-'),
+        commonName: event.text,
+        scientificName: 'Unknown',
+        conservationStatus: 'Unknown'
+      };
+
+      return result(session, {
+        kind: 'organizations',
+        response: formatAnimalOverview(event.text, animalInfo, organizations),
+        animal: session.selectedAnimal,
+        organizations
+      });
+    }
+  },
+
+  location: {
+    SURPRISE_REQUESTED: surprise,
+    INVASIVE_SPECIES_REQUESTED: invasiveSpecies,
+    LOCATION_ENTERED: enterLocation
+  },
+
+  disambiguation: {
+    SURPRISE_REQUESTED: surprise,
+    INVASIVE_SPECIES_REQUESTED: invasiveSpecies,
+
+    OPTION_SELECTED: async (context, event) => {
+      const { session, services, emit } = context;
+      const selection = await services.resolveDisambiguation(event.option);
+
+      if (selection.success && selection.location) {
+        emit({ stage: 'geocoded', message: `Located ${selection.location.displayName}` });
+        return showSpeciesForLocation(context, selection.location);
+      }
+
+      session.step = 'location';
+      delete session.disambiguationOptions;
+      return result(session, { kind: 'error', errorType: 'invalid-location', response: INVALID_SELECTION_RETRY_MESSAGE });
+    },
+
+    // Invalid selection - re-show options
+    UNRECOGNIZED_INPUT: async (context) => {
+      const { session } = context;
+      if (!session.disambiguationOptions) return missingLocation(context);
+
+      return result(session, {
+        kind: 'error',
+        errorType: 'invalid-selection',
+        response: formatInvalidSelection(session.disambiguationOptions),
+        disambiguationOptions: session.disambiguationOptions
+      });
+    }
+  },
+
+  'animal-location': {
+    SURPRISE_REQUESTED: surprise,
+    INVASIVE_SPECIES_REQUESTED: invasiveSpecies,
+
+    // User refined the animal (e.g. a subspecies) - search organizations worldwide
+    ANIMAL_ENTERED: async (context, event) => {
+      const animal: Species = { ...context.session.selectedAnimal!, commonName: event.text };
+      console.log(`🐾 REFINED ANIMAL SEARCH: "${event.text}"`);
+
+      return showOrganizationsFor(
+        context,
+        animal,
+        WORLDWIDE,
+        `${animal.commonName} Conservation Organizations`,
+        `No specific organizations found. Try searching online for "${animal.commonName} conservation" for local and international groups.`
+      );
+    },
+
+    WORLDWIDE_REQUESTED: (context) => showOrganizationsWorldwide(context, context.session.selectedAnimal!),
+
+    QUESTION_ASKED: answerQuestion,
+
+    LOCATION_ENTERED: (context, event) => {
+      const animal = context.session.selectedAnimal!;
+      return showOrganizationsNear(context, animal, event.text, () =>
+        result(context.session, { kind: 'error', errorType: 'invalid-location', response: formatAnimalLocationHelp(animal.commonName) })
+      );
+    }
+  },
+
+  animal: {
+    SURPRISE_REQUESTED: surprise,
+    INVASIVE_SPECIES_REQUESTED: invasiveSpecies,
+
+    // New location while choosing an animal: reset and start a fresh location search
+    LOCATION_ENTERED: async (context, event) => {
+      const { session } = context;
+      delete session.location;
+      delete session.species;
+      delete session.disambiguationOptions;
+      clearInvasiveSpeciesFilter(session);
+      return enterLocation(context, event);
+    },
+
+    // "only birds", "threatened species": search the same location again with the new filters
+    FILTERS_CHANGED: (context, event) => showSpeciesForLocation(context, context.session.location!, event.filters),
+
+    MORE_SPECIES_REQUESTED: showMoreSpecies,
+
+    NON_ANIMAL_INPUT: async ({ session }) => {
+      return result(session, {
+        kind: 'error',
+        errorType: 'invalid-animal',
+        response: formatSpeciesReminder(session.location!, session.species!),
+        location: session.location,
+        species: session.species!.slice(0, CONFIG.ui.maxDisplayedSpecies)
+      });
+    },
+
+    SPECIES_SELECTED: (context, event) => showSpeciesOrganizations(context, event.species),
+
+    // Animal not recognized, show available options from the original list ONLY
+    UNRECOGNIZED_INPUT: async (context, event) => {
+      const { session } = context;
+      if (!session.location || !session.species) return missingLocation(context);
+
+      if (session.species.length === 0) {
+        return result(session, { kind: 'error', errorType: 'no-species', response: EMPTY_SPECIES_MESSAGE, location: session.location });
+      }
+
+      return result(session, {
+        kind: 'error',
+        errorType: 'invalid-animal',
+        response: formatAnimalNotInList(event.text, session.location, session.species),
+        location: session.location,
+        species: session.species.slice(0, CONFIG.ui.maxDisplayedSpecies)
+      });
+    }
+  },
+
+  // Follow-up actions after organizations were shown; the step stays 'completed'
+  completed: {
+    SURPRISE_REQUESTED: surprise,
+    INVASIVE_SPECIES_REQUESTED: invasiveSpecies,
+
+    // Another species from the same list
+    SPECIES_SELECTED: (context, event) => showSpeciesOrganizations(context, event.species),
+
+    // Question about the animal that was just searched
+    QUESTION_ASKED: answerQuestion,
+
+    // Same animal in a different place
+    LOCATION_ENTERED: (context, event) => {
+      const { session } = context;
+      return showOrganizationsNear(context, session.selectedAnimal!, event.text, () =>
+        result(session, {
+          kind: 'error',
+          errorType: 'invalid-location',
+          response: `🌍 **I couldn't find "${event.text}".**\n\n${formatCompletedOptions(session)}`
+        })
+      );
+    },
+
+    // Introduced animals have no worldwide organizations to offer; the options are shown again
+    WORLDWIDE_REQUESTED: (context) => isNonNative(context.session.selectedAnimal!)
+      ? showCompletedOptions(context)
+      : showOrganizationsWorldwide(context, context.session.selectedAnimal!),
+
+    UNRECOGNIZED_INPUT: showCompletedOptions
+  }
+};
+
+function speciesNames(species: Species): string[] {
+  return [species.commonName, species.scientificName];
+}
+
+function optionNames(option: DisambiguationOption): Array<string | undefined> {
+  return [option.displayName, option.searchQuery, option.region, option.country];
+}
+
+/**
+ * Whether the input names one of the listed species (used to tell animal names from new locations)
+ */
+function isSpeciesName(input: string, species: Species[]): boolean {
+  return resolveSelection(input, species, speciesNames, { listedCount: 0, fuzzy: false }) !== undefined;
+}
+
+/**
+ * Match user input to a species by list number, ordinal or exact name
+ */
+function matchSpeciesExactly(input: string, species: Species[]): Species | undefined {
+  return resolveSelection(input, species, speciesNames, {
+    listedCount: CONFIG.ui.maxDisplayedSpecies,
+    partial: false,
+    fuzzy: false
+  })?.item;
+}
+
+/**
+ * Match user input against the species list: number, exact, partial, then typo-tolerant names
+ */
+function matchSpecies(input: string, species: Species[]): Species | undefined {
+  return resolveSelection(input, species, speciesNames, { listedCount: CONFIG.ui.maxDisplayedSpecies })?.item;
+}
+
+function matchDisambiguationOption(input: string, options: DisambiguationOption[]): DisambiguationOption | undefined {
+  return resolveSelection(input, options, optionNames)?.item;
+}
+
+function looksLikeLocation(input: string): boolean {
+  const place = findPlace(input);
+  if (place && ['country', 'subdivision', 'protected-area', 'water-body'].includes(place.kind)) return true;
+  return isCoordinateInput(input) || CONFIG.patterns.locationIndicators.some(pattern => pattern.test(input.trim()));
+}
+
+function isNonAnimalInput(input: string): boolean {
+  const nonAnimalInputs = [
+    ...CONFIG.patterns.nonAnimalInputs,
+    new RegExp(`^.{${CONFIG.validation.maxVeryLongMessage},}$`) // Very long messages
+  ];
+  return nonAnimalInputs.some(pattern => pattern.test(input.trim()));
+}
+
+export class ChatStateMachine {
+  constructor(
+    private services: ChatServices,
+    private transitions: TransitionTable = CHAT_TRANSITIONS
+  ) {}
+
+  /**
+   * Interpret a raw user message as an event for the session's current step
+   */
+  async interpret(session: SessionData, message: string): Promise<ChatEvent> {
+    const text = message.trim();
+
+    if (text.toLowerCase().includes('surprise')) {
+      return { type: 'SURPRISE_REQUESTED', text };
+    }
+
+    const invasive = parseInvasiveSpeciesRequest(text);
+    if (invasive) return { type: 'INVASIVE_SPECIES_REQUESTED', text, place: invasive.place };
+
+    switch (session.step) {
+      case 'initial': {
+        const classification = await this.services.classifyInput(text);
+        console.log(`🤖 CLASSIFICATION RESULT: ${classification}`);
+        return classification === 'ANIMAL'
+          ? { type: 'ANIMAL_ENTERED', text }
+          : { type: 'LOCATION_ENTERED', text };
+      }
+
+      case 'location':
+        return { type: 'LOCATION_ENTERED', text };
+
+      case 'disambiguation': {
+        const option = session.disambiguationOptions && matchDisambiguationOption(text, session.disambiguationOptions);
+        return option ? { type: 'OPTION_SELECTED', option } : { type: 'UNRECOGNIZED_INPUT', text };
+      }
+
+      case 'animal-location': {
+        if (!session.selectedAnimal) return { type: 'UNRECOGNIZED_INPUT', text };
+
+        if (isFollowUpQuestion(text)) return { type: 'QUESTION_ASKED', text };
+
+        const refinement = await this.services.classifyRefinement(session.selectedAnimal.commonName, text);
+        console.log(`🔍 REFINEMENT CHECK: "${text}" classified as ${refinement}`);
+        if (refinement === 'ANIMAL') return { type: 'ANIMAL_ENTERED', text };
+
+        const lowerText = text.toLowerCase();
+        if (lowerText.includes('worldwide') || lowerText.includes('all location')) {
+          return { type: 'WORLDWIDE_REQUESTED' };
+        }
+        return { type: 'LOCATION_ENTERED', text };
+      }
+
+      case 'animal': {
+        if (!session.location || !session.species) return { type: 'UNRECOGNIZED_INPUT', text };
+
+        // List numbers ("2", "the last one") and exact names come before any other interpretation
+        const listed = matchSpeciesExactly(text, session.species);
+        if (listed) return { type: 'SPECIES_SELECTED', species: listed };
+
+        if (isMoreSpeciesRequest(text)) return { type: 'MORE_SPECIES_REQUESTED' };
+
+        // Filter requests are made only of filter words, so species names never match
+        const filters = !isSpeciesName(text, session.species) && parseSpeciesFilters(text, session.speciesSearch?.filters, session.location);
+        if (filters) return { type: 'FILTERS_CHANGED', filters };
+
+        // Only explicit location patterns count, and never a name from the species list
+        if (looksLikeLocation(text) && !isSpeciesName(text, session.species)) {
+          return { type: 'LOCATION_ENTERED', text };
+        }
+
+        if (isNonAnimalInput(text)) return { type: 'NON_ANIMAL_INPUT', text };
+
+        const species = matchSpecies(text, session.species);
+        return species ? { type: 'SPECIES_SELECTED', species } : { type: 'UNRECOGNIZED_INPUT', text };
+      }
+
+      case 'completed': {
+        const species = session.species ?? [];
+        const lowerText = text.toLowerCase();
+
+        const exactSpecies = matchSpeciesExactly(text, species);
+        if (exactSpecies) return { type: 'SPECIES_SELECTED', species: exactSpecies };
+
+        // Questions go before the non-animal check, which rejects "what ..." and "how ..."
+        if (session.selectedAnimal && isFollowUpQuestion(text)) return { type: 'QUESTION_ASKED', text };
+
+        if (!session.selectedAnimal || isNonAnimalInput(text)) return { type: 'UNRECOGNIZED_INPUT', text };
+
+        if (lowerText.includes('worldwide') || lowerText.includes('all location')) {
+          return { type: 'WORLDWIDE_REQUESTED' };
+        }
+
+        if (looksLikeLocation(text)) return { type: 'LOCATION_ENTERED', text };
+
+        const partialSpecies = session.location ? matchSpecies(text, species) : undefined;
+        if (partialSpecies) return { type: 'SPECIES_SELECTED', species: partialSpecies };
+
+        // A known place name is searched for the same animal; "ok" or "great" gets the options again
+        if (findPlace(text)) return { type: 'LOCATION_ENTERED', text };
+        return { type: 'UNRECOGNIZED_INPUT', text };
+      }
+    }
+  }
+
+  /**
+   * Apply an event to a session. The input session is not modified.
+   */
+  async transition(session: SessionData, event: ChatEvent, emit: ChatProgressEmitter = noopProgressEmitter): Promise<TransitionResult> {
+    const context: TransitionContext = { session: { ...session }, services: this.services, emit };
+    const handler = this.transitions[session.step][event.type] as TransitionHandler | undefined;
+
+    if (!handler) {
+      console.log(`⚠️ NO TRANSITION for ${event.type} in step ${session.step}`);
+      return missingLocation(context);
+    }
+
+    return handler(context, event);
+  }
+
+  /**
+   * Interpret a message and apply the resulting transition
+   */
+  async handleMessage(session: SessionData, message: string, emit: ChatProgressEmitter = noopProgressEmitter): Promise<TransitionResult> {
+    const event = await this.interpret(session, message);
+    console.log(`🔀 TRANSITION: ${session.step} + ${event.type}`);
+    return this.transition(session, event, emit);
+  }
+
+  /**
+   * Apply a location from the search form. The form starts a new location-first
+   * search whatever step the session was in.
+   */
+  async handleStructuredLocation(session: SessionData, fields: StructuredLocationInput, emit: ChatProgressEmitter = noopProgressEmitter): Promise<TransitionResult> {
+    const event: ChatEvent = { type: 'LOCATION_ENTERED', text: structuredQueryText(fields), fields };
+    console.log(`🔀 TRANSITION: ${session.step} + ${event.type} (form)`);
+    return this.transition({ ...session, step: 'initial' }, event, emit);
+  }
+}
@@ -14,6 +14,119 @@ export const CONFIG = {
     maxDisplayedOrganizations: Number(process.env.MAX_DISPLAYED_ORGANIZATIONS) || 5,
   },
 
+  // Chat session storage
+  session: {
+    backend: (process.env.SESSION_STORE_BACKEND || 'memory') as 'memory' | 'file',
+    ttlMs: Number(process.env.SESSION_TTL_MS) || 2 * 60 * 60 * 1000, // 2 hours since last write
+    maxEntries: Number(process.env.SESSION_MAX_ENTRIES) || 1000,
+    maxSessionBytes: Number(process.env.SESSION_MAX_BYTES) || 256 * 1024, // 256 KB per serialized session
+    fileDirectory: process.env.SESSION_STORE_DIR || '.sessions',
+    maxHistoryEntries: Number(process.env.SESSION_MAX_HISTORY) || 20, // completed searches kept per session
+  },
+
+  // Local ANIMAL vs LOCATION classifier (LLM is only used below these limits)
+  classifier: {
+    confidenceThreshold: Number(process.env.CLASSIFIER_CONFIDENCE_THRESHOLD) || 0.75,
+    minMargin: Number(process.env.CLASSIFIER_MIN_MARGIN) || 0.2, // required lead over the other class
+    llmFallback: process.env.CLASSIFIER_LLM_FALLBACK !== 'false',
+    taxonCacheTtlMs: Number(process.env.TAXON_CACHE_TTL_MS) || 24 * 60 * 60 * 1000, // 1 day
+    taxonCacheMaxEntries: Number(process.env.TAXON_CACHE_MAX_ENTRIES) || 500,
+  },
+
+  // "Surprise me" random threatened species (relative weights, higher = more likely)
+  randomSpecies: {
+    categoryWeights: { CR: 1, EN: 1, VU: 1 },
+    classWeights: { mammal: 3, bird: 3, reptile: 2, amphibian: 2, fish: 1, shark: 1, insect: 1 },
+    regionWeights: {
+      AFRICA: 2, ASIA: 2, SOUTH_AMERICA: 2, NORTH_AMERICA: 1, EUROPE: 1, OCEANIA: 1.5
+    },
+    speciesPerQuery: Number(process.env.RANDOM_SPECIES_POOL_SIZE) || 50, // species facet size per GBIF query
+    maxAttempts: 4,
+  },
+
+  // Token-bucket rate limits per route class, applied per client IP and per session
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    routes: {
+      // /api/chat and /api/recommendation - paid OpenAI calls
+      chat: {
+        capacity: Number(process.env.RATE_LIMIT_CHAT_BURST) || 8,
+        refillPerMinute: Number(process.env.RATE_LIMIT_CHAT_PER_MINUTE) || 6,
+      },
+      // /api/gbif/*, /api/inat/*, /api/iucn/* upstream proxies
+      proxy: {
+        capacity: Number(process.env.RATE_LIMIT_PROXY_BURST) || 30,
+        refillPerMinute: Number(process.env.RATE_LIMIT_PROXY_PER_MINUTE) || 60,
+      },
+    },
+    maxTrackedKeys: Number(process.env.RATE_LIMIT_MAX_KEYS) || 10000,
+    // Proxies in front of the app that append to x-forwarded-for (Vercel and Railway: 1).
+    // Entries to their left were sent by the client and are not trusted; 0 ignores the header.
+    trustedProxies: process.env.RATE_LIMIT_TRUSTED_PROXIES !== undefined ? Number(process.env.RATE_LIMIT_TRUSTED_PROXIES) : 1,
+    // Shared secret that exempts the app's own server-side proxy calls. Required in
+    // production, where requests may reach another instance; random per process otherwise.
+    internalSecret: process.env.INTERNAL_API_SECRET || '',
+  },
+
+  // Geocoding. Providers are tried in order until one finds the place:
+  // "nominatim" (OpenStreetMap), "photon" (komoot) and "offline" (bundled gazetteer).
+  // Nominatim's usage policy allows at most 1 request per second and asks for caching.
+  geocoding: {
+    providers: (process.env.GEOCODER_PROVIDERS || 'nominatim,offline')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean),
+    photonBaseUrl: process.env.PHOTON_BASE_URL || 'https://photon.komoot.io',
+    userAgent: process.env.NOMINATIM_USER_AGENT || 'ConservationAgent/1.0 (wildlife conservation education tool)',
+    minIntervalMs: Number(process.env.GEOCODE_MIN_INTERVAL_MS) || 1100,
+    searchLimit: Number(process.env.GEOCODE_SEARCH_LIMIT) || 8, // candidates fetched (and cached) per query
+    cacheBackend: (process.env.GEOCODE_CACHE_BACKEND || 'file') as 'memory' | 'file',
+    cacheDirectory: process.env.GEOCODE_CACHE_DIR || '.geocode-cache',
+    cacheTtlMs: Number(process.env.GEOCODE_CACHE_TTL_MS) || 30 * 24 * 60 * 60 * 1000, // 30 days
+    missTtlMs: Number(process.env.GEOCODE_MISS_TTL_MS) || 60 * 60 * 1000, // 1 hour for "not found"
+    cacheMaxEntries: Number(process.env.GEOCODE_CACHE_MAX_ENTRIES) || 5000,
+    polygonThreshold: Number(process.env.GEOCODE_POLYGON_THRESHOLD) || 0.01, // degrees of outline simplification
+  },
+
+  // Area searched for species around a place
+  speciesSearch: {
+    // Used only when the geocoder gave no extent for the place
+    fallbackRadiusKm: { city: 50, region: 500 },
+    minExtentKm: Number(process.env.SPECIES_SEARCH_MIN_EXTENT_KM) || 20, // small villages still get a useful area
+    maxPolygonLength: Number(process.env.SPECIES_SEARCH_MAX_POLYGON_LENGTH) || 4000, // longer WKT falls back to the bounding box
+  },
+
+  // Local observation trends: how often a species is recorded among all observations in the area
+  observationTrends: {
+    years: Number(process.env.OBSERVATION_TREND_YEARS) || 15, // full years counted, ending last year
+    minYears: Number(process.env.OBSERVATION_TREND_MIN_YEARS) || 5, // years with observations needed for a trend
+    minRecords: Number(process.env.OBSERVATION_TREND_MIN_RECORDS) || 20, // species records needed for a trend
+    stableChangePerYear: Number(process.env.OBSERVATION_TREND_STABLE_CHANGE) || 0.05, // smaller yearly change is "stable"
+  },
+
+  // iNaturalist iconic taxa species searches cover, by location type.
+  // "Animalia" is iNaturalist's group for sharks, corals, crustaceans and other invertebrates.
+  iconicTaxa: {
+    land: 'Mammalia,Aves,Reptilia,Amphibia',
+    marine: 'Actinopterygii,Mammalia,Reptilia,Mollusca,Animalia',
+    freshwater: 'Actinopterygii,Amphibia,Reptilia,Mammalia,Mollusca'
+  },
+
+  // Location disambiguation from geocoder candidates
+  disambiguation: {
+    maxOptions: Number(process.env.DISAMBIGUATION_MAX_OPTIONS) || 4,
+    minImportanceRatio: Number(process.env.DISAMBIGUATION_IMPORTANCE_RATIO) || 0.6, // vs. the top result
+    minDistanceKm: Number(process.env.DISAMBIGUATION_MIN_DISTANCE_KM) || 100, // closer same-country results are one place
+    maxPlaceRank: 20, // ignore streets, buildings and other results below village level
+  },
+
+  // User-supplied coordinates
+  geolocation: {
+    // Decimal places kept from typed or browser coordinates before lookup or storage
+    // (2 is about 1 km); unset keeps full precision
+    coordinatePrecision: process.env.COORDINATE_PRECISION ? Number(process.env.COORDINATE_PRECISION) : undefined,
+  },
+
   // Input validation limits
   validation: {
     minLocationLength: Number(process.env.MIN_LOCATION_LENGTH) || 2,
@@ -22,44 +135,6 @@ export const CONFIG = {
     minAnimalNameLength: Number(process.env.MIN_ANIMAL_NAME_LENGTH) || 3,
   },
 
-  // Geographic data
-  locations: {
-    countries: [
-      'united states', 'usa', 'canada', 'mexico', 'united kingdom', 'uk',
-      'australia', 'brazil', 'germany', 'france', 'spain', 'italy', 'japan',
-      'china', 'india', 'nepal', 'bangladesh', 'pakistan', 'afghanistan',
-      'thailand', 'vietnam', 'cambodia', 'laos', 'myanmar', 'malaysia',
-      'singapore', 'indonesia', 'philippines', 'south korea', 'north korea',
-      'mongolia', 'russia', 'turkey', 'egypt', 'nigeria', 'kenya', 'ethiopia',
-      'ghana', 'morocco', 'algeria', 'tunisia', 'israel', 'saudi arabia',
-      'uae', 'iran', 'iraq', 'south africa', 'argentina', 'chile', 'colombia',
-      'peru', 'venezuela', 'ecuador', 'bolivia', 'paraguay', 'uruguay',
-      'netherlands', 'belgium', 'switzerland', 'austria', 'poland', 'czech republic',
-      'hungary', 'romania', 'bulgaria', 'croatia', 'serbia', 'greece', 'sweden',
-      'norway', 'denmark', 'finland'
-    ],
-
-    usStates: [
-      'alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado',
-      'connecticut', 'delaware', 'florida', 'georgia', 'hawaii', 'idaho',
-      'illinois', 'indiana', 'iowa', 'kansas', 'kentucky', 'louisiana',
-      'maine', 'maryland', 'massachusetts', 'michigan', 'minnesota',
-      'mississippi', 'missouri', 'montana', 'nebraska', 'nevada',
-      'new hampshire', 'new jersey', 'new mexico', 'new york', 'north carolina',
-      'north dakota', 'ohio', 'oklahoma', 'oregon', 'pennsylvania',
-      'rhode island', 'south carolina', 'south dakota', 'tennessee',
-      'texas', 'utah', 'vermont', 'virginia', 'washington', 'west virginia',
-      'wisconsin', 'wyoming'
-    ],
-
-    canadianProvinces: [
-      'alberta', 'british columbia', 'manitoba', 'new brunswick',
-      'newfoundland and labrador', 'northwest territories', 'nova scotia',
-      'nunavut', 'ontario', 'prince edward island', 'quebec', 'saskatchewan',
-      'yukon', 'yukon territory'
-    ]
-  },
-
   // Common animal names for validation
   animals: {
     commonNames: [
@@ -126,21 +201,6 @@ export const CONFIG = {
 };
 
 // Helper functions for dynamic pattern generation
-export function createCountryPattern(): RegExp {
-  const countries = CONFIG.locations.countries.join('|');
-  return new RegExp(`^(${countries})$`, 'i');
-}
-
-export function createStatePattern(): RegExp {
-  const states = CONFIG.locations.usStates.join('|');
-  return new RegExp(`^(${states})$`, 'i');
-}
-
-export function createProvincePattern(): RegExp {
-  const provinces = CONFIG.locations.canadianProvinces.join('|');
-  return new RegExp(`^(${provinces})$`, 'i');
-}
-
 export function createAnimalPattern(): RegExp {
   const animals = CONFIG.animals.commonNames.join('|');
   return new RegExp(`^(${animals})$`, 'i');
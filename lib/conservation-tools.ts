@@ -1,10 +1,44 @@
+import type { GeocodeCandidate, StructuredGeocodeQuery } from './geocoding-service';
+import { countryCodeFor, findCountry, findSubdivision } from './country-registry';
+import { geocoder } from './geocoder';
+import type { SpeciesFilters } from './species-filters';
+import type { EstablishmentStatus } from './establishment-status';
+
+// Geocoder extent of a place, in degrees
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
 export interface Location {
   lat: number;
   lon: number;
   city?: string;
   state?: string;
   country?: string;
+  countryCode?: string; // ISO 3166-1 alpha-2, when the geocoder reports it
   displayName: string;
+  boundingBox?: BoundingBox;
+  // Simplified WKT POLYGON/MULTIPOLYGON outline, when the geocoder has a small enough one
+  polygon?: string;
+  // Set when the location is a protected area or natural feature; species searches stay inside it
+  namedArea?: NamedArea;
+  // Set for seas, lakes and other water bodies; species searches then cover aquatic taxa
+  waterType?: WaterType;
+}
+
+export type WaterType = 'marine' | 'freshwater';
+
+// A national park, reserve, wetland or similar named area
+export interface NamedArea {
+  name: string;
+  kind: 'protected-area' | 'natural-feature';
+  designation?: string; // "National Park", "Ramsar Site", "Lake"
+  iucnCategory?: string; // IUCN management category ("II")
+  managingAuthority?: string;
+  authorityWebsite?: string;
 }
 
 export interface Species {
@@ -16,6 +50,8 @@ export interface Species {
   imageUrl?: string;
   habitat?: string;
   source?: string;
+  // Native, introduced or invasive at the location the species was listed for
+  establishment?: EstablishmentStatus;
 }
 
 export interface Organization {
@@ -23,84 +59,107 @@ export interface Organization {
   website?: string;
 }
 
-export async function geocodeLocation(locationQuery: string): Promise<Location | null> {
-  try {
-    console.log(`🗺️ GEOCODING STARTED for: "${locationQuery}"`);
-
-    // Clean and normalize the location query
-    const cleanQuery = locationQuery.trim();
-
-    // Add country-specific improvements for better geocoding
-    let searchQuery = cleanQuery;
-
-    // For common country names, make them more explicit
-    const countryMappings: { [key: string]: string } = {
-      'nepal': 'Federal Democratic Republic of Nepal',
-      'india': 'Republic of India',
-      'bangladesh': 'People\'s Republic of Bangladesh',
-      'pakistan': 'Islamic Republic of Pakistan',
-      'thailand': 'Kingdom of Thailand',
-      'vietnam': 'Socialist Republic of Vietnam',
-      'cambodia': 'Kingdom of Cambodia',
-      'myanmar': 'Republic of the Union of Myanmar',
-      'laos': 'Lao People\'s Democratic Republic'
-    };
+/**
+ * Geocoder matches for a query, most relevant first, from the first provider in
+ * the configured chain that finds it. Country names (in any language the country
+ * registry knows) only return the country itself.
+ */
+export async function geocodeCandidates(locationQuery: string, limit: number = 3): Promise<GeocodeCandidate[]> {
+  console.log(`🗺️ GEOCODING STARTED for: "${locationQuery}"`);
 
-    const lowerQuery = cleanQuery.toLowerCase();
-    if (countryMappings[lowerQuery]) {
-      searchQuery = countryMappings[lowerQuery];
-    }
+  // Clean and normalize the location query
+  const cleanQuery = locationQuery.trim();
+  const country = findCountry(cleanQuery);
 
-    const encodedQuery = encodeURIComponent(searchQuery);
-    console.log(`Geocoding query: "${cleanQuery}" -> "${searchQuery}"`);
+  // Search countries by their English name, so "Alemania" or "USA" geocodes the same
+  // as "Germany" or "United States"
+  const searchQuery = country?.name ?? cleanQuery;
+  console.log(`Geocoding query: "${cleanQuery}" -> "${searchQuery}"`);
 
-    const url = `https://nominatim.openstreetmap.org/search?q=${encodedQuery}&format=json&limit=3&addressdetails=1&countrycodes=&accept-language=en`;
+  const results = await geocoder.search(searchQuery);
 
-    console.log(`🌐 FETCHING from OpenStreetMap Nominatim:`, url);
+  if (results.length === 0) {
+    console.warn(`❌ GEOCODING FAILED: No results found for "${cleanQuery}"`);
+    return [];
+  }
 
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'ConservationAgent/1.0'
-      }
-    });
+  // Prefer country-level results for country names
+  let candidates = results.slice(0, limit);
+  if (country) {
+    const countryResult = results.find(result =>
+      (result.placeType === 'country' || result.placeRank <= 4) && countryCodeFor(result.location) === country.alpha2
+    ) ?? results.find(result => result.placeType === 'country' || result.placeRank <= 4);
+    candidates = [countryResult || results[0]];
+  }
 
-    if (!response.ok) {
-      throw new Error(`Geocoding failed: ${response.status}`);
-    }
+  console.log(`✅ GEOCODING SUCCESS: "${cleanQuery}" → ${candidates.map(candidate => candidate.location.displayName).join(' | ')}`);
+  return candidates;
+}
 
-    const data = await response.json();
+/**
+ * Geocoder matches for a place given field by field (city, state, country), most
+ * relevant first. Registry names replace aliases and codes ("USA", "FL"), and a
+ * known country restricts the search to it.
+ */
+export async function geocodeStructured(query: StructuredGeocodeQuery, limit: number = 3): Promise<GeocodeCandidate[]> {
+  const country = findCountry(query.country);
+  const state = country && query.state && findSubdivision(query.state, country.alpha2);
+  const structuredQuery: StructuredGeocodeQuery = {
+    city: query.city?.trim() || undefined,
+    state: state ? state.name : query.state?.trim() || undefined,
+    country: country?.name ?? query.country.trim(),
+    countryCode: country?.alpha2
+  };
+  console.log(`🗺️ STRUCTURED GEOCODING STARTED for:`, structuredQuery);
 
-    if (!data || data.length === 0) {
-      console.warn(`❌ GEOCODING FAILED: No results found for "${cleanQuery}"`);
-      return null;
-    }
+  const results = await geocoder.searchStructured(structuredQuery);
+  if (results.length === 0) {
+    console.warn(`❌ STRUCTURED GEOCODING FAILED: No results found for`, structuredQuery);
+    return [];
+  }
 
-    // Prefer country-level results for country names
-    let selectedResult = data[0];
-    if (countryMappings[lowerQuery]) {
-      const countryResult = data.find((result: any) => result.type === 'administrative' && result.place_rank <= 8);
-      if (countryResult) {
-        selectedResult = countryResult;
-      }
-    }
+  // A country on its own should resolve to the country, not a same-named town in it
+  const candidates = structuredQuery.city || structuredQuery.state
+    ? results.slice(0, limit)
+    : [results.find(result => result.placeType === 'country' || result.placeRank <= 4) ?? results[0]];
 
-    console.log(`✅ GEOCODING SUCCESS: "${cleanQuery}" → ${selectedResult.display_name}`);
+  console.log(`✅ STRUCTURED GEOCODING SUCCESS: ${candidates.map(candidate => candidate.location.displayName).join(' | ')}`);
+  return candidates;
+}
 
-    return {
-      lat: parseFloat(selectedResult.lat),
-      lon: parseFloat(selectedResult.lon),
-      city: selectedResult.address?.city || selectedResult.address?.town || selectedResult.address?.village,
-      state: selectedResult.address?.state,
-      country: selectedResult.address?.country,
-      displayName: selectedResult.display_name
-    };
+export async function geocodeLocation(locationQuery: string): Promise<Location | null> {
+  try {
+    const candidates = await geocodeCandidates(locationQuery);
+    return candidates[0]?.location ?? null;
   } catch (error) {
     console.error('Geocoding error:', error);
     return null;
   }
 }
 
-export async function findSpeciesByLocation(location: Location): Promise<Species[]> {
+/**
+ * Look up the city, state and country for a coordinate pair. The returned
+ * location keeps the given coordinates rather than the matched feature's centre.
+ */
+export async function reverseGeocode(lat: number, lon: number): Promise<Location | null> {
+  try {
+    console.log(`🗺️ REVERSE GEOCODING STARTED for: ${lat}, ${lon}`);
+
+    const location = await geocoder.reverse(lat, lon);
+    if (!location) {
+      console.warn(`❌ REVERSE GEOCODING FAILED: No place found at ${lat}, ${lon}`);
+      return null;
+    }
+
+    console.log(`✅ REVERSE GEOCODING SUCCESS: ${lat}, ${lon} → ${location.displayName}`);
+    return location;
+  } catch (error) {
+    console.error('Reverse geocoding error:', error);
+    return null;
+  }
+}
+
+export async function findSpeciesByLocation(location: Location, filters?: SpeciesFilters): Promise<Species[]> {
   try {
     const locationName = location.city || location.state || location.country || 'this location';
     console.log(`Searching for wildlife in ${locationName} using real iNaturalist and GBIF APIs`);
@@ -109,7 +168,7 @@ export async function findSpeciesByLocation(location: Location): Promise<Species
     const { wildlifeDataService } = await import('./wildlife-data-service');
 
     // Get species data from both APIs
-    const normalizedSpecies = await wildlifeDataService.getSpeciesForLocation(location, 12);
+    const normalizedSpecies = await wildlifeDataService.getSpeciesForLocation(location, 12, filters);
 
     // Convert normalized species to legacy Species format
     const species: Species[] = normalizedSpecies.map((ns, index) => ({
@@ -120,7 +179,8 @@ export async function findSpeciesByLocation(location: Location): Promise<Species
       description: `Found in ${locationName} with ${ns.observationCount} recent observation${ns.observationCount !== 1 ? 's' : ''}`,
       imageUrl: ns.imageUrl,
       habitat: ns.habitat || 'Local habitat',
-      source: ns.source
+      source: ns.source,
+      establishment: ns.establishment
     }));
 
     console.log(`Found ${species.length} endangered species from real API data for ${locationName}`);
@@ -482,116 +542,6 @@ async function enhanceWithIUCNStatus(species: Species[]): Promise<Species[]> {
 
 // Removed complex IUCN habitat-based search function - using simplified GBIF approach instead
 
-function getIUCNCountryCode(location: Location): string | null {
-  const country = location.country?.toLowerCase();
-  const displayName = location.displayName?.toLowerCase();
-
-  // Map common country names to ISO alpha-2 codes for IUCN API
-  const countryMap: { [key: string]: string } = {
-    'united states': 'US',
-    'usa': 'US',
-    'us': 'US',
-    'america': 'US',
-    'canada': 'CA',
-    'mexico': 'MX',
-    'united kingdom': 'GB',
-    'uk': 'GB',
-    'britain': 'GB',
-    'england': 'GB',
-    'australia': 'AU',
-    'brazil': 'BR',
-    'india': 'IN',
-    'china': 'CN',
-    'japan': 'JP',
-    'germany': 'DE',
-    'france': 'FR',
-    'spain': 'ES',
-    'italy': 'IT',
-    'russia': 'RU',
-    'nepal': 'NP',
-    'south africa': 'ZA',
-    'argentina': 'AR',
-    'chile': 'CL',
-    'colombia': 'CO',
-    'peru': 'PE',
-    'venezuela': 'VE',
-    'ecuador': 'EC',
-    'bolivia': 'BO',
-    'paraguay': 'PY',
-    'uruguay': 'UY',
-    'netherlands': 'NL',
-    'belgium': 'BE',
-    'switzerland': 'CH',
-    'austria': 'AT',
-    'poland': 'PL',
-    'czech republic': 'CZ',
-    'hungary': 'HU',
-    'romania': 'RO',
-    'bulgaria': 'BG',
-    'croatia': 'HR',
-    'serbia': 'RS',
-    'greece': 'GR',
-    'turkey': 'TR',
-    'egypt': 'EG',
-    'nigeria': 'NG',
-    'kenya': 'KE',
-    'ethiopia': 'ET',
-    'ghana': 'GH',
-    'morocco': 'MA',
-    'algeria': 'DZ',
-    'tunisia': 'TN',
-    'israel': 'IL',
-    'saudi arabia': 'SA',
-    'uae': 'AE',
-    'iran': 'IR',
-    'iraq': 'IQ',
-    'afghanistan': 'AF',
-    'pakistan': 'PK',
-    'bangladesh': 'BD',
-    'sri lanka': 'LK',
-    'myanmar': 'MM',
-    'thailand': 'TH',
-    'vietnam': 'VN',
-    'cambodia': 'KH',
-    'laos': 'LA',
-    'malaysia': 'MY',
-    'singapore': 'SG',
-    'indonesia': 'ID',
-    'philippines': 'PH',
-    'south korea': 'KR',
-    'north korea': 'KP',
-    'mongolia': 'MN',
-    'kazakhstan': 'KZ',
-    'uzbekistan': 'UZ',
-    'new zealand': 'NZ'
-  };
-
-  // Check country field first
-  if (country) {
-    for (const [name, code] of Object.entries(countryMap)) {
-      if (country.includes(name)) {
-        return code;
-      }
-    }
-  }
-
-  // Check display name for country information
-  if (displayName) {
-    for (const [name, code] of Object.entries(countryMap)) {
-      if (displayName.includes(name)) {
-        return code;
-      }
-    }
-  }
-
-  // Default to US if we can't determine the country but it seems to be in the US
-  if (location.state || (displayName && displayName.includes('united states'))) {
-    return 'US';
-  }
-
-  return null;
-}
-
 function getFullConservationStatus(category: string): string {
   const statusMap: { [key: string]: string } = {
     'CR': 'Critically Endangered',
@@ -681,136 +631,6 @@ function generateCommonName(scientificName: string): string {
   return formatSpeciesName(scientificName);
 }
 
-function getCountryCode(location: Location): string | null {
-  const country = location.country?.toLowerCase();
-  if (country?.includes('united states') || country?.includes('usa')) return 'US';
-  if (country?.includes('canada')) return 'CA';
-  if (country?.includes('mexico')) return 'MX';
-  return null;
-}
-
-function getGBIFCountryCode(location: Location): string | null {
-  const country = location.country?.toLowerCase() || '';
-  const displayName = location.displayName?.toLowerCase() || '';
-
-  // GBIF uses ISO 3166-1 alpha-2 country codes
-  const countryMap: { [key: string]: string } = {
-    'united states': 'US',
-    'usa': 'US',
-    'us': 'US',
-    'america': 'US',
-    'canada': 'CA',
-    'mexico': 'MX',
-    'united kingdom': 'GB',
-    'uk': 'GB',
-    'britain': 'GB',
-    'england': 'GB',
-    'scotland': 'GB',
-    'wales': 'GB',
-    'australia': 'AU',
-    'brazil': 'BR',
-    'india': 'IN',
-    'china': 'CN',
-    'japan': 'JP',
-    'germany': 'DE',
-    'france': 'FR',
-    'spain': 'ES',
-    'italy': 'IT',
-    'russia': 'RU',
-    'nepal': 'NP',
-    'south africa': 'ZA',
-    'argentina': 'AR',
-    'chile': 'CL',
-    'colombia': 'CO',
-    'peru': 'PE',
-    'venezuela': 'VE',
-    'ecuador': 'EC',
-    'bolivia': 'BO',
-    'paraguay': 'PY',
-    'uruguay': 'UY',
-    'netherlands': 'NL',
-    'belgium': 'BE',
-    'switzerland': 'CH',
-    'austria': 'AT',
-    'poland': 'PL',
-    'czech republic': 'CZ',
-    'czechia': 'CZ',
-    'hungary': 'HU',
-    'romania': 'RO',
-    'bulgaria': 'BG',
-    'croatia': 'HR',
-    'serbia': 'RS',
-    'greece': 'GR',
-    'turkey': 'TR',
-    'egypt': 'EG',
-    'nigeria': 'NG',
-    'kenya': 'KE',
-    'ethiopia': 'ET',
-    'ghana': 'GH',
-    'morocco': 'MA',
-    'algeria': 'DZ',
-    'tunisia': 'TN',
-    'israel': 'IL',
-    'saudi arabia': 'SA',
-    'uae': 'AE',
-    'iran': 'IR',
-    'iraq': 'IQ',
-    'afghanistan': 'AF',
-    'pakistan': 'PK',
-    'bangladesh': 'BD',
-    'sri lanka': 'LK',
-    'myanmar': 'MM',
-    'thailand': 'TH',
-    'vietnam': 'VN',
-    'cambodia': 'KH',
-    'laos': 'LA',
-    'malaysia': 'MY',
-    'singapore': 'SG',
-    'indonesia': 'ID',
-    'philippines': 'PH',
-    'south korea': 'KR',
-    'north korea': 'KP',
-    'mongolia': 'MN',
-    'kazakhstan': 'KZ',
-    'uzbekistan': 'UZ',
-    'new zealand': 'NZ',
-    'norway': 'NO',
-    'sweden': 'SE',
-    'finland': 'FI',
-    'denmark': 'DK',
-    'iceland': 'IS'
-  };
-
-  // Check country field first
-  if (country) {
-    for (const [name, code] of Object.entries(countryMap)) {
-      if (country.includes(name)) {
-        return code;
-      }
-    }
-  }
-
-  // Check display name
-  if (displayName) {
-    for (const [name, code] of Object.entries(countryMap)) {
-      if (displayName.includes(name)) {
-        return code;
-      }
-    }
-  }
-
-  // For US states, return US
-  if (location.state) {
-    const stateNames = ['alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware', 'florida', 'georgia', 'hawaii', 'idaho', 'illinois', 'indiana', 'iowa', 'kansas', 'kentucky', 'louisiana', 'maine', 'maryland', 'massachusetts', 'michigan', 'minnesota', 'mississippi', 'missouri', 'montana', 'nebraska', 'nevada', 'new hampshire', 'new jersey', 'new mexico', 'new york', 'north carolina', 'north dakota', 'ohio', 'oklahoma', 'oregon', 'pennsylvania', 'rhode island', 'south carolina', 'south dakota', 'tennessee', 'texas', 'utah', 'vermont', 'virginia', 'washington', 'west virginia', 'wisconsin', 'wyoming'];
-    const stateLower = location.state.toLowerCase();
-    if (stateNames.some(state => stateLower.includes(state))) {
-      return 'US';
-    }
-  }
-
-  return null;
-}
-
 export async function getSpeciesInfo(species: Species): Promise<Species> {
   try {
     // Get Wikipedia summary and image
@@ -1215,10 +1035,10 @@ Focus on official government agencies only (not NGOs). Verify they have official
 }
 
 function getHardcodedGovernmentAgencies(location: Location): Organization[] {
-  const country = location.country?.toLowerCase() || location.displayName.toLowerCase();
+  const countryCode = countryCodeFor(location);
 
   // Singapore
-  if (country.includes('singapore')) {
+  if (countryCode === 'SG') {
     return [
       {
         name: 'National Parks Board (NParks)',
@@ -1236,7 +1056,7 @@ function getHardcodedGovernmentAgencies(location: Location): Organization[] {
   }
 
   // United States
-  if (country.includes('united states') || country.includes('usa') || country.includes('america')) {
+  if (countryCode === 'US') {
     const stateName = location.state || 'your state';
     return [
       {
@@ -1255,7 +1075,7 @@ function getHardcodedGovernmentAgencies(location: Location): Organization[] {
   }
 
   // Canada
-  if (country.includes('canada')) {
+  if (countryCode === 'CA') {
     return [
       {
         name: 'Environment and Climate Change Canada',
@@ -1269,7 +1089,7 @@ function getHardcodedGovernmentAgencies(location: Location): Organization[] {
   }
 
   // United Kingdom
-  if (country.includes('united kingdom') || country.includes('england') || country.includes('scotland') || country.includes('wales')) {
+  if (countryCode === 'GB') {
     return [
       {
         name: 'Natural England',
@@ -1283,7 +1103,7 @@ function getHardcodedGovernmentAgencies(location: Location): Organization[] {
   }
 
   // Australia
-  if (country.includes('australia')) {
+  if (countryCode === 'AU') {
     return [
       {
         name: 'Department of Climate Change, Energy, the Environment and Water',
@@ -1389,23 +1209,6 @@ function getHabitatsForLocation(location: Location): string[] {
   return habitats;
 }
 
-function isStateOrCountryLocation(location: Location): boolean {
-  // Determine if this is a state/country-level search vs city-level
-  // State/country searches need larger radius
-  const displayName = location.displayName.toLowerCase();
-
-  // Check if it's just a state name or country
-  const stateNames = ['alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware', 'florida', 'georgia', 'hawaii', 'idaho', 'illinois', 'indiana', 'iowa', 'kansas', 'kentucky', 'louisiana', 'maine', 'maryland', 'massachusetts', 'michigan', 'minnesota', 'mississippi', 'missouri', 'montana', 'nebraska', 'nevada', 'new hampshire', 'new jersey', 'new mexico', 'new york', 'north carolina', 'north dakota', 'ohio', 'oklahoma', 'oregon', 'pennsylvania', 'rhode island', 'south carolina', 'south dakota', 'tennessee', 'texas', 'utah', 'vermont', 'virginia', 'washington', 'west virginia', 'wisconsin', 'wyoming'];
-
-  const countryNames = ['united states', 'usa', 'canada', 'mexico', 'united kingdom', 'australia', 'brazil', 'germany', 'france', 'spain', 'italy'];
-
-  // Check if display name contains only state/country (no city)
-  const hasStateOnly = stateNames.some(state => displayName.includes(state) && !displayName.includes(','));
-  const hasCountryOnly = countryNames.some(country => displayName.includes(country) && !displayName.includes(','));
-
-  return hasStateOnly || hasCountryOnly || !location.city;
-}
-
 function filterIucnSpeciesByRegion(iucnSpecies: Species[], location: Location): Species[] {
   // Filter out species that are obviously from wrong geographic regions
   const state = location.state?.toLowerCase() || '';
@@ -0,0 +1,230 @@
+// Coordinate input: decimal degrees ("25.76, -80.19"), degrees/minutes/seconds
+// (40°26'46"N 79°58'56"W) and Open Location Codes ("87C4VXCR+2V", or the short
+// form "VXCR+2V Miami" which needs a reference locality).
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'plus-code';
+
+export interface ParsedCoordinates {
+  lat: number;
+  lon: number;
+  format: CoordinateFormat;
+}
+
+export interface ShortPlusCode {
+  code: string;
+  locality: string;
+}
+
+// Open Location Code digits, and the degree size of each digit pair
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const OLC_PAIR_RESOLUTIONS = [20, 1, 0.05, 0.0025, 0.000125];
+const OLC_SEPARATOR_POSITION = 8;
+
+// Leading phrases people put before coordinates ("I'm at ...", "coords: ...")
+const LEADING_PHRASE = /^(?:(?:i\s+am|i'm|im)\s+)?(?:(?:at|near|around|in)\s+)?(?:(?:gps|coords?|coordinates|location|plus\s*code)\s*:?\s*)?/i;
+
+// One coordinate: optional hemisphere, degrees, optional minutes and seconds, optional hemisphere
+const COORDINATE = String.raw`([NSEW])?\s*([-+]?\d{1,3}(?:\.\d+)?)\s*(°)?\s*(?:(\d{1,2}(?:\.\d+)?)\s*'\s*)?(?:(\d{1,2}(?:\.\d+)?)\s*"\s*)?([NSEW])?`;
+const COORDINATE_PAIR = new RegExp(`^${COORDINATE}\\s*[,;/\\s]\\s*${COORDINATE}$`, 'i');
+
+const FULL_PLUS_CODE = /^([23456789CFGHJMPQRVWX]{8}\+[23456789CFGHJMPQRVWX]{0,7})$/i;
+const SHORT_PLUS_CODE = /^([23456789CFGHJMPQRVWX]{4,6}\+[23456789CFGHJMPQRVWX]{2,7})[\s,]+(.+)$/i;
+
+function stripLeadingPhrase(input: string): string {
+  return input
+    .trim()
+    .replace(/[′’‘]/g, "'")
+    .replace(/[″“”]|''/g, '"')
+    .replace(/º/g, '°')
+    .replace(LEADING_PHRASE, '')
+    .replace(/[.!]+$/, '')
+    .trim();
+}
+
+interface CoordinatePart {
+  value: number;
+  hemisphere?: string;
+  isDms: boolean;
+  hasMarker: boolean;
+}
+
+function toCoordinatePart(groups: Array<string | undefined>): CoordinatePart | null {
+  const [prefixHemisphere, degrees, degreeSign, minutes, seconds, suffixHemisphere] = groups;
+  if (prefixHemisphere && suffixHemisphere) return null;
+
+  const minuteValue = minutes ? Number(minutes) : 0;
+  const secondValue = seconds ? Number(seconds) : 0;
+  if (minuteValue >= 60 || secondValue >= 60) return null;
+
+  const degreeValue = Number(degrees);
+  const magnitude = Math.abs(degreeValue) + minuteValue / 60 + secondValue / 3600;
+  const hemisphere = (prefixHemisphere || suffixHemisphere)?.toUpperCase();
+  const negative = degrees!.startsWith('-') || hemisphere === 'S' || hemisphere === 'W';
+
+  return {
+    value: negative ? -magnitude : magnitude,
+    hemisphere,
+    isDms: Boolean(minutes || seconds),
+    hasMarker: Boolean(hemisphere || degreeSign || minutes || seconds || degrees!.includes('.'))
+  };
+}
+
+function parseCoordinatePair(text: string): ParsedCoordinates | null {
+  const match = text.match(COORDINATE_PAIR);
+  if (!match) return null;
+
+  const first = toCoordinatePart(match.slice(1, 7));
+  const second = toCoordinatePart(match.slice(7, 13));
+  if (!first || !second) return null;
+
+  // Bare integer pairs ("2, 3") are more likely list selections than coordinates
+  if (!first.hasMarker && !second.hasMarker) return null;
+
+  const isLongitude = (part: CoordinatePart) => part.hemisphere === 'E' || part.hemisphere === 'W';
+  const isLatitude = (part: CoordinatePart) => part.hemisphere === 'N' || part.hemisphere === 'S';
+  if ((isLongitude(first) && isLongitude(second)) || (isLatitude(first) && isLatitude(second))) return null;
+
+  // Latitude comes first unless the hemispheres say otherwise ("80.19W 25.76N")
+  const [latPart, lonPart] = isLongitude(first) || isLatitude(second) ? [second, first] : [first, second];
+
+  return {
+    lat: latPart.value,
+    lon: lonPart.value,
+    format: first.isDms || second.isDms ? 'dms' : 'decimal'
+  };
+}
+
+/**
+ * Decode a full Open Location Code to the centre of its area
+ */
+export function decodePlusCode(code: string): { lat: number; lon: number } | null {
+  const clean = code.toUpperCase();
+  if (!FULL_PLUS_CODE.test(clean)) return null;
+
+  // A single digit after the separator is not a valid code
+  const digits = clean.replace('+', '');
+  if (digits.length === 9) return null;
+
+  let south = -90;
+  let west = -180;
+  let latSize = 0;
+  let lonSize = 0;
+
+  // First ten digits are latitude/longitude pairs
+  for (let i = 0; i < Math.min(digits.length, 10); i += 2) {
+    const resolution = OLC_PAIR_RESOLUTIONS[i / 2];
+    south += OLC_ALPHABET.indexOf(digits[i]) * resolution;
+    west += OLC_ALPHABET.indexOf(digits[i + 1]) * resolution;
+    latSize = resolution;
+    lonSize = resolution;
+  }
+
+  // Remaining digits each split the cell into a 5 x 4 grid
+  for (let i = 10; i < digits.length; i++) {
+    const value = OLC_ALPHABET.indexOf(digits[i]);
+    latSize /= 5;
+    lonSize /= 4;
+    south += Math.floor(value / 4) * latSize;
+    west += (value % 4) * lonSize;
+  }
+
+  return {
+    lat: Math.min(90, south + latSize / 2),
+    lon: west + lonSize / 2
+  };
+}
+
+function encodePlusCodePrefix(lat: number, lon: number, length: number): string {
+  let latRemainder = Math.min(Math.max(lat, -90), 90 - 1e-10) + 90;
+  let lonRemainder = (((lon + 180) % 360) + 360) % 360;
+  let prefix = '';
+
+  for (let i = 0; i < length / 2; i++) {
+    const resolution = OLC_PAIR_RESOLUTIONS[i];
+    const latDigit = Math.floor(latRemainder / resolution);
+    const lonDigit = Math.floor(lonRemainder / resolution);
+    latRemainder -= latDigit * resolution;
+    lonRemainder -= lonDigit * resolution;
+    prefix += OLC_ALPHABET[latDigit] + OLC_ALPHABET[lonDigit];
+  }
+
+  return prefix;
+}
+
+/**
+ * Recover a short plus code ("VXCR+2V") to the matching cell nearest a reference point
+ */
+export function recoverShortPlusCode(code: string, referenceLat: number, referenceLon: number): { lat: number; lon: number } | null {
+  const clean = code.toUpperCase();
+  const missing = OLC_SEPARATOR_POSITION - clean.indexOf('+');
+  if (missing <= 0 || missing % 2 !== 0) return null;
+
+  const decoded = decodePlusCode(encodePlusCodePrefix(referenceLat, referenceLon, missing) + clean);
+  if (!decoded) return null;
+
+  // The reference may sit near a cell edge, so pick the neighbouring cell when it is closer
+  const resolution = Math.pow(20, 2 - missing / 2);
+  const half = resolution / 2;
+  let { lat, lon } = decoded;
+
+  if (referenceLat + half < lat && lat - resolution >= -90) lat -= resolution;
+  else if (referenceLat - half > lat && lat + resolution <= 90) lat += resolution;
+
+  if (referenceLon + half < lon) lon -= resolution;
+  else if (referenceLon - half > lon) lon += resolution;
+
+  return { lat, lon: ((lon + 540) % 360) - 180 };
+}
+
+/**
+ * Parse decimal, DMS or full plus-code input. Returns null when the input is not
+ * coordinates; out-of-range values are returned as-is for the caller to reject.
+ */
+export function parseCoordinates(input: string): ParsedCoordinates | null {
+  const text = stripLeadingPhrase(input);
+
+  if (FULL_PLUS_CODE.test(text)) {
+    const decoded = decodePlusCode(text);
+    return decoded ? { ...decoded, format: 'plus-code' } : null;
+  }
+
+  return parseCoordinatePair(text);
+}
+
+/**
+ * Parse a short plus code followed by the locality it is relative to ("VXCR+2V Miami, FL")
+ */
+export function parseShortPlusCode(input: string): ShortPlusCode | null {
+  const match = stripLeadingPhrase(input).match(SHORT_PLUS_CODE);
+  return match ? { code: match[1].toUpperCase(), locality: match[2].trim() } : null;
+}
+
+export function isCoordinateInput(input: string): boolean {
+  return parseCoordinates(input) !== null || parseShortPlusCode(input) !== null;
+}
+
+export function isValidCoordinate(lat: number, lon: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+/**
+ * Round coordinates to a number of decimal places; undefined keeps them as-is
+ */
+export function reduceCoordinatePrecision(lat: number, lon: number, decimals?: number): { lat: number; lon: number } {
+  if (decimals === undefined || !Number.isInteger(decimals) || decimals < 0) return { lat, lon };
+
+  const factor = Math.pow(10, decimals);
+  return {
+    lat: Math.round(lat * factor) / factor,
+    lon: Math.round(lon * factor) / factor
+  };
+}
+
+/**
+ * "25.7600°N, 80.1900°W"
+ */
+export function formatCoordinates(lat: number, lon: number): string {
+  const latLabel = `${Math.abs(lat).toFixed(4)}°${lat < 0 ? 'S' : 'N'}`;
+  const lonLabel = `${Math.abs(lon).toFixed(4)}°${lon < 0 ? 'W' : 'E'}`;
+  return `${latLabel}, ${lonLabel}`;
+}
@@ -0,0 +1,271 @@
+import { iso31661, iso31662 } from 'iso-3166';
+import type { Location } from './conservation-tools';
+
+// The one place country and subdivision names are resolved. Covers every
+// ISO 3166-1 country and ISO 3166-2 subdivision, with alpha-2/alpha-3 codes,
+// country names in several languages (from Intl.DisplayNames) and common
+// aliases. Matching is on whole normalized names only, so "us" never matches
+// "australia" and "niger" never matches "nigeria".
+
+export interface CountryRecord {
+  alpha2: string;
+  alpha3: string;
+  numeric: string;
+  name: string; // Common English name ("United States")
+  isoName: string; // ISO 3166-1 name ("United States of America")
+  names: Record<string, string>; // by language code, see NAME_LANGUAGES
+  aliases: string[];
+}
+
+export interface SubdivisionRecord {
+  code: string; // ISO 3166-2 ("US-FL")
+  name: string; // ISO name, usually in the local language ("Bayern")
+  countryCode: string; // ISO 3166-1 alpha-2
+  parentCode: string; // country code, or the containing subdivision's code
+  aliases: string[];
+}
+
+// Languages country names are recognised in
+export const NAME_LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'pt', 'nl'] as const;
+
+// Everyday names that neither ISO nor Intl.DisplayNames use
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  US: ['usa', 'us', 'u s a', 'america', 'united states'],
+  GB: ['uk', 'u k', 'britain', 'great britain'],
+  AE: ['uae', 'emirates'],
+  BA: ['bosnia'],
+  CD: ['drc', 'dr congo', 'congo kinshasa'],
+  CG: ['congo brazzaville'],
+  CI: ['ivory coast'],
+  CZ: ['czech republic'],
+  KR: ['korea', 'south korea'],
+  KP: ['north korea'],
+  MM: ['burma'],
+  NL: ['holland', 'the netherlands'],
+  SZ: ['swaziland'],
+  MK: ['macedonia'],
+  TL: ['east timor'],
+  CV: ['cape verde'],
+  VA: ['vatican'],
+  FM: ['micronesia']
+};
+
+// Display names where Intl's English name reads oddly ("Congo - Kinshasa")
+const COMMON_NAMES: Record<string, string> = {
+  CD: 'Democratic Republic of the Congo',
+  CG: 'Republic of the Congo',
+  HK: 'Hong Kong',
+  MO: 'Macao',
+  MM: 'Myanmar',
+  PS: 'Palestine',
+  TR: 'Turkey'
+};
+
+// English names for subdivisions whose ISO name is in the local language
+const SUBDIVISION_ALIASES: Record<string, string[]> = {
+  'DE-BY': ['bavaria'],
+  'DE-NW': ['north rhine westphalia'],
+  'DE-NI': ['lower saxony'],
+  'DE-SN': ['saxony'],
+  'MX-CMX': ['mexico city'],
+  'IT-21': ['piedmont'],
+  'IT-25': ['lombardy'],
+  'IT-52': ['tuscany'],
+  'IT-82': ['sicily'],
+  'IT-88': ['sardinia'],
+  'ES-AN': ['andalusia'],
+  'ES-CT': ['catalonia'],
+  'BE-BRU': ['brussels'],
+  'BE-VLG': ['flanders'],
+  'BE-WAL': ['wallonia'],
+  'CH-GE': ['geneva'],
+  'CA-YT': ['yukon territory'],
+  'IN-DL': ['delhi']
+};
+
+/**
+ * Comparable form of a place name: lowercase, no accents or punctuation
+ */
+export function normalizePlaceName(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents ("São Paulo" -> "sao paulo")
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Korea, Republic of" -> "Republic of Korea"
+function uninvert(isoName: string): string {
+  const match = isoName.match(/^(.+), (.+)$/);
+  return match ? `${match[2]} ${match[1]}` : isoName;
+}
+
+function displayNames(language: string): Intl.DisplayNames | null {
+  try {
+    return new Intl.DisplayNames([language], { type: 'region', fallback: 'none' });
+  } catch {
+    return null;
+  }
+}
+
+interface Registry {
+  countries: CountryRecord[];
+  byCountryName: Map<string, CountryRecord>;
+  byCountryCode: Map<string, CountryRecord>;
+  subdivisions: SubdivisionRecord[];
+  bySubdivisionName: Map<string, SubdivisionRecord[]>;
+  bySubdivisionCode: Map<string, SubdivisionRecord>;
+}
+
+function buildRegistry(): Registry {
+  const languages = NAME_LANGUAGES.map(language => [language, displayNames(language)] as const);
+  const countries: CountryRecord[] = [];
+  const byCountryName = new Map<string, CountryRecord>();
+  const byCountryCode = new Map<string, CountryRecord>();
+
+  for (const entry of iso31661) {
+    const names: Record<string, string> = {};
+    for (const [language, display] of languages) {
+      const name = display?.of(entry.alpha2);
+      if (name) names[language] = name;
+    }
+
+    const record: CountryRecord = {
+      alpha2: entry.alpha2,
+      alpha3: entry.alpha3,
+      numeric: entry.numeric,
+      name: COMMON_NAMES[entry.alpha2] ?? names.en?.replace(/ & /g, ' and ') ?? uninvert(entry.name),
+      isoName: entry.name,
+      names,
+      aliases: COUNTRY_ALIASES[entry.alpha2] ?? []
+    };
+    countries.push(record);
+    byCountryCode.set(record.alpha2, record);
+    byCountryCode.set(record.alpha3, record);
+
+    for (const name of [record.name, entry.name, uninvert(entry.name), ...Object.values(names), ...record.aliases]) {
+      const key = normalizePlaceName(name);
+      // Earlier entries win, so another language's spelling never takes over a name
+      if (key && !byCountryName.has(key)) byCountryName.set(key, record);
+    }
+  }
+
+  const subdivisions: SubdivisionRecord[] = [];
+  const bySubdivisionName = new Map<string, SubdivisionRecord[]>();
+  const bySubdivisionCode = new Map<string, SubdivisionRecord>();
+
+  for (const entry of iso31662) {
+    const record: SubdivisionRecord = {
+      code: entry.code,
+      name: entry.name,
+      countryCode: entry.code.split('-')[0],
+      parentCode: entry.parent,
+      aliases: SUBDIVISION_ALIASES[entry.code] ?? []
+    };
+    subdivisions.push(record);
+    bySubdivisionCode.set(record.code, record);
+
+    for (const name of new Set([record.name, ...record.aliases].map(normalizePlaceName))) {
+      bySubdivisionName.set(name, [...(bySubdivisionName.get(name) ?? []), record]);
+    }
+  }
+
+  return { countries, byCountryName, byCountryCode, subdivisions, bySubdivisionName, bySubdivisionCode };
+}
+
+let registry: Registry | null = null;
+
+function getRegistry(): Registry {
+  if (!registry) registry = buildRegistry();
+  return registry;
+}
+
+/**
+ * Country by name or alias, in any of NAME_LANGUAGES ("Germany", "Alemania", "USA")
+ */
+export function findCountry(name: string): CountryRecord | undefined {
+  return getRegistry().byCountryName.get(normalizePlaceName(name));
+}
+
+/**
+ * Country by ISO 3166-1 alpha-2 or alpha-3 code
+ */
+export function findCountryByCode(code: string): CountryRecord | undefined {
+  return getRegistry().byCountryCode.get(code.trim().toUpperCase());
+}
+
+/**
+ * Subdivisions with a name, top-level ones first. With a country code, only that
+ * country's; a bare code suffix ("FL") then also matches ("Portland, OR").
+ */
+export function findSubdivisions(name: string, countryCode?: string): SubdivisionRecord[] {
+  const { bySubdivisionName, bySubdivisionCode } = getRegistry();
+  const matches = [...(bySubdivisionName.get(normalizePlaceName(name)) ?? [])];
+
+  if (countryCode) {
+    const byCode = bySubdivisionCode.get(`${countryCode}-${name.trim().toUpperCase()}`);
+    if (byCode && !matches.includes(byCode)) matches.push(byCode);
+  }
+
+  return matches
+    .filter(record => !countryCode || record.countryCode === countryCode)
+    .sort((a, b) => Number(isTopLevel(b)) - Number(isTopLevel(a)));
+}
+
+export function findSubdivision(name: string, countryCode?: string): SubdivisionRecord | undefined {
+  return findSubdivisions(name, countryCode)[0];
+}
+
+/**
+ * Subdivision by ISO 3166-2 code ("US-FL")
+ */
+export function findSubdivisionByCode(code: string): SubdivisionRecord | undefined {
+  return getRegistry().bySubdivisionCode.get(code.trim().toUpperCase());
+}
+
+export function isTopLevel(subdivision: SubdivisionRecord): boolean {
+  return subdivision.parentCode === subdivision.countryCode;
+}
+
+export function listCountries(): CountryRecord[] {
+  return getRegistry().countries;
+}
+
+export function listSubdivisions(countryCode?: string): SubdivisionRecord[] {
+  const { subdivisions } = getRegistry();
+  return countryCode ? subdivisions.filter(record => record.countryCode === countryCode) : subdivisions;
+}
+
+/**
+ * English name for an alpha-2 or alpha-3 code, or the code itself when unknown
+ */
+export function countryNameFor(code: string): string {
+  return findCountryByCode(code)?.name ?? code;
+}
+
+/**
+ * ISO alpha-2 code of the country a location is in, from the geocoder's code,
+ * the country name, the last part of the display name, or a subdivision name
+ * that only exists in one country
+ */
+export function countryCodeFor(location: Pick<Location, 'countryCode' | 'country' | 'state' | 'displayName'>): string | undefined {
+  if (location.countryCode) {
+    const byCode = findCountryByCode(location.countryCode);
+    if (byCode) return byCode.alpha2;
+  }
+
+  const lastPart = location.displayName?.split(',').pop();
+  for (const name of [location.country, lastPart]) {
+    const country = name ? findCountry(name) : undefined;
+    if (country) return country.alpha2;
+  }
+
+  if (location.state) {
+    const countries = new Set(findSubdivisions(location.state).map(record => record.countryCode));
+    if (countries.size === 1) return [...countries][0];
+  }
+
+  return undefined;
+}
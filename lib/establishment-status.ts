@@ -0,0 +1,90 @@
+import type { Species } from './conservation-tools';
+
+// Whether an animal belongs where it was recorded. iNaturalist taxa carry
+// `establishment_means` when results have a place context; GBIF occurrences
+// carry `establishmentMeans` and, in newer records, `degreeOfEstablishment`.
+// Both are statements about one place: a house sparrow is native in Europe and
+// introduced in North America, so a status only holds for the search location.
+
+export type EstablishmentStatus = 'native' | 'introduced' | 'invasive' | 'unknown';
+
+// GBIF establishmentMeans values of animals brought in by people (the filter for invasive-species mode)
+export const GBIF_INTRODUCED_MEANS = ['INTRODUCED', 'INTRODUCED_ASSISTED_COLONISATION'];
+
+// Stronger claims win when sources disagree: one record of an invasion outweighs
+// a record that just says "introduced", and either outweighs "native"
+const STATUS_RANK: Record<EstablishmentStatus, number> = { unknown: 0, native: 1, introduced: 2, invasive: 3 };
+
+// Values from both sources, lower-cased with underscores as spaces. Older GBIF
+// records use the pre-2021 vocabulary (naturalised, invasive, managed).
+const STATUS_VALUES: Record<string, EstablishmentStatus> = {
+  'native': 'native',
+  'endemic': 'native',
+  'native indigenous': 'native',
+  'native reintroduced': 'native',
+  'introduced': 'introduced',
+  'introduced assisted colonisation': 'introduced',
+  'naturalised': 'introduced',
+  'naturalized': 'introduced',
+  'managed': 'introduced',
+  'invasive': 'invasive'
+};
+
+// GBIF degreeOfEstablishment values that mean the species is spreading and doing harm
+const INVASIVE_DEGREES = new Set(['invasive', 'widespread invasive']);
+
+function statusFor(value: string | undefined): EstablishmentStatus {
+  if (!value) return 'unknown';
+  return STATUS_VALUES[value.toLowerCase().replace(/_/g, ' ').trim()] ?? 'unknown';
+}
+
+/**
+ * Status from an iNaturalist taxon's `establishment_means`: an object naming the
+ * place it applies to, or a bare string in older responses
+ */
+export function fromInatEstablishmentMeans(means: { establishment_means?: string } | string | null | undefined): EstablishmentStatus {
+  return statusFor(typeof means === 'string' ? means : means?.establishment_means);
+}
+
+/**
+ * Status from a GBIF occurrence's `establishmentMeans` and `degreeOfEstablishment`
+ */
+export function fromGbifOccurrence(occurrence: { establishmentMeans?: string; degreeOfEstablishment?: string }): EstablishmentStatus {
+  const degree = occurrence.degreeOfEstablishment?.toLowerCase().replace(/_/g, ' ');
+  if (degree && INVASIVE_DEGREES.has(degree)) return 'invasive';
+  return statusFor(occurrence.establishmentMeans);
+}
+
+/**
+ * Combined status of several records of one species, the strongest claim winning
+ */
+export function mergeEstablishmentStatus(...statuses: Array<EstablishmentStatus | undefined>): EstablishmentStatus {
+  return statuses.reduce<EstablishmentStatus>(
+    (strongest, status) => status && STATUS_RANK[status] > STATUS_RANK[strongest] ? status : strongest,
+    'unknown'
+  );
+}
+
+/**
+ * Whether a species was brought to the search location by people
+ */
+export function isNonNative(species: Pick<Species, 'establishment'>): boolean {
+  return species.establishment === 'introduced' || species.establishment === 'invasive';
+}
+
+const INVASIVE_REQUEST = /^(?:(?:show|find|list|what are)(?: me)? )?(?:the |any )?(?:invasive|introduced|non-native|nonnative|alien|exotic)(?: (?:and|or|&) (?:invasive|introduced|non-native))? (?:species|animals|wildlife)(?: (.+))?$/;
+const PREPOSITION = /^(?:near|in|around|at|of|for|from)\s+/;
+const HERE = /^(?:me|my (?:location|area)|here|nearby|where i am|around here|my current location)$/;
+
+/**
+ * Read an "invasive species near me" request. Returns the place to search when
+ * one is named ("invasive species in Florida"), an empty object for "near me",
+ * and null when the input is not such a request.
+ */
+export function parseInvasiveSpeciesRequest(text: string): { place?: string } | null {
+  const match = text.trim().replace(/[?!.]+$/, '').match(new RegExp(INVASIVE_REQUEST.source, 'i'));
+  if (!match) return null;
+
+  const place = (match[1] ?? '').trim().replace(PREPOSITION, '').trim();
+  return place && !HERE.test(place.toLowerCase()) ? { place } : {};
+}
@@ -0,0 +1,264 @@
+import type { Location, Species } from './conservation-tools';
+import type { RAGResponse } from './wildlife-rag-service';
+import { getBaseUrl } from './utils';
+import { internalRequestHeaders } from './rate-limiter';
+
+// Grounded answers to follow-up questions about the selected animal.
+//
+// Evidence comes from Wikipedia (summary + article), the wildlife RAG store and
+// the IUCN Red List route. The LLM may only use that numbered evidence and must
+// cite it; when it is unavailable the best passages are quoted instead.
+
+export type AnswerSourceKind = 'wikipedia' | 'rag' | 'iucn';
+
+export interface AnswerSource {
+  id: number;
+  kind: AnswerSourceKind;
+  title: string;
+  url?: string;
+}
+
+export interface FollowUpAnswer {
+  answer: string;
+  sources: AnswerSource[];
+}
+
+interface Evidence {
+  kind: AnswerSourceKind;
+  title: string;
+  url?: string;
+  text: string;
+}
+
+interface WikipediaSummary {
+  title: string;
+  extract: string;
+  pageUrl?: string;
+}
+
+interface IUCNStatus {
+  found: boolean;
+  scientificName?: string;
+  categoryLabel?: string;
+  populationTrend?: string;
+  assessmentDate?: string;
+  taxonId?: number;
+}
+
+export interface FollowUpSourceProviders {
+  getWikipediaSummary(title: string): Promise<WikipediaSummary | null>;
+  getWikipediaArticle(title: string): Promise<string | null>;
+  searchRag(query: string, location?: string): Promise<RAGResponse>;
+  getIUCNStatus(scientificName: string): Promise<IUCNStatus | null>;
+  // Writes the answer from the evidence prompt; omit to always quote passages
+  generate?(prompt: string): Promise<string>;
+}
+
+// Passages from the full article that are sent to the LLM
+const MAX_ARTICLE_PASSAGES = 3;
+const MAX_PASSAGE_LENGTH = 800;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'is', 'are', 'was', 'were', 'do', 'does', 'did', 'it', 'its', 'they', 'them',
+  'what', 'how', 'why', 'where', 'when', 'which', 'who', 'many', 'much', 'of', 'in', 'on', 'to',
+  'for', 'and', 'or', 'there', 'this', 'that', 'can', 'tell', 'me', 'about', 'left', 'still'
+]);
+
+/**
+ * Whether a message in the completed step is a question about the animal rather than a new search
+ */
+export function isFollowUpQuestion(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.endsWith('?') ||
+    /^(what|how|why|where|when|which|who|is|are|does|do|did|can|could|should|will|tell me|explain|describe)\b/i.test(trimmed);
+}
+
+function questionTerms(question: string): string[] {
+  return question
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function passageScore(terms: string[], text: string): number {
+  const lower = text.toLowerCase();
+  return terms.reduce((sum, term) => sum + (lower.includes(term) ? 1 : 0), 0);
+}
+
+/**
+ * Plain-text paragraphs from Wikipedia article HTML
+ */
+export function articleParagraphs(html: string): string[] {
+  const paragraphs: string[] = [];
+  const paragraphPattern = /<p[^>]*>([\s\S]*?)<\/p>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = paragraphPattern.exec(html)) !== null) {
+    const text = match[1]
+      .replace(/<sup[\s\S]*?<\/sup>/gi, '') // reference markers like [1]
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text.length > 40) paragraphs.push(text);
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Rank passages by how many question terms they contain
+ */
+export function rankPassages(question: string, passages: string[], limit: number): string[] {
+  const terms = questionTerms(question);
+  if (terms.length === 0) return passages.slice(0, limit);
+
+  return passages
+    .map((text, index) => ({ text, index, score: passageScore(terms, text) }))
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(passage => passage.text.slice(0, MAX_PASSAGE_LENGTH));
+}
+
+function iucnUrl(status: IUCNStatus): string {
+  return status.taxonId
+    ? `https://www.iucnredlist.org/species/${status.taxonId}`
+    : 'https://www.iucnredlist.org/';
+}
+
+function describeIUCNStatus(animal: Species, status: IUCNStatus): string {
+  let text = `${animal.commonName} (${status.scientificName || animal.scientificName}) is assessed as ${status.categoryLabel} on the IUCN Red List`;
+  if (status.assessmentDate) text += ` (assessed ${status.assessmentDate.slice(0, 10)})`;
+  text += '.';
+  if (status.populationTrend) text += ` Its global population trend is ${status.populationTrend.toLowerCase()}.`;
+  return text;
+}
+
+function buildPrompt(question: string, animal: Species, location: Location | undefined, evidence: Evidence[]): string {
+  const sources = evidence.map((item, index) => `[${index + 1}] ${item.title}\n${item.text}`).join('\n\n');
+
+  const place = location && location.displayName !== 'Worldwide' ? ` in the context of ${location.displayName}` : '';
+
+  return `Answer the user's question about the ${animal.commonName} (${animal.scientificName})${place}.
+
+Question: "${question}"
+
+Sources:
+${sources}
+
+Rules:
+- Use ONLY the numbered sources above. Do not add outside knowledge.
+- Cite every statement with its source number in square brackets, e.g. [1] or [2][3].
+- If the sources do not answer the question, say so plainly and share the closest relevant facts with citations.
+- Keep it under 150 words.`;
+}
+
+// Offline answer: the most relevant passages, each with its citation
+function quotePassages(question: string, evidence: Evidence[]): string {
+  const terms = questionTerms(question);
+  const ranked = evidence
+    .map((item, index) => ({ item, index, score: passageScore(terms, item.text) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, 2);
+
+  return ranked
+    .map(({ item, index }) => {
+      const sentences = item.text.match(/[^.!?]+[.!?]+/g) || [item.text];
+      return `${sentences.slice(0, 3).join('').trim()} [${index + 1}]`;
+    })
+    .join('\n\n');
+}
+
+export class FollowUpQAService {
+  constructor(private providers: FollowUpSourceProviders) {}
+
+  /**
+   * Answer a question about `animal`, citing every source that contributed evidence
+   */
+  async answer(question: string, animal: Species, location?: Location): Promise<FollowUpAnswer> {
+    const evidence = await this.gatherEvidence(question, animal, location);
+    console.log(`📚 FOLLOW-UP Q&A: ${evidence.length} sources for "${question}" about ${animal.commonName}`);
+
+    if (evidence.length === 0) {
+      return { answer: '', sources: [] };
+    }
+
+    let answer = '';
+    if (this.providers.generate) {
+      try {
+        answer = (await this.providers.generate(buildPrompt(question, animal, location, evidence))).trim();
+      } catch (error) {
+        console.warn('⚠️ Follow-up answer generation failed, quoting sources instead:', error);
+      }
+    }
+    if (!answer) answer = quotePassages(question, evidence);
+
+    const sources = evidence.map((item, index) => ({ id: index + 1, kind: item.kind, title: item.title, url: item.url }));
+    return { answer, sources };
+  }
+
+  private async gatherEvidence(question: string, animal: Species, location?: Location): Promise<Evidence[]> {
+    const title = animal.scientificName && animal.scientificName !== 'Unknown' ? animal.scientificName : animal.commonName;
+    const place = location && location.displayName !== 'Worldwide' ? location.displayName : undefined;
+
+    const [summary, article, rag, iucn] = await Promise.allSettled([
+      this.providers.getWikipediaSummary(title),
+      this.providers.getWikipediaArticle(title),
+      this.providers.searchRag(`${animal.commonName} ${question}`, place),
+      animal.scientificName && animal.scientificName !== 'Unknown'
+        ? this.providers.getIUCNStatus(animal.scientificName)
+        : Promise.resolve(null)
+    ]);
+
+    const evidence: Evidence[] = [];
+
+    if (summary.status === 'fulfilled' && summary.value?.extract) {
+      evidence.push({ kind: 'wikipedia', title: `Wikipedia: ${summary.value.title}`, url: summary.value.pageUrl, text: summary.value.extract });
+    }
+
+    if (article.status === 'fulfilled' && article.value) {
+      const passages = rankPassages(question, articleParagraphs(article.value), MAX_ARTICLE_PASSAGES);
+      if (passages.length > 0) {
+        const pageTitle = summary.status === 'fulfilled' && summary.value ? summary.value.title : title;
+        const url = summary.status === 'fulfilled' && summary.value?.pageUrl
+          ? summary.value.pageUrl
+          : `https://en.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+        evidence.push({ kind: 'wikipedia', title: `Wikipedia: ${pageTitle} (full article)`, url, text: passages.join('\n') });
+      }
+    }
+
+    if (rag.status === 'fulfilled' && rag.value.success) {
+      (rag.value.documents || []).slice(0, 3).forEach(doc => {
+        const origin = doc.metadata?.source || doc.metadata?.unique_source || doc.metadata?.origin;
+        evidence.push({
+          kind: 'rag',
+          title: `Wildlife database${origin && !/^https?:/.test(origin) ? `: ${origin}` : ''}`,
+          url: origin && /^https?:/.test(origin) ? origin : undefined,
+          text: doc.text.slice(0, MAX_PASSAGE_LENGTH)
+        });
+      });
+    }
+
+    if (iucn.status === 'fulfilled' && iucn.value?.found && iucn.value.categoryLabel) {
+      evidence.push({ kind: 'iucn', title: 'IUCN Red List of Threatened Species', url: iucnUrl(iucn.value), text: describeIUCNStatus(animal, iucn.value) });
+    }
+
+    return evidence;
+  }
+}
+
+/**
+ * IUCN status through the app's /api/iucn/species-status route
+ */
+export async function fetchIUCNStatus(scientificName: string): Promise<IUCNStatus | null> {
+  const response = await fetch(`${getBaseUrl()}/api/iucn/species-status?scientificName=${encodeURIComponent(scientificName)}`, {
+    headers: internalRequestHeaders()
+  });
+  if (!response.ok) return null;
+  return response.json();
+}
@@ -0,0 +1,136 @@
+import { countryNameFor, isTopLevel, listCountries, listSubdivisions, normalizePlaceName } from './country-registry';
+import { listProtectedAreas } from './protected-areas';
+import { listWaterBodies } from './water-bodies';
+
+// Offline place-name lookup used to recognise locations without a network call.
+// Countries and subdivisions come from the ISO 3166 registry, parks and reserves
+// from the protected-area dataset, seas and lakes from the water-body dataset.
+
+export type PlaceKind = 'country' | 'subdivision' | 'city' | 'region' | 'protected-area' | 'water-body';
+
+export interface GazetteerEntry {
+  name: string;
+  kind: PlaceKind;
+  country?: string;
+}
+
+// Major cities that users commonly search for
+const MAJOR_CITIES: Array<[string, string]> = [
+  // United States
+  ['new york', 'United States'], ['new york city', 'United States'], ['los angeles', 'United States'],
+  ['chicago', 'United States'], ['houston', 'United States'], ['phoenix', 'United States'],
+  ['philadelphia', 'United States'], ['san antonio', 'United States'], ['san diego', 'United States'],
+  ['dallas', 'United States'], ['austin', 'United States'], ['san francisco', 'United States'],
+  ['seattle', 'United States'], ['denver', 'United States'], ['boston', 'United States'],
+  ['miami', 'United States'], ['orlando', 'United States'], ['tampa', 'United States'],
+  ['atlanta', 'United States'], ['portland', 'United States'], ['las vegas', 'United States'],
+  ['detroit', 'United States'], ['minneapolis', 'United States'], ['nashville', 'United States'],
+  ['new orleans', 'United States'], ['salt lake city', 'United States'], ['anchorage', 'United States'],
+  ['honolulu', 'United States'], ['tucson', 'United States'], ['albuquerque', 'United States'],
+  ['sacramento', 'United States'], ['baltimore', 'United States'], ['pittsburgh', 'United States'],
+  // Canada
+  ['toronto', 'Canada'], ['montreal', 'Canada'], ['vancouver', 'Canada'], ['calgary', 'Canada'],
+  ['edmonton', 'Canada'], ['ottawa', 'Canada'], ['winnipeg', 'Canada'], ['halifax', 'Canada'],
+  // Latin America
+  ['mexico city', 'Mexico'], ['cancun', 'Mexico'], ['guadalajara', 'Mexico'],
+  ['sao paulo', 'Brazil'], ['rio de janeiro', 'Brazil'], ['manaus', 'Brazil'],
+  ['buenos aires', 'Argentina'], ['santiago', 'Chile'], ['lima', 'Peru'], ['bogota', 'Colombia'],
+  ['quito', 'Ecuador'], ['caracas', 'Venezuela'], ['san jose', 'Costa Rica'],
+  // Europe
+  ['london', 'United Kingdom'], ['edinburgh', 'United Kingdom'], ['dublin', 'Ireland'],
+  ['paris', 'France'], ['berlin', 'Germany'], ['munich', 'Germany'], ['madrid', 'Spain'],
+  ['barcelona', 'Spain'], ['rome', 'Italy'], ['milan', 'Italy'], ['amsterdam', 'Netherlands'],
+  ['brussels', 'Belgium'], ['vienna', 'Austria'], ['zurich', 'Switzerland'], ['prague', 'Czech Republic'],
+  ['warsaw', 'Poland'], ['budapest', 'Hungary'], ['athens', 'Greece'], ['lisbon', 'Portugal'],
+  ['stockholm', 'Sweden'], ['oslo', 'Norway'], ['copenhagen', 'Denmark'], ['helsinki', 'Finland'],
+  ['moscow', 'Russia'], ['istanbul', 'Turkey'],
+  // Africa & Middle East
+  ['cairo', 'Egypt'], ['nairobi', 'Kenya'], ['lagos', 'Nigeria'], ['cape town', 'South Africa'],
+  ['johannesburg', 'South Africa'], ['addis ababa', 'Ethiopia'], ['accra', 'Ghana'],
+  ['marrakech', 'Morocco'], ['dar es salaam', 'Tanzania'], ['kigali', 'Rwanda'],
+  ['dubai', 'United Arab Emirates'], ['tel aviv', 'Israel'], ['riyadh', 'Saudi Arabia'],
+  // Asia & Oceania
+  ['tokyo', 'Japan'], ['osaka', 'Japan'], ['beijing', 'China'], ['shanghai', 'China'],
+  ['hong kong', 'China'], ['seoul', 'South Korea'], ['delhi', 'India'], ['new delhi', 'India'],
+  ['mumbai', 'India'], ['bangalore', 'India'], ['kolkata', 'India'], ['kathmandu', 'Nepal'],
+  ['dhaka', 'Bangladesh'], ['bangkok', 'Thailand'], ['hanoi', 'Vietnam'], ['ho chi minh city', 'Vietnam'],
+  ['singapore', 'Singapore'], ['kuala lumpur', 'Malaysia'], ['jakarta', 'Indonesia'], ['bali', 'Indonesia'],
+  ['manila', 'Philippines'], ['sydney', 'Australia'], ['melbourne', 'Australia'], ['brisbane', 'Australia'],
+  ['perth', 'Australia'], ['auckland', 'New Zealand'], ['wellington', 'New Zealand']
+];
+
+// Regions and landforms that are clearly places but not administrative areas
+const REGIONS = [
+  'africa', 'asia', 'europe', 'north america', 'south america', 'central america', 'oceania',
+  'antarctica', 'arctic', 'amazon', 'sahara', 'siberia', 'patagonia', 'scandinavia', 'borneo',
+  'madagascar', 'galapagos', 'the caribbean', 'caribbean', 'middle east', 'southeast asia'
+];
+
+// Subdivisions named after compass points ("Northern", "Central") would turn
+// ordinary words into places, e.g. in "northern cardinal"
+const GENERIC_SUBDIVISION_NAMES = new Set([
+  'north', 'south', 'east', 'west', 'northern', 'southern', 'eastern', 'western',
+  'central', 'centre', 'center', 'nord', 'sud', 'est', 'ouest', 'north east', 'north west',
+  'south east', 'south west', 'northeast', 'northwest', 'southeast', 'southwest', 'upper', 'lower', 'capital'
+]);
+
+function buildIndex(): Map<string, GazetteerEntry> {
+  const index = new Map<string, GazetteerEntry>();
+  const add = (name: string, entry: GazetteerEntry) => {
+    const key = normalizePlaceName(name);
+    // Countries and subdivisions win over cities with the same name
+    if (!index.has(key)) index.set(key, entry);
+  };
+
+  for (const country of listCountries()) {
+    [country.name, country.isoName, ...Object.values(country.names), ...country.aliases]
+      .forEach(name => add(name, { name: country.name, kind: 'country' }));
+  }
+  for (const subdivision of listSubdivisions().filter(isTopLevel)) {
+    const country = countryNameFor(subdivision.countryCode);
+    [subdivision.name, ...subdivision.aliases]
+      .filter(name => !GENERIC_SUBDIVISION_NAMES.has(normalizePlaceName(name)))
+      .forEach(name => add(name, { name: subdivision.name, kind: 'subdivision', country }));
+  }
+  REGIONS.forEach(name => add(name, { name, kind: 'region' }));
+  for (const area of listProtectedAreas()) {
+    const country = countryNameFor(area.iso3);
+    [area.name, ...(area.aliases ?? [])].forEach(name => add(name, { name: area.name, kind: 'protected-area', country }));
+  }
+  for (const water of listWaterBodies()) {
+    [water.name, ...(water.aliases ?? [])].forEach(name => add(name, { name: water.name, kind: 'water-body' }));
+  }
+  MAJOR_CITIES.forEach(([name, country]) => add(name, { name, kind: 'city', country }));
+
+  return index;
+}
+
+let placeIndex: Map<string, GazetteerEntry> | null = null;
+
+function getIndex(): Map<string, GazetteerEntry> {
+  if (!placeIndex) placeIndex = buildIndex();
+  return placeIndex;
+}
+
+/**
+ * Look up a place by its full name
+ */
+export function findPlace(name: string): GazetteerEntry | undefined {
+  return getIndex().get(normalizePlaceName(name));
+}
+
+/**
+ * Find the longest known place name inside free text ("I live near Cape Town" -> Cape Town)
+ */
+export function findPlaceInText(text: string): GazetteerEntry | undefined {
+  const words = normalizePlaceName(text).split(' ').filter(Boolean);
+
+  for (let length = Math.min(words.length, 4); length > 0; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const entry = getIndex().get(words.slice(start, start + length).join(' '));
+      if (entry) return entry;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,133 @@
+import { CONFIG } from './config';
+import type { Location } from './conservation-tools';
+import { geocodingService, type GeocodeCandidate, type StructuredGeocodeQuery } from './geocoding-service';
+import { OfflineGeocoder } from './offline-geocoder';
+import { PhotonGeocoder } from './photon-geocoder';
+
+// Geocoding backends and the ordered fallback chain LocationAgent resolves places
+// through. A provider that fails or finds nothing hands the query to the next one,
+// so a Nominatim outage (or no network at all) degrades to the offline gazetteer.
+
+export type GeocoderName = 'nominatim' | 'photon' | 'offline';
+
+/**
+ * A geocoding backend
+ */
+export interface Geocoder {
+  readonly name: string;
+  // Every match for a query, most relevant first
+  search(query: string): Promise<GeocodeCandidate[]>;
+  // Matches for a place given field by field; providers without it get the fields as free text
+  searchStructured?(query: StructuredGeocodeQuery): Promise<GeocodeCandidate[]>;
+  // City-level place at a point, keeping the given coordinates; null when none
+  reverse(lat: number, lon: number): Promise<Location | null>;
+}
+
+export interface GeocoderOptions {
+  providers?: string[];
+  // stdio MCP servers must log to stderr, since stdout carries the protocol
+  log?: (...args: unknown[]) => void;
+}
+
+export class FallbackGeocoder implements Geocoder {
+  readonly name: string;
+
+  constructor(private providers: Geocoder[], private log: (...args: unknown[]) => void = console.log) {
+    if (providers.length === 0) {
+      throw new Error('At least one geocoder provider is required');
+    }
+    this.name = providers.map(provider => provider.name).join(' → ');
+  }
+
+  async search(query: string): Promise<GeocodeCandidate[]> {
+    const results = await this.firstFound(provider => provider.search(query), candidates => candidates.length > 0);
+    return results ?? [];
+  }
+
+  async searchStructured(query: StructuredGeocodeQuery): Promise<GeocodeCandidate[]> {
+    const results = await this.firstFound(
+      provider => provider.searchStructured ? provider.searchStructured(query) : provider.search(structuredQueryText(query)),
+      candidates => candidates.length > 0
+    );
+    return results ?? [];
+  }
+
+  async reverse(lat: number, lon: number): Promise<Location | null> {
+    return this.firstFound(provider => provider.reverse(lat, lon), location => location !== null);
+  }
+
+  /**
+   * First (most relevant) match for a query, or null
+   */
+  async geocode(query: string): Promise<Location | null> {
+    const [first] = await this.search(query);
+    return first?.location ?? null;
+  }
+
+  /**
+   * Ask each provider in turn until one finds something. Throws only when
+   * every provider failed, so "not found" stays distinguishable from an outage.
+   */
+  private async firstFound<T>(ask: (provider: Geocoder) => Promise<T>, found: (result: T) => boolean): Promise<T | null> {
+    let lastError: unknown;
+    let answered = false;
+
+    for (const provider of this.providers) {
+      try {
+        const result = await ask(provider);
+        answered = true;
+        if (found(result)) {
+          if (provider !== this.providers[0]) this.log(`🧭 GEOCODER FALLBACK: answered by ${provider.name}`);
+          return result;
+        }
+      } catch (error) {
+        lastError = error;
+        console.warn(`⚠️ Geocoder ${provider.name} failed:`, error);
+      }
+    }
+
+    if (!answered && lastError) throw lastError;
+    return null;
+  }
+}
+
+/**
+ * Free-text form of a structured query: "Miami, Florida, United States"
+ */
+export function structuredQueryText(query: StructuredGeocodeQuery): string {
+  return [query.city, query.state, query.country]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+function createProvider(name: string, options: GeocoderOptions): Geocoder | null {
+  switch (name) {
+    case 'nominatim':
+      // Always the shared service, so the process keeps a single request queue
+      if (options.log) geocodingService.setLogger(options.log);
+      return geocodingService;
+    case 'photon':
+      return new PhotonGeocoder({ baseUrl: CONFIG.geocoding.photonBaseUrl, userAgent: CONFIG.geocoding.userAgent, log: options.log });
+    case 'offline':
+      return new OfflineGeocoder();
+    default:
+      console.warn(`⚠️ Unknown geocoder provider "${name}" ignored`);
+      return null;
+  }
+}
+
+/**
+ * Build the fallback chain from CONFIG.geocoding.providers (or the given names)
+ */
+export function createGeocoder(options: GeocoderOptions = {}): FallbackGeocoder {
+  const names = options.providers ?? CONFIG.geocoding.providers;
+  const providers = names
+    .map(name => createProvider(name, options))
+    .filter((provider): provider is Geocoder => provider !== null);
+
+  // A misconfigured chain still works offline rather than failing every lookup
+  return new FallbackGeocoder(providers.length > 0 ? providers : [new OfflineGeocoder()], options.log);
+}
+
+export const geocoder = createGeocoder();
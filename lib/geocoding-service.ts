@@ -0,0 +1,537 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { CONFIG } from './config';
+import type { Location } from './conservation-tools';
+import type { Geocoder } from './geocoder';
+import { parseBoundingBox } from './place-geometry';
+
+// Nominatim geocoder, shared by the Next.js app and the species-fetcher MCP server.
+//
+// Nominatim's usage policy allows at most one request per second and asks
+// clients to cache results, so every lookup goes through:
+//   1. an in-memory LRU cache, backed by an optional file cache that survives restarts
+//   2. coalescing, so concurrent identical lookups share one request
+//   3. a serialized queue that spaces requests at least minIntervalMs apart
+//   4. with the file cache, request slots reserved in the cache directory, so the
+//      app, the MCP server and other instances sharing it stay under the limit together
+
+const NOMINATIM_BASE = 'https://nominatim.openstreetmap.org';
+
+// One geocoder result, with the ranking data used to decide whether a name is ambiguous
+export interface GeocodeCandidate {
+  location: Location;
+  name: string;
+  importance: number; // Nominatim's 0-1 prominence score
+  placeRank: number; // 4 = country, 8 = state, 12 = county, 16 = city, 19 = village, 26+ = streets
+  placeType: string; // e.g. "city", "state", "county"
+  population?: number;
+}
+
+// A place given field by field, as the location form collects it
+export interface StructuredGeocodeQuery {
+  country: string;
+  state?: string;
+  city?: string;
+  countryCode?: string; // ISO 3166-1 alpha-2, narrows the search when the country is known
+}
+
+export interface CachedGeocode {
+  expiresAt: number;
+  value: unknown;
+}
+
+/**
+ * Persistent layer behind the in-memory cache
+ */
+export interface GeocodeCacheStore {
+  get(key: string): Promise<CachedGeocode | undefined>;
+  set(key: string, entry: CachedGeocode): Promise<void>;
+}
+
+/**
+ * Request times shared between processes: each request reserves the next free slot
+ */
+export interface RequestSlotStore {
+  // Time (ms since the epoch) at which the caller may send; at least minIntervalMs after the last slot
+  reserve(minIntervalMs: number, now: number): Promise<number>;
+}
+
+type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface GeocodingServiceOptions {
+  minIntervalMs: number;
+  searchLimit: number;
+  cacheTtlMs: number;
+  missTtlMs: number;
+  cacheMaxEntries: number;
+  userAgent: string;
+  store?: GeocodeCacheStore;
+  slots?: RequestSlotStore;
+  fetcher?: Fetcher;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  // stdio MCP servers must log to stderr, since stdout carries the protocol
+  log?: (...args: unknown[]) => void;
+}
+
+/**
+ * Cache key form of a query: "  Miami,Florida. " and "miami, florida" are the same lookup
+ */
+export function normalizeGeocodeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .trim()
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .replace(/[.!?]+$/, '');
+}
+
+// Place outlines, simplified by Nominatim, so species searches can use the real boundary
+function outlineParams(): Record<string, string> {
+  return {
+    polygon_text: '1',
+    polygon_threshold: String(CONFIG.geocoding.polygonThreshold)
+  };
+}
+
+/**
+ * Drop outlines too long to use as a search filter before they reach the cache;
+ * country outlines can run to hundreds of kilobytes even simplified.
+ */
+function withoutOversizedOutline(result: any): any {
+  if (!result || typeof result.geotext !== 'string') return result;
+  if (result.geotext.length <= CONFIG.speciesSearch.maxPolygonLength) return result;
+
+  const { geotext: _geotext, ...rest } = result;
+  return rest;
+}
+
+function toLocation(result: any): Location {
+  // Points and lines have no area to search within
+  const polygon = typeof result.geotext === 'string' && /^(MULTI)?POLYGON/i.test(result.geotext)
+    ? result.geotext
+    : undefined;
+
+  return {
+    lat: parseFloat(result.lat),
+    lon: parseFloat(result.lon),
+    city: result.address?.city || result.address?.town || result.address?.village,
+    state: result.address?.state,
+    country: result.address?.country,
+    countryCode: result.address?.country_code?.toUpperCase(),
+    displayName: result.display_name,
+    boundingBox: parseBoundingBox(result.boundingbox),
+    polygon
+  };
+}
+
+function toCandidate(result: any): GeocodeCandidate {
+  return {
+    location: toLocation(result),
+    name: result.name || result.display_name.split(',')[0],
+    importance: Number(result.importance) || 0,
+    placeRank: Number(result.place_rank) || 30,
+    placeType: result.addresstype || result.type || 'place',
+    population: Number(result.extratags?.population) || undefined
+  };
+}
+
+/**
+ * File-backed geocode cache: one JSON file per key in a shared directory, so the
+ * app and the MCP server can reuse each other's lookups across restarts.
+ */
+export class FileGeocodeCacheStore implements GeocodeCacheStore {
+  private ready: Promise<void> | null = null;
+  private writes = 0;
+
+  constructor(private directory: string, private maxEntries: number) {}
+
+  async get(key: string): Promise<CachedGeocode | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CachedGeocode): Promise<void> {
+    await this.ensureDirectory();
+
+    // Write to a temp file first so readers never see a half-written entry
+    const target = this.filePath(key);
+    const tempFile = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempFile, target);
+
+    // Listing the directory is not free, so only check the size occasionally
+    if (++this.writes % 50 === 0) await this.prune();
+  }
+
+  /**
+   * Remove the least recently written entries beyond maxEntries
+   */
+  private async prune(): Promise<void> {
+    const files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+    if (files.length <= this.maxEntries) return;
+
+    const stats = await Promise.all(files.map(async (file) => {
+      const fullPath = path.join(this.directory, file);
+      try {
+        return { fullPath, modified: (await fs.stat(fullPath)).mtimeMs };
+      } catch {
+        return null;
+      }
+    }));
+
+    const oldestFirst = stats
+      .filter((s): s is { fullPath: string; modified: number } => s !== null)
+      .sort((a, b) => a.modified - b.modified);
+
+    for (const file of oldestFirst.slice(0, oldestFirst.length - this.maxEntries)) {
+      await fs.rm(file.fullPath, { force: true });
+    }
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  private filePath(key: string): string {
+    const hashed = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hashed}.json`);
+  }
+}
+
+// A lock held longer than this belongs to a process that died holding it
+const SLOT_LOCK_STALE_MS = 5_000;
+const SLOT_LOCK_RETRY_MS = 25;
+
+/**
+ * Request slots in a file next to the geocode cache. A lock file (created
+ * exclusively) guards the read and update of the last reserved slot.
+ */
+export class FileRequestSlotStore implements RequestSlotStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(private directory: string, private name = 'nominatim') {}
+
+  async reserve(minIntervalMs: number, now: number): Promise<number> {
+    await this.ensureDirectory();
+    const slotFile = path.join(this.directory, `${this.name}.slot`);
+
+    await this.lock();
+    try {
+      const last = Number(await fs.readFile(slotFile, 'utf8').catch(() => '')) || Number.NEGATIVE_INFINITY;
+      const slot = Math.max(now, last + minIntervalMs);
+      await fs.writeFile(slotFile, String(slot), 'utf8');
+      return slot;
+    } finally {
+      await fs.rm(this.lockPath(), { force: true });
+    }
+  }
+
+  private async lock(): Promise<void> {
+    for (;;) {
+      try {
+        await (await fs.open(this.lockPath(), 'wx')).close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const held = await fs.stat(this.lockPath()).then(stat => Date.now() - stat.mtimeMs, () => 0);
+      if (held > SLOT_LOCK_STALE_MS) {
+        await fs.rm(this.lockPath(), { force: true });
+      } else {
+        await new Promise(resolve => setTimeout(resolve, SLOT_LOCK_RETRY_MS));
+      }
+    }
+  }
+
+  private lockPath(): string {
+    return path.join(this.directory, `${this.name}.slot.lock`);
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+}
+
+export class GeocodingService implements Geocoder {
+  readonly name = 'nominatim';
+  private memory = new Map<string, CachedGeocode>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private lastRequestAt = Number.NEGATIVE_INFINITY;
+  private fetcher: Fetcher;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private log: (...args: unknown[]) => void;
+
+  constructor(private options: GeocodingServiceOptions) {
+    this.fetcher = options.fetcher ?? ((url, init) => fetch(url, init));
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.log = options.log ?? console.log;
+  }
+
+  /**
+   * Send logs elsewhere, keeping the queue and cache (stdio MCP servers log to stderr)
+   */
+  setLogger(log: (...args: unknown[]) => void): void {
+    this.log = log;
+  }
+
+  /**
+   * Forward geocode a query into every Nominatim candidate, in Nominatim's order
+   */
+  async search(query: string): Promise<GeocodeCandidate[]> {
+    const normalized = normalizeGeocodeQuery(query);
+    const params = new URLSearchParams({
+      q: normalized,
+      format: 'json',
+      limit: String(this.options.searchLimit),
+      addressdetails: '1',
+      extratags: '1',
+      'accept-language': 'en',
+      ...outlineParams()
+    });
+
+    const results = await this.lookup<any[]>(
+      `search:${normalized}`,
+      `${NOMINATIM_BASE}/search?${params.toString()}`,
+      value => Array.isArray(value) ? value.map(withoutOversizedOutline) : value
+    );
+    return (results ?? []).map(toCandidate);
+  }
+
+  /**
+   * Forward geocode a place given field by field, with Nominatim's structured
+   * query parameters instead of a free-text q
+   */
+  async searchStructured(query: StructuredGeocodeQuery): Promise<GeocodeCandidate[]> {
+    const fields = {
+      city: normalizeGeocodeQuery(query.city ?? ''),
+      state: normalizeGeocodeQuery(query.state ?? ''),
+      country: normalizeGeocodeQuery(query.country)
+    };
+    const params = new URLSearchParams({
+      ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value)),
+      ...(query.countryCode ? { countrycodes: query.countryCode.toLowerCase() } : {}),
+      format: 'json',
+      limit: String(this.options.searchLimit),
+      addressdetails: '1',
+      extratags: '1',
+      'accept-language': 'en',
+      ...outlineParams()
+    });
+
+    const results = await this.lookup<any[]>(
+      `structured:${fields.city}|${fields.state}|${fields.country}`,
+      `${NOMINATIM_BASE}/search?${params.toString()}`,
+      value => Array.isArray(value) ? value.map(withoutOversizedOutline) : value
+    );
+    return (results ?? []).map(toCandidate);
+  }
+
+  /**
+   * First (most relevant) match for a query, or null
+   */
+  async geocode(query: string): Promise<Location | null> {
+    const [first] = await this.search(query);
+    return first?.location ?? null;
+  }
+
+  /**
+   * City-level place at a point. The returned location keeps the given coordinates
+   * rather than the matched feature's centre (but the feature's extent, for species
+   * search); null for open ocean and other unnamed areas.
+   */
+  async reverse(lat: number, lon: number): Promise<Location | null> {
+    // zoom=10 resolves to city level, which is all species search needs
+    const params = new URLSearchParams({
+      lat: String(lat),
+      lon: String(lon),
+      format: 'json',
+      zoom: '10',
+      addressdetails: '1',
+      'accept-language': 'en',
+      ...outlineParams()
+    });
+
+    const data = await this.lookup<any>(
+      `reverse:${lat.toFixed(5)},${lon.toFixed(5)}`,
+      `${NOMINATIM_BASE}/reverse?${params.toString()}`,
+      withoutOversizedOutline
+    );
+
+    // Unnamed areas come back as { error: "Unable to geocode" }
+    if (!data || data.error || !data.address) return null;
+
+    return {
+      ...toLocation(data),
+      lat,
+      lon,
+      city: data.address.city || data.address.town || data.address.village || data.address.municipality
+    };
+  }
+
+  /**
+   * Cached, coalesced, queued request. `prepare` shapes the raw response before it is cached.
+   */
+  private async lookup<T>(key: string, url: string, prepare: (value: unknown) => unknown = value => value): Promise<T> {
+    const cached = await this.readCache(key);
+    if (cached) {
+      this.log(`💾 GEOCODE CACHE HIT: ${key}`);
+      return cached.value as T;
+    }
+
+    // Identical lookups already on their way share the same request
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = this.enqueue(() => this.fetchJson(url))
+      .then(prepare)
+      .then(async (value) => {
+        const isMiss = value === null || (Array.isArray(value) && value.length === 0) || Boolean((value as any)?.error);
+        await this.writeCache(key, {
+          value,
+          expiresAt: this.now() + (isMiss ? this.options.missTtlMs : this.options.cacheTtlMs)
+        });
+        return value as T;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Run requests one at a time, at least minIntervalMs apart, and after the
+   * shared slot when other processes use the same slot store
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      const wait = this.lastRequestAt + this.options.minIntervalMs - this.now();
+      if (wait > 0) await this.sleep(wait);
+
+      const slot = await this.reserveSharedSlot();
+      if (slot > this.now()) await this.sleep(slot - this.now());
+
+      this.lastRequestAt = this.now();
+      return task();
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // A slot store that can't be reached leaves only this process's own spacing
+  private async reserveSharedSlot(): Promise<number> {
+    if (!this.options.slots) return this.now();
+    try {
+      return await this.options.slots.reserve(this.options.minIntervalMs, this.now());
+    } catch (error) {
+      console.warn('⚠️ Shared geocoding request slot unavailable:', error);
+      return this.now();
+    }
+  }
+
+  private async fetchJson(url: string): Promise<unknown> {
+    this.log(`🌐 FETCHING from OpenStreetMap Nominatim:`, url);
+
+    const response = await this.fetcher(url, {
+      headers: { 'User-Agent': this.options.userAgent }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim request failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  private async readCache(key: string): Promise<CachedGeocode | undefined> {
+    let entry = this.memory.get(key);
+
+    if (!entry && this.options.store) {
+      try {
+        entry = await this.options.store.get(key);
+      } catch (error) {
+        console.warn('⚠️ Geocode cache read failed:', error);
+      }
+    }
+
+    if (!entry || entry.expiresAt <= this.now()) {
+      this.memory.delete(key);
+      return undefined;
+    }
+
+    this.remember(key, entry);
+    return entry;
+  }
+
+  private async writeCache(key: string, entry: CachedGeocode): Promise<void> {
+    this.remember(key, entry);
+
+    if (!this.options.store) return;
+    try {
+      await this.options.store.set(key, entry);
+    } catch (error) {
+      // Read-only filesystems (e.g. serverless) still get the in-memory cache
+      console.warn('⚠️ Geocode cache write failed:', error);
+    }
+  }
+
+  private remember(key: string, entry: CachedGeocode): void {
+    // Re-insert so Map order reflects recency of use
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+
+    while (this.memory.size > this.options.cacheMaxEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) break;
+      this.memory.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Create the geocoding service configured in CONFIG.geocoding
+ */
+export function createGeocodingService(overrides: Partial<GeocodingServiceOptions> = {}): GeocodingService {
+  const settings = CONFIG.geocoding;
+  const directory = path.resolve(settings.cacheDirectory);
+  const store = settings.cacheBackend === 'file' ? new FileGeocodeCacheStore(directory, settings.cacheMaxEntries) : undefined;
+  const slots = settings.cacheBackend === 'file' ? new FileRequestSlotStore(directory) : undefined;
+
+  return new GeocodingService({
+    minIntervalMs: settings.minIntervalMs,
+    searchLimit: settings.searchLimit,
+    cacheTtlMs: settings.cacheTtlMs,
+    missTtlMs: settings.missTtlMs,
+    cacheMaxEntries: settings.cacheMaxEntries,
+    userAgent: settings.userAgent,
+    store,
+    slots,
+    ...overrides
+  });
+}
+
+declare global {
+  var geocodingService: GeocodingService | undefined;
+}
+
+/**
+ * Shared service, kept on globalThis so every route in the process (and hot
+ * reloads in development) uses one queue and one cache.
+ */
+export const geocodingService: GeocodingService = globalThis.geocodingService ?? createGeocodingService();
+globalThis.geocodingService = geocodingService;
@@ -0,0 +1,289 @@
+import { CONFIG, createAnimalDescriptivePattern } from './config';
+import { findPlace, findPlaceInText } from './gazetteer';
+import { isCoordinateInput } from './coordinate-parser';
+import { getBaseUrl } from './utils';
+import { internalRequestHeaders } from './rate-limiter';
+
+// Deterministic ANIMAL vs LOCATION classifier.
+//
+// Scores come from local signals first (gazetteer, CONFIG.animals, input patterns),
+// then from a cached taxon-name index backed by the iNaturalist and GBIF proxy
+// routes. The LLM is only consulted when neither is confident.
+
+export type InputKind = 'ANIMAL' | 'LOCATION';
+
+export type ClassificationSource = 'local' | 'taxon-index' | 'llm' | 'default';
+
+export interface ClassificationScores {
+  animal: number;
+  location: number;
+}
+
+export interface ClassificationResult {
+  kind: InputKind;
+  confidence: number;
+  source: ClassificationSource;
+  scores: ClassificationScores;
+  signals: string[];
+}
+
+export interface ClassificationContext {
+  // Animal the user searched for previously (animal-location refinement step)
+  previousAnimal?: string;
+}
+
+export type LLMClassifier = (input: string, context: ClassificationContext) => Promise<InputKind>;
+
+export interface TaxonMatch {
+  score: number;
+  name?: string;
+  source?: 'inaturalist' | 'gbif';
+}
+
+type Fetcher = (url: string) => Promise<Response>;
+
+export interface TaxonIndexOptions {
+  ttlMs: number;
+  maxEntries: number;
+  fetcher?: Fetcher;
+  now?: () => number;
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * How well a taxon name matches the query: exact name, or every query word present
+ */
+function scoreTaxonName(query: string, name: string | undefined): number {
+  if (!name) return 0;
+  const normalizedName = normalizeText(name);
+  if (normalizedName === query) return 0.9;
+
+  const nameWords = new Set(normalizedName.split(' '));
+  const queryWords = query.split(' ');
+  if (queryWords.length > 1 && queryWords.every(word => nameWords.has(word))) return 0.75;
+
+  return 0;
+}
+
+/**
+ * Cache of taxon-name lookups against /api/inat/taxa and /api/gbif/search.
+ * Negative results are cached too so repeated place names never hit the network twice.
+ */
+export class TaxonIndex {
+  private cache = new Map<string, { match: TaxonMatch; expiresAt: number }>();
+  private fetcher: Fetcher;
+  private now: () => number;
+
+  constructor(private options: TaxonIndexOptions) {
+    this.fetcher = options.fetcher ?? ((url: string) => fetch(url, { headers: internalRequestHeaders() }));
+    this.now = options.now ?? Date.now;
+  }
+
+  async lookup(input: string): Promise<TaxonMatch> {
+    const query = normalizeText(input);
+    if (query.length < CONFIG.validation.minAnimalNameLength) return { score: 0 };
+
+    const cached = this.cache.get(query);
+    if (cached && cached.expiresAt > this.now()) return cached.match;
+
+    const [inat, gbif] = await Promise.allSettled([
+      this.lookupINaturalist(query),
+      this.lookupGBIF(query)
+    ]);
+
+    const matches = [inat, gbif]
+      .filter((r): r is PromiseFulfilledResult<TaxonMatch> => r.status === 'fulfilled')
+      .map(r => r.value);
+    const best = matches.sort((a, b) => b.score - a.score)[0] ?? { score: 0 };
+
+    // Only cache when at least one source answered, so outages don't poison the cache
+    if (matches.length > 0) {
+      this.cache.delete(query);
+      this.cache.set(query, { match: best, expiresAt: this.now() + this.options.ttlMs });
+      while (this.cache.size > this.options.maxEntries) {
+        const oldest = this.cache.keys().next().value;
+        if (oldest === undefined) break;
+        this.cache.delete(oldest);
+      }
+    }
+
+    return best;
+  }
+
+  private async lookupINaturalist(query: string): Promise<TaxonMatch> {
+    const response = await this.fetcher(`${getBaseUrl()}/api/inat/taxa?q=${encodeURIComponent(query)}&per_page=5`);
+    if (!response.ok) throw new Error(`iNaturalist taxa lookup failed: ${response.status}`);
+
+    const data = await response.json();
+    let best: TaxonMatch = { score: 0 };
+    for (const taxon of data.results || []) {
+      for (const name of [taxon.preferred_common_name, taxon.name, taxon.matched_term]) {
+        const score = scoreTaxonName(query, name);
+        if (score > best.score) best = { score, name, source: 'inaturalist' };
+      }
+    }
+    return best;
+  }
+
+  private async lookupGBIF(query: string): Promise<TaxonMatch> {
+    const response = await this.fetcher(`${getBaseUrl()}/api/gbif/search?q=${encodeURIComponent(query)}&limit=5`);
+    if (!response.ok) throw new Error(`GBIF search failed: ${response.status}`);
+
+    const data = await response.json();
+    let best: TaxonMatch = { score: 0 };
+    for (const taxon of data.results || []) {
+      const vernacularNames = (taxon.vernacularNames || []).map((v: { vernacularName: string }) => v.vernacularName);
+      for (const name of [taxon.canonicalName, ...vernacularNames]) {
+        const score = scoreTaxonName(query, name);
+        if (score > best.score) best = { score, name, source: 'gbif' };
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * Score an input using only local data (no network)
+ */
+export function scoreInputLocally(input: string, context: ClassificationContext = {}): { scores: ClassificationScores; signals: string[] } {
+  const text = input.trim();
+  const normalized = normalizeText(text);
+  const words = normalized.split(' ').filter(Boolean);
+  const signals: string[] = [];
+  const scores: ClassificationScores = { animal: 0, location: 0 };
+
+  const addLocation = (score: number, signal: string) => {
+    if (score > scores.location) scores.location = score;
+    signals.push(signal);
+  };
+  const addAnimal = (score: number, signal: string) => {
+    if (score > scores.animal) scores.animal = score;
+    signals.push(signal);
+  };
+
+  // Location signals
+  if (/\b(worldwide|all locations?|globally|global)\b/i.test(text)) {
+    addLocation(1, 'worldwide');
+  }
+
+  if (isCoordinateInput(text)) {
+    addLocation(1, 'coordinates');
+  }
+
+  const place = findPlace(text);
+  if (place) {
+    addLocation(0.95, `gazetteer:${place.kind}:${place.name}`);
+  }
+
+  const commaParts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (commaParts.length >= 2) {
+    const region = findPlace(commaParts[commaParts.length - 1]);
+    addLocation(region ? 0.9 : 0.6, region ? `comma-format:${region.name}` : 'comma-format');
+  }
+
+  const placeInText = place ? undefined : findPlaceInText(text);
+  if (/\b(?:i\s+(?:am|live)\s+in|in|near|around|at|from)\s+\w/i.test(text)) {
+    addLocation(placeInText ? 0.85 : 0.55, 'location-preposition');
+  } else if (placeInText) {
+    addLocation(0.5, `gazetteer-partial:${placeInText.name}`);
+  }
+
+  // Animal signals
+  const animalNames = new Set(CONFIG.animals.commonNames);
+  // "whales" -> "whale", "foxes" -> "fox"
+  const isAnimalName = (word: string) =>
+    animalNames.has(word) || animalNames.has(word.replace(/s$/, '')) || animalNames.has(word.replace(/es$/, ''));
+  const lastWord = words[words.length - 1] ?? '';
+
+  if (isAnimalName(normalized)) {
+    addAnimal(0.95, `animal-list:${normalized}`);
+  } else if (createAnimalDescriptivePattern().test(normalized)) {
+    addAnimal(0.85, 'animal-descriptive');
+  } else if (isAnimalName(lastWord)) {
+    addAnimal(0.8, `animal-head-noun:${lastWord}`);
+  } else if (words.some(isAnimalName)) {
+    addAnimal(0.6, 'animal-word');
+  }
+
+  if (context.previousAnimal) {
+    const previous = normalizeText(context.previousAnimal);
+    const previousWords = previous.split(' ');
+    if (normalized.includes(previous)) {
+      addAnimal(0.9, 'refines-previous-animal');
+    } else if (previousWords.length > 0 && words.includes(previousWords[previousWords.length - 1])) {
+      addAnimal(0.8, 'shares-animal-head-noun');
+    }
+  }
+
+  return { scores, signals };
+}
+
+export class InputClassifier {
+  constructor(
+    private taxonIndex: Pick<TaxonIndex, 'lookup'> = new TaxonIndex({
+      ttlMs: CONFIG.classifier.taxonCacheTtlMs,
+      maxEntries: CONFIG.classifier.taxonCacheMaxEntries
+    }),
+    private threshold: number = CONFIG.classifier.confidenceThreshold,
+    private minMargin: number = CONFIG.classifier.minMargin
+  ) {}
+
+  /**
+   * Classify an input as ANIMAL or LOCATION, calling `llmFallback` only when local
+   * signals and the taxon index are both inconclusive
+   */
+  async classify(input: string, context: ClassificationContext = {}, llmFallback?: LLMClassifier): Promise<ClassificationResult> {
+    const { scores, signals } = scoreInputLocally(input, context);
+
+    if (this.isDecisive(scores)) {
+      return this.decide(scores, signals, 'local');
+    }
+
+    // Not sure yet - check whether the input is a known taxon name
+    if (scores.animal < this.threshold) {
+      try {
+        const taxon = await this.taxonIndex.lookup(input);
+        if (taxon.score > 0) {
+          signals.push(`taxon:${taxon.source}:${taxon.name}`);
+          scores.animal = Math.max(scores.animal, taxon.score);
+        }
+      } catch (error) {
+        console.warn('⚠️ Taxon index lookup failed:', error);
+      }
+
+      if (this.isDecisive(scores)) {
+        return this.decide(scores, signals, 'taxon-index');
+      }
+    }
+
+    if (llmFallback && CONFIG.classifier.llmFallback) {
+      try {
+        const kind = await llmFallback(input, context);
+        return { kind, confidence: this.threshold, source: 'llm', scores, signals };
+      } catch (error) {
+        console.warn('⚠️ LLM classification failed, using local scores:', error);
+      }
+    }
+
+    // Best local guess; location-first is the default flow
+    return this.decide(scores, signals, scores.animal === 0 && scores.location === 0 ? 'default' : 'local');
+  }
+
+  private isDecisive(scores: ClassificationScores): boolean {
+    const best = Math.max(scores.animal, scores.location);
+    return best >= this.threshold && Math.abs(scores.animal - scores.location) >= this.minMargin;
+  }
+
+  private decide(scores: ClassificationScores, signals: string[], source: ClassificationSource): ClassificationResult {
+    const kind: InputKind = scores.animal > scores.location ? 'ANIMAL' : 'LOCATION';
+    const confidence = Math.abs(scores.animal - scores.location) > 0
+      ? Math.max(scores.animal, scores.location)
+      : 0;
+    return { kind, confidence, source, scores, signals };
+  }
+}
+
+export const inputClassifier = new InputClassifier();
@@ -0,0 +1,62 @@
+import type { Location, Organization } from './conservation-tools';
+import { countryCodeFor } from './country-registry';
+
+// Where to report an introduced or invasive animal, in place of the organizations
+// that protect native wildlife: national reporting schemes and management agencies
+// by ISO country code, the EU's alien species network for member states, and
+// global databases for everywhere else.
+
+const NATIONAL_AGENCIES: Record<string, Organization[]> = {
+  US: [
+    { name: 'EDDMapS (Early Detection & Distribution Mapping System)', website: 'https://www.eddmaps.org' },
+    { name: 'USGS Nonindigenous Aquatic Species Program', website: 'https://nas.er.usgs.gov' },
+    { name: 'National Invasive Species Information Center (USDA)', website: 'https://www.invasivespeciesinfo.gov' }
+  ],
+  CA: [
+    { name: 'Canadian Council on Invasive Species', website: 'https://canadainvasives.ca' }
+  ],
+  GB: [
+    { name: 'GB Non-native Species Secretariat', website: 'https://www.nonnativespecies.org' }
+  ],
+  IE: [
+    { name: 'Invasive Species Ireland', website: 'https://invasivespeciesireland.com' }
+  ],
+  AU: [
+    { name: 'FeralScan', website: 'https://www.feralscan.org.au' },
+    { name: 'Outbreak (Australian Government biosecurity)', website: 'https://www.outbreak.gov.au' }
+  ],
+  NZ: [
+    { name: 'Biosecurity New Zealand (Ministry for Primary Industries)', website: 'https://www.mpi.govt.nz' }
+  ],
+  ZA: [
+    { name: 'Invasive Species South Africa', website: 'https://www.invasives.org.za' }
+  ]
+};
+
+const EU_MEMBERS = new Set([
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'
+]);
+
+const EU_NETWORK: Organization = {
+  name: 'European Alien Species Information Network (EASIN)',
+  website: 'https://easin.jrc.ec.europa.eu'
+};
+
+const GLOBAL_AGENCIES: Organization[] = [
+  { name: 'Global Invasive Species Database (IUCN Invasive Species Specialist Group)', website: 'https://www.iucngisd.org/gisd' },
+  { name: 'iNaturalist (post the sighting so it is mapped)', website: 'https://www.inaturalist.org' }
+];
+
+/**
+ * Reporting schemes and management agencies for a location: national ones
+ * first, then the EU network for member states, then the global databases
+ */
+export function invasiveSpeciesAgencies(location: Location): Organization[] {
+  const country = countryCodeFor(location);
+  return [
+    ...(country ? NATIONAL_AGENCIES[country] ?? [] : []),
+    ...(country && EU_MEMBERS.has(country) ? [EU_NETWORK] : []),
+    ...GLOBAL_AGENCIES
+  ];
+}
@@ -1,4 +1,19 @@
-import { geocodeLocation, type Location } from './conservation-tools';
+import { geocodeCandidates, geocodeLocation, geocodeStructured, reverseGeocode, type Location } from './conservation-tools';
+import { CONFIG } from './config';
+import { assessAmbiguity } from './location-disambiguation';
+import { countryCodeFor } from './country-registry';
+import type { GeocodeCandidate, StructuredGeocodeQuery } from './geocoding-service';
+import { structuredQueryText } from './geocoder';
+import { findProtectedArea, hasAreaDesignation, namedAreaFromCandidate, protectedAreaLocation } from './protected-areas';
+import { findWaterBody, waterBodyLocation, waterTypeFromCandidate } from './water-bodies';
+import {
+  formatCoordinates,
+  isValidCoordinate,
+  parseCoordinates,
+  parseShortPlusCode,
+  recoverShortPlusCode,
+  reduceCoordinatePrecision
+} from './coordinate-parser';
 
 // Enhanced location parsing result
 export interface LocationParsingResult {
@@ -10,12 +25,17 @@ export interface LocationParsingResult {
   formattedLocationQuery?: string;
 }
 
+// A location as the search form collects it: a country, optionally narrowed to a state and city
+export type StructuredLocationInput = Pick<StructuredGeocodeQuery, 'country' | 'state' | 'city'>;
+
 export interface DisambiguationOption {
   displayName: string;
   searchQuery: string;
   description: string;
   country: string;
   region?: string;
+  // Geocoded candidate behind the option, so selecting it needs no second lookup
+  location?: Location;
 }
 
 // Location validation and parsing service
@@ -34,6 +54,12 @@ export class LocationAgent {
    */
   async parseLocation(userInput: string): Promise<LocationParsingResult> {
     try {
+      // Coordinates skip sanitizing (which strips °, ', " and +) and forward geocoding
+      const coordinateResult = await this.parseCoordinateLocation(userInput);
+      if (coordinateResult) {
+        return coordinateResult;
+      }
+
       const cleanInput = this.sanitizeInput(userInput);
 
       // Step 1: Basic validation
@@ -54,19 +80,41 @@ export class LocationAgent {
         };
       }
 
-      // Step 3: Check for ambiguous locations that need disambiguation
-      const ambiguityCheck = await this.checkForAmbiguousLocation(extractedLocation);
-      if (ambiguityCheck.needsDisambiguation) {
+      // Step 3: Well-known protected areas, natural features and water bodies resolve locally
+      const waterBody = findWaterBody(extractedLocation);
+      if (waterBody) {
+        console.log(`🌊 WATER BODY: "${extractedLocation}" → ${waterBody.name} (${waterBody.waterType})`);
+        return {
+          success: true,
+          location: waterBodyLocation(waterBody),
+          formattedLocationQuery: extractedLocation
+        };
+      }
+
+      const protectedArea = findProtectedArea(extractedLocation);
+      if (protectedArea) {
+        console.log(`🏞️ PROTECTED AREA: "${extractedLocation}" → ${protectedArea.name}`);
+        return {
+          success: true,
+          location: protectedAreaLocation(protectedArea),
+          formattedLocationQuery: extractedLocation
+        };
+      }
+
+      // Step 4: Geocode, and ask the user to choose when the candidates are different places
+      const candidates = this.preferNamedAreas(extractedLocation, await geocodeCandidates(extractedLocation, CONFIG.geocoding.searchLimit));
+      const ambiguity = assessAmbiguity(candidates);
+      if (ambiguity.needsDisambiguation) {
         return {
           success: false,
           needsDisambiguation: true,
-          disambiguationOptions: ambiguityCheck.options,
+          disambiguationOptions: ambiguity.options,
           formattedLocationQuery: extractedLocation
         };
       }
 
-      // Step 4: Geocode the location
-      const location = await geocodeLocation(extractedLocation);
+      // Step 5: Use the best candidate
+      const location = ambiguity.best && this.withNamedArea(ambiguity.best);
       if (!location) {
         // Try alternative formats if geocoding fails
         const alternatives = this.generateAlternativeQueries(extractedLocation);
@@ -87,7 +135,7 @@ export class LocationAgent {
         };
       }
 
-      // Step 5: Optimize location for websearch
+      // Step 6: Optimize location for websearch
       const optimizedLocation = this.optimizeLocationForWebsearch(location);
 
       return {
@@ -105,6 +153,111 @@ export class LocationAgent {
     }
   }
 
+  /**
+   * Entry point for the location form. The fields are geocoded as a structured
+   * query, so the best match is used as is; only when that finds nothing does the
+   * joined text go through free-text parsing, and possibly disambiguation.
+   */
+  async parseStructuredLocation(input: StructuredLocationInput): Promise<LocationParsingResult> {
+    const fields: StructuredLocationInput = {
+      country: this.sanitizeField(input.country),
+      state: this.sanitizeField(input.state) || undefined,
+      city: this.sanitizeField(input.city) || undefined
+    };
+    const formattedLocationQuery = structuredQueryText(fields);
+
+    if (!fields.country) {
+      return { success: false, errorMessage: 'Please enter a country.' };
+    }
+    if (formattedLocationQuery.length > 100) {
+      return { success: false, errorMessage: 'Location input is too long. Please use a shorter location name.' };
+    }
+
+    try {
+      const [best] = await geocodeStructured(fields);
+      if (best) {
+        console.log(`📋 STRUCTURED LOCATION: "${formattedLocationQuery}" → ${best.location.displayName}`);
+        return {
+          success: true,
+          location: this.optimizeLocationForWebsearch(this.withNamedArea(best)),
+          formattedLocationQuery
+        };
+      }
+    } catch (error) {
+      console.error('Structured geocoding error:', error);
+    }
+
+    return this.parseLocation(formattedLocationQuery);
+  }
+
+  /**
+   * "Kruger park" asks for the park, so protected areas and natural features
+   * beat towns and streets of the same name
+   */
+  private preferNamedAreas(query: string, candidates: GeocodeCandidate[]): GeocodeCandidate[] {
+    if (!hasAreaDesignation(query)) return candidates;
+    const areas = candidates.filter(candidate => namedAreaFromCandidate(candidate));
+    return areas.length > 0 ? areas : candidates;
+  }
+
+  private withNamedArea(candidate: GeocodeCandidate): Location {
+    const namedArea = namedAreaFromCandidate(candidate);
+    const waterType = waterTypeFromCandidate(candidate);
+    return namedArea ? { ...candidate.location, namedArea, ...(waterType && { waterType }) } : candidate.location;
+  }
+
+  /**
+   * Resolve decimal, DMS or plus-code input to a location by reverse geocoding.
+   * Returns null when the input is not coordinates.
+   */
+  private async parseCoordinateLocation(userInput: string): Promise<LocationParsingResult | null> {
+    let coordinates: { lat: number; lon: number } | null = parseCoordinates(userInput);
+
+    if (!coordinates) {
+      const shortCode = parseShortPlusCode(userInput);
+      if (!shortCode) {
+        return null;
+      }
+
+      // Short plus codes are relative to a nearby locality, which has to be geocoded first
+      const reference = await geocodeLocation(shortCode.locality);
+      coordinates = reference && recoverShortPlusCode(shortCode.code, reference.lat, reference.lon);
+      if (!coordinates) {
+        return {
+          success: false,
+          errorMessage: `Unable to find "${shortCode.locality}" for plus code ${shortCode.code}. Please use the full plus code or decimal coordinates.`
+        };
+      }
+    }
+
+    console.log(`📍 COORDINATE INPUT: "${userInput}"`);
+    return this.resolveCoordinates(coordinates.lat, coordinates.lon);
+  }
+
+  /**
+   * Reverse geocode a point into a location. Coordinates are reduced to the
+   * configured precision first, so exact positions never reach the session.
+   */
+  async resolveCoordinates(latitude: number, longitude: number): Promise<LocationParsingResult> {
+    if (!isValidCoordinate(latitude, longitude)) {
+      return {
+        success: false,
+        errorMessage: 'Coordinates are out of range. Latitude must be between -90 and 90 and longitude between -180 and 180.'
+      };
+    }
+
+    const { lat, lon } = reduceCoordinatePrecision(latitude, longitude, CONFIG.geolocation.coordinatePrecision);
+    const formattedLocationQuery = formatCoordinates(lat, lon);
+
+    // Unnamed places (open ocean, remote areas) still have coordinates to search around
+    const location = await reverseGeocode(lat, lon);
+    return {
+      success: true,
+      location: location ? this.optimizeLocationForWebsearch(location) : { lat, lon, displayName: formattedLocationQuery },
+      formattedLocationQuery
+    };
+  }
+
   /**
    * Clean and sanitize user input
    */
@@ -116,6 +269,13 @@ export class LocationAgent {
       .toLowerCase();
   }
 
+  /**
+   * One form field with only letters (accented too), spaces and name punctuation kept
+   */
+  private sanitizeField(field: string | undefined): string {
+    return (field ?? '').replace(/[^\p{L}\p{M}\s.'-]/gu, '').replace(/\s+/g, ' ').trim();
+  }
+
   /**
    * Validate location input before processing
    */
@@ -188,230 +348,6 @@ export class LocationAgent {
       .join(' ');
   }
 
-  /**
-   * Check if location is ambiguous and needs disambiguation
-   */
-  private async checkForAmbiguousLocation(locationQuery: string): Promise<{
-    needsDisambiguation: boolean;
-    options?: DisambiguationOption[];
-  }> {
-    // Common ambiguous city names
-    const ambiguousCities = new Map<string, DisambiguationOption[]>([
-      ['Paris', [
-        {
-          displayName: 'Paris, France',
-          searchQuery: 'Paris, France',
-          description: 'Capital city of France',
-          country: 'France'
-        },
-        {
-          displayName: 'Paris, Texas',
-          searchQuery: 'Paris, Texas, USA',
-          description: 'City in Texas, United States',
-          country: 'United States',
-          region: 'Texas'
-        }
-      ]],
-      ['London', [
-        {
-          displayName: 'London, England',
-          searchQuery: 'London, England, UK',
-          description: 'Capital city of England and the UK',
-          country: 'United Kingdom'
-        },
-        {
-          displayName: 'London, Ontario',
-          searchQuery: 'London, Ontario, Canada',
-          description: 'City in Ontario, Canada',
-          country: 'Canada',
-          region: 'Ontario'
-        }
-      ]],
-      ['Portland', [
-        {
-          displayName: 'Portland, Oregon',
-          searchQuery: 'Portland, Oregon, USA',
-          description: 'City in Oregon, United States',
-          country: 'United States',
-          region: 'Oregon'
-        },
-        {
-          displayName: 'Portland, Maine',
-          searchQuery: 'Portland, Maine, USA',
-          description: 'City in Maine, United States',
-          country: 'United States',
-          region: 'Maine'
-        }
-      ]],
-      ['Cambridge', [
-        {
-          displayName: 'Cambridge, England',
-          searchQuery: 'Cambridge, England, UK',
-          description: 'University city in England',
-          country: 'United Kingdom'
-        },
-        {
-          displayName: 'Cambridge, Massachusetts',
-          searchQuery: 'Cambridge, Massachusetts, USA',
-          description: 'City in Massachusetts, United States',
-          country: 'United States',
-          region: 'Massachusetts'
-        }
-      ]],
-      ['Miami', [
-        {
-          displayName: 'Miami, Florida',
-          searchQuery: 'Miami, Florida, USA',
-          description: 'A major city known for its cultural and economic significance',
-          country: 'United States',
-          region: 'Florida'
-        },
-        {
-          displayName: 'Miami, Ohio',
-          searchQuery: 'Miami, Ohio, USA',
-          description: 'A village that hosts Miami University',
-          country: 'United States',
-          region: 'Ohio'
-        },
-        {
-          displayName: 'Miami, Oklahoma',
-          searchQuery: 'Miami, Oklahoma, USA',
-          description: 'A city known for Route 66 history',
-          country: 'United States',
-          region: 'Oklahoma'
-        }
-      ]],
-      ['Springfield', [
-        {
-          displayName: 'Springfield, Illinois',
-          searchQuery: 'Springfield, Illinois, USA',
-          description: 'Capital city of Illinois',
-          country: 'United States',
-          region: 'Illinois'
-        },
-        {
-          displayName: 'Springfield, Massachusetts',
-          searchQuery: 'Springfield, Massachusetts, USA',
-          description: 'City in Massachusetts, United States',
-          country: 'United States',
-          region: 'Massachusetts'
-        },
-        {
-          displayName: 'Springfield, Missouri',
-          searchQuery: 'Springfield, Missouri, USA',
-          description: 'City in Missouri, United States',
-          country: 'United States',
-          region: 'Missouri'
-        }
-      ]]
-    ]);
-
-    const normalizedQuery = locationQuery.toLowerCase().trim();
-
-    // Check for exact matches in ambiguous cities
-    for (const [cityName, options] of ambiguousCities.entries()) {
-      if (normalizedQuery === cityName.toLowerCase()) {
-        return {
-          needsDisambiguation: true,
-          options
-        };
-      }
-    }
-
-    // If it's just a common city name without state/country context, use AI to check
-    if (!locationQuery.includes(',') && locationQuery.split(' ').length <= 2) {
-      try {
-        const aiDisambiguation = await this.aiDisambiguationCheck(locationQuery);
-        if (aiDisambiguation.needsDisambiguation) {
-          return aiDisambiguation;
-        }
-      } catch (error) {
-        console.warn('AI disambiguation check failed:', error);
-      }
-    }
-
-    return { needsDisambiguation: false };
-  }
-
-  /**
-   * Use AI to check for location disambiguation needs
-   */
-  private async aiDisambiguationCheck(locationQuery: string): Promise<{
-    needsDisambiguation: boolean;
-    options?: DisambiguationOption[];
-  }> {
-    if (!process.env.OPENAI_API_KEY) {
-      return { needsDisambiguation: false };
-    }
-
-    try {
-      // Import OpenAI and generateText dynamically
-      const { openai } = await import('@ai-sdk/openai');
-      const { generateText } = await import('ai');
-
-      const result = await generateText({
-        model: openai('gpt-4o'),
-        system: `You are a location disambiguation expert. Determine if a location name is ambiguous and needs clarification.`,
-        prompt: `Location: "${locationQuery}"
-
-Is this location name ambiguous (meaning there are multiple well-known places with this exact name)?
-
-If YES, provide 2-4 most common options in this exact format:
-
-NEEDS_DISAMBIGUATION
-1. Full Location Name - Description - Country - Region(optional)
-2. Full Location Name - Description - Country - Region(optional)
-
-If NO (unambiguous or very clearly refers to one major place), respond:
-
-NO_DISAMBIGUATION_NEEDED
-
-Examples:
-- "Paris" → NEEDS_DISAMBIGUATION (Paris, France vs Paris, Texas)
-- "Tokyo" → NO_DISAMBIGUATION_NEEDED (clearly refers to Tokyo, Japan)
-- "Birmingham" → NEEDS_DISAMBIGUATION (Birmingham, England vs Birmingham, Alabama)`
-      });
-
-      if (result.text.includes('NEEDS_DISAMBIGUATION')) {
-        const options = this.parseAiDisambiguationResponse(result.text);
-        return {
-          needsDisambiguation: true,
-          options
-        };
-      }
-
-      return { needsDisambiguation: false };
-    } catch (error) {
-      console.error('AI disambiguation error:', error);
-      return { needsDisambiguation: false };
-    }
-  }
-
-  /**
-   * Parse AI disambiguation response into structured options
-   */
-  private parseAiDisambiguationResponse(response: string): DisambiguationOption[] {
-    const options: DisambiguationOption[] = [];
-    const lines = response.split('\n');
-
-    for (const line of lines) {
-      const match = line.match(/^\d+\.\s*([^-]+)\s*-\s*([^-]+)\s*-\s*([^-]+)(?:\s*-\s*(.+))?/);
-      if (match) {
-        const [, fullName, description, country, region] = match;
-
-        options.push({
-          displayName: fullName.trim(),
-          searchQuery: fullName.trim(),
-          description: description.trim(),
-          country: country.trim(),
-          region: region?.trim()
-        });
-      }
-    }
-
-    return options;
-  }
-
   /**
    * Generate alternative query formats if initial geocoding fails
    */
@@ -447,11 +383,16 @@ Examples:
    * Optimize location data for websearch queries
    */
   private optimizeLocationForWebsearch(location: Location): Location {
+    // Named areas keep their own name rather than the surrounding state or city
+    if (location.namedArea) {
+      return location;
+    }
+
     // Create optimized display name for web search
     let optimizedDisplayName = location.displayName;
 
     // For US locations, prefer "City, State" format
-    if (location.country?.toLowerCase().includes('united states') && location.city && location.state) {
+    if (countryCodeFor(location) === 'US' && location.city && location.state) {
       optimizedDisplayName = `${location.city}, ${location.state}, United States`;
     }
     // For other countries, prefer "City, Country" format
@@ -474,7 +415,7 @@ Examples:
    */
   async handleDisambiguationSelection(selectedOption: DisambiguationOption): Promise<LocationParsingResult> {
     try {
-      const location = await geocodeLocation(selectedOption.searchQuery);
+      const location = selectedOption.location ?? await geocodeLocation(selectedOption.searchQuery);
 
       if (!location) {
         return {
@@ -498,22 +439,6 @@ Examples:
       };
     }
   }
-
-  /**
-   * Format disambiguation options for user display
-   */
-  formatDisambiguationMessage(options: DisambiguationOption[]): string {
-    let message = `🌍 **Please add more info to your location!**\n\nI found multiple places with that name:\n\n`;
-
-    options.forEach((option, index) => {
-      message += `• **${option.displayName}**\n`;
-      message += `  ${option.description}\n\n`;
-    });
-
-    message += `Please respond with the **full location name** (including state/country) from the list above, or add the state/country to your original location.`;
-
-    return message;
-  }
 }
 
 // Export convenience functions
@@ -523,6 +448,10 @@ export async function parseUserLocation(userInput: string): Promise<LocationPars
   return locationAgent.parseLocation(userInput);
 }
 
+export async function parseStructuredUserLocation(input: StructuredLocationInput): Promise<LocationParsingResult> {
+  return locationAgent.parseStructuredLocation(input);
+}
+
 export async function handleLocationDisambiguation(
   selectedOption: DisambiguationOption
 ): Promise<LocationParsingResult> {
@@ -0,0 +1,123 @@
+import { CONFIG } from './config';
+import type { Location } from './conservation-tools';
+import type { GeocodeCandidate } from './geocoding-service';
+import type { DisambiguationOption } from './location-agent';
+
+// Decide from geocoder candidates whether a place name is ambiguous. A name only
+// needs the user's help when several candidates are comparably prominent
+// (Nominatim importance), settlement-level or larger (place rank), and are
+// genuinely different places: in different countries, or far apart in one.
+
+export type DisambiguationSettings = typeof CONFIG.disambiguation;
+
+export interface AmbiguityAssessment {
+  needsDisambiguation: boolean;
+  // Most important candidate; used directly when no disambiguation is needed
+  best?: GeocodeCandidate;
+  options?: DisambiguationOption[];
+}
+
+// Labels for administrative areas, which Nominatim only types as "administrative"
+const PLACE_RANK_LABELS: Array<[number, string]> = [
+  [4, 'Country'],
+  [8, 'State or province'],
+  [12, 'County or district'],
+  [16, 'City'],
+  [18, 'Town'],
+  [20, 'Village']
+];
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function distanceKm(a: Pick<Location, 'lat' | 'lon'>, b: Pick<Location, 'lat' | 'lon'>): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+function isSamePlace(a: GeocodeCandidate, b: GeocodeCandidate, minDistanceKm: number): boolean {
+  if (a.location.country !== b.location.country) return false;
+  return distanceKm(a.location, b.location) < minDistanceKm;
+}
+
+function placeKind(candidate: GeocodeCandidate): string {
+  if (candidate.placeType && candidate.placeType !== 'administrative') {
+    const words = candidate.placeType.replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+  const label = PLACE_RANK_LABELS.find(([rank]) => candidate.placeRank <= rank);
+  return label ? label[1] : 'Place';
+}
+
+/**
+ * "City in Texas, United States (population 24,171)"
+ */
+export function describeCandidate(candidate: GeocodeCandidate): string {
+  const { state, country } = candidate.location;
+  const within = [state, country].filter((part): part is string => Boolean(part) && part !== candidate.name);
+
+  let description = within.length > 0 ? `${placeKind(candidate)} in ${within.join(', ')}` : placeKind(candidate);
+  if (candidate.population) {
+    description += ` (population ${candidate.population.toLocaleString('en-US')})`;
+  }
+  return description;
+}
+
+export function toDisambiguationOption(candidate: GeocodeCandidate): DisambiguationOption {
+  const { state, country } = candidate.location;
+  const parts = [candidate.name, state, country].filter((part, index, all): part is string =>
+    Boolean(part) && all.indexOf(part) === index
+  );
+  const label = parts.join(', ');
+
+  return {
+    displayName: label,
+    searchQuery: label,
+    description: describeCandidate(candidate),
+    country: country || '',
+    region: state,
+    location: candidate.location
+  };
+}
+
+/**
+ * Rank candidates and decide whether the user has to pick one
+ */
+export function assessAmbiguity(
+  candidates: GeocodeCandidate[],
+  settings: DisambiguationSettings = CONFIG.disambiguation
+): AmbiguityAssessment {
+  const ranked = [...candidates].sort((a, b) => b.importance - a.importance);
+  const best = ranked[0];
+  if (!best) return { needsDisambiguation: false };
+
+  // Streets, buildings and minor places never compete with a prominent match
+  const contenders = ranked.filter(candidate =>
+    candidate.placeRank <= settings.maxPlaceRank &&
+    candidate.importance >= best.importance * settings.minImportanceRatio
+  );
+
+  // A city, its county and its boundary polygon are one place, not a choice
+  const distinct: GeocodeCandidate[] = [];
+  for (const candidate of contenders) {
+    if (!distinct.some(kept => isSamePlace(kept, candidate, settings.minDistanceKm))) {
+      distinct.push(candidate);
+    }
+  }
+
+  if (distinct.length < 2) {
+    return { needsDisambiguation: false, best };
+  }
+
+  const countries = new Set(distinct.map(candidate => candidate.location.country));
+  console.log(`🧭 AMBIGUOUS LOCATION: ${distinct.length} distinct places across ${countries.size} countries`);
+
+  return {
+    needsDisambiguation: true,
+    best,
+    options: distinct.slice(0, settings.maxOptions).map(toDisambiguationOption)
+  };
+}
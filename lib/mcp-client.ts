@@ -6,6 +6,8 @@
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { BoundingBox, NamedArea, WaterType } from './conservation-tools';
+import type { RedListCategory, SpeciesPage, TaxonGroup } from './species-filters';
 
 // Environment detection
 const IS_PRODUCTION = process.env.VERCEL || process.env.NODE_ENV === 'production';
@@ -266,7 +268,18 @@ export const speciesFetcherMCP = {
     city?: string;
     state?: string;
     country?: string;
-  }) {
+    boundingBox?: BoundingBox;
+    polygon?: string;
+    namedArea?: NamedArea;
+    waterType?: WaterType;
+    taxonGroups?: TaxonGroup[];
+    redListCategories?: RedListCategory[];
+    months?: number[];
+    startDate?: string;
+    endDate?: string;
+    nonNative?: boolean;
+    cursor?: string;
+  }): Promise<SpeciesPage> {
     const manager = getMCPClientManager();
     return manager.callTool('speciesFetcher', 'find_species_by_location', location);
   },
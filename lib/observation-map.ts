@@ -0,0 +1,224 @@
+import type { WildlifeObservation } from './wildlife-data-service';
+import basemap from './data/world-basemap.json';
+
+// Geometry for the observation map panel: a Web Mercator view around the search
+// location, observations clustered by screen distance, and SVG paths for the
+// base layer. The base layer is Natural Earth 1:110m land and country boundaries
+// (public domain, via world-atlas) in data/world-basemap.json, so the map needs
+// no tile server or API key. Rings that cross the antimeridian are stored
+// unbroken, with longitudes past 180.
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface MapViewport {
+  center: GeoPoint;
+  zoom: number;
+}
+
+export interface MapSize {
+  width: number;
+  height: number;
+}
+
+export interface ObservationCluster<T> {
+  id: string;
+  x: number; // screen position of the members' centroid
+  y: number;
+  observations: T[];
+}
+
+export const MIN_ZOOM = 2;
+export const MAX_ZOOM = 13;
+const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.0511; // Web Mercator cuts off the poles
+const DEFAULT_ZOOM = 9; // about 50 km across a 320px panel, the species search radius
+
+type MappablePoint = Pick<WildlifeObservation, 'lat' | 'lng'>;
+
+function worldSize(zoom: number): number {
+  return TILE_SIZE * 2 ** zoom;
+}
+
+// Position in world pixels at a zoom level
+function toWorld(point: GeoPoint, zoom: number): { x: number; y: number } {
+  const size = worldSize(zoom);
+  const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.lat)) * Math.PI / 180;
+  return {
+    x: (point.lon + 180) / 360 * size,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2 * size
+  };
+}
+
+function fromWorld(x: number, y: number, zoom: number): GeoPoint {
+  const size = worldSize(zoom);
+  const n = Math.PI - 2 * Math.PI * y / size;
+  return {
+    lat: Math.atan(Math.sinh(n)) * 180 / Math.PI,
+    lon: x / size * 360 - 180
+  };
+}
+
+/**
+ * Screen position of a point in the viewport; (0, 0) is the top-left corner
+ */
+export function projectPoint(point: GeoPoint, viewport: MapViewport, size: MapSize): { x: number; y: number } {
+  const world = toWorld(point, viewport.zoom);
+  const center = toWorld(viewport.center, viewport.zoom);
+  return { x: world.x - center.x + size.width / 2, y: world.y - center.y + size.height / 2 };
+}
+
+/**
+ * Point under a screen position in the viewport
+ */
+export function unprojectPoint(x: number, y: number, viewport: MapViewport, size: MapSize): GeoPoint {
+  const center = toWorld(viewport.center, viewport.zoom);
+  return fromWorld(center.x + x - size.width / 2, center.y + y - size.height / 2, viewport.zoom);
+}
+
+/**
+ * Viewport moved by a drag of (dx, dy) pixels
+ */
+export function panViewport(viewport: MapViewport, dx: number, dy: number): MapViewport {
+  const center = toWorld(viewport.center, viewport.zoom);
+  const moved = fromWorld(center.x - dx, center.y - dy, viewport.zoom);
+  // Keep longitudes in range after panning across the antimeridian
+  return { ...viewport, center: { lat: moved.lat, lon: ((moved.lon + 540) % 360) - 180 } };
+}
+
+/**
+ * Viewport zoomed to a level, keeping the point under (x, y) in place when given
+ */
+export function zoomViewport(viewport: MapViewport, zoom: number, size: MapSize, anchor?: { x: number; y: number }): MapViewport {
+  const level = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+  if (!anchor) return { ...viewport, zoom: level };
+
+  const fixed = unprojectPoint(anchor.x, anchor.y, viewport, size);
+  const world = toWorld(fixed, level);
+  return {
+    center: fromWorld(world.x - anchor.x + size.width / 2, world.y - anchor.y + size.height / 2, level),
+    zoom: level
+  };
+}
+
+/**
+ * Observations that can be placed on the map; sources report a missing location as 0,0
+ */
+export function mappableObservations<T extends MappablePoint>(observations: T[]): T[] {
+  return observations.filter(({ lat, lng }) =>
+    Number.isFinite(lat) && Number.isFinite(lng) && !(lat === 0 && lng === 0) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+}
+
+/**
+ * Viewport around the search location, zoomed in as far as the observations allow
+ */
+export function fitViewport(center: GeoPoint, observations: MappablePoint[], size: MapSize, padding: number = 24): MapViewport {
+  if (observations.length === 0) return { center, zoom: DEFAULT_ZOOM };
+
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const viewport = { center, zoom };
+    const fits = observations.every(({ lat, lng }) => {
+      const { x, y } = projectPoint({ lat, lon: lng }, viewport, size);
+      return x >= padding && x <= size.width - padding && y >= padding && y <= size.height - padding;
+    });
+    if (fits) return viewport;
+  }
+  return { center, zoom: MIN_ZOOM };
+}
+
+/**
+ * Group observations that would overlap on screen: each point joins the first
+ * cluster within `radius` pixels of where that cluster started, and a cluster
+ * is drawn at its members' centroid
+ */
+export function clusterObservations<T extends MappablePoint>(
+  observations: T[],
+  viewport: MapViewport,
+  size: MapSize,
+  radius: number = 32
+): ObservationCluster<T>[] {
+  const clusters: Array<{ seedX: number; seedY: number; sumX: number; sumY: number; observations: T[] }> = [];
+
+  for (const observation of observations) {
+    const { x, y } = projectPoint({ lat: observation.lat, lon: observation.lng }, viewport, size);
+    const cluster = clusters.find(({ seedX, seedY }) => Math.hypot(seedX - x, seedY - y) <= radius);
+    if (cluster) {
+      cluster.sumX += x;
+      cluster.sumY += y;
+      cluster.observations.push(observation);
+    } else {
+      clusters.push({ seedX: x, seedY: y, sumX: x, sumY: y, observations: [observation] });
+    }
+  }
+
+  return clusters.map(cluster => ({
+    id: `${Math.round(cluster.seedX)}:${Math.round(cluster.seedY)}`,
+    x: cluster.sumX / cluster.observations.length,
+    y: cluster.sumY / cluster.observations.length,
+    observations: cluster.observations
+  }));
+}
+
+type Ring = number[][]; // [lon, lat] pairs
+
+interface IndexedRing {
+  points: Ring;
+  bounds: [number, number, number, number]; // [west, south, east, north]
+}
+
+interface BasemapIndex {
+  land: IndexedRing[];
+  borders: IndexedRing[];
+}
+
+let basemapIndex: BasemapIndex | null = null;
+
+function indexRings(rings: Ring[]): IndexedRing[] {
+  return rings.map(points => {
+    const lons = points.map(([lon]) => lon);
+    const lats = points.map(([, lat]) => lat);
+    return { points, bounds: [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)] };
+  });
+}
+
+function getBasemap(): BasemapIndex {
+  if (!basemapIndex) {
+    basemapIndex = { land: indexRings(basemap.land), borders: indexRings(basemap.borders) };
+  }
+  return basemapIndex;
+}
+
+// SVG path data for the rings inside the viewport, repeated a world to either
+// side when the view crosses the antimeridian
+function ringPaths(rings: IndexedRing[], viewport: MapViewport, size: MapSize, closed: boolean): string[] {
+  const topLeft = unprojectPoint(0, 0, viewport, size);
+  const bottomRight = unprojectPoint(size.width, size.height, viewport, size);
+  const paths: string[] = [];
+
+  for (const offset of [-360, 0, 360]) {
+    for (const { points, bounds: [west, south, east, north] } of rings) {
+      if (east + offset < topLeft.lon || west + offset > bottomRight.lon || north < bottomRight.lat || south > topLeft.lat) continue;
+
+      const path = points.map(([lon, lat], index) => {
+        const { x, y } = projectPoint({ lat, lon: lon + offset }, viewport, size);
+        return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`;
+      }).join('');
+      paths.push(closed ? `${path}Z` : path);
+    }
+  }
+  return paths;
+}
+
+/**
+ * SVG path data for the base layer: land polygons and country boundary lines
+ */
+export function basemapPaths(viewport: MapViewport, size: MapSize): { land: string[]; borders: string[] } {
+  const { land, borders } = getBasemap();
+  return {
+    land: ringPaths(land, viewport, size, true),
+    borders: ringPaths(borders, viewport, size, false)
+  };
+}
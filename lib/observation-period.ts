@@ -0,0 +1,152 @@
+// When species were observed: months of the year ("in April", "in spring") or a
+// date range ("from 2025-04-01 to 2025-04-15"), so a trip in April gets April's
+// species and migrants stop showing up year-round. Seasons follow the hemisphere
+// of the location being searched.
+
+export interface ObservationPeriod {
+  months?: number[]; // 1-12 in calendar order from the first month; may wrap the year end (12, 1, 2)
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_ABBREVIATIONS: Record<string, number> = { jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12 };
+
+// Northern-hemisphere meteorological seasons; southern ones are six months later
+const SEASONS: Record<string, number[]> = {
+  spring: [3, 4, 5],
+  summer: [6, 7, 8],
+  autumn: [9, 10, 11],
+  fall: [9, 10, 11],
+  winter: [12, 1, 2]
+};
+
+const MONTH = `(${[...MONTH_NAMES, ...Object.keys(MONTH_ABBREVIATIONS)].join('|')})`;
+const DATE = '(\\d{4}-\\d{2}-\\d{2})';
+const LEAD = '(?:\\b(?:in|during|for|around|from|this|next|the|of)\\s+)*';
+// "April to June", "April-June", "between April and June"
+const range = (from: string, to: string) =>
+  new RegExp(`${LEAD}(?:\\bbetween\\s+${from}\\s+and\\s+${to}|${from}\\s*(?:to|until|through|-)\\s*${to})`);
+
+const DATE_RANGE = range(DATE, DATE);
+const MONTH_RANGE = range(`\\b${MONTH}`, `${MONTH}\\b`);
+const SEASON = new RegExp(`${LEAD}\\b(${Object.keys(SEASONS).join('|')})\\b`);
+const MONTHS = new RegExp(`${LEAD}\\b${MONTH}\\b`, 'g');
+const ANY_TIME = /\b(?:at )?(any time|anytime|all year|all year round|year round|year-round|the whole year)\b/;
+
+function monthNumber(name: string): number {
+  return MONTH_ABBREVIATIONS[name] ?? MONTH_NAMES.indexOf(name) + 1;
+}
+
+/**
+ * Months from `first` to `last`, wrapping the year end ("November to February")
+ */
+export function monthRange(first: number, last: number): number[] {
+  const length = ((last - first + 12) % 12) + 1;
+  return Array.from({ length }, (_, index) => ((first - 1 + index) % 12) + 1);
+}
+
+function isValidDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+/**
+ * Months of a season at a latitude: "spring" is March to May in the north and
+ * September to November in the south
+ */
+export function seasonMonths(season: string, latitude: number = 0): number[] {
+  const months = SEASONS[season] ?? [];
+  return latitude < 0 ? months.map(month => ((month + 5) % 12) + 1) : months;
+}
+
+/**
+ * Find an observation period in (lower-case) text. Returns the period with the
+ * rest of the text, a null period for "any time" (clear the period), or
+ * undefined when the text names no period.
+ */
+export function extractObservationPeriod(
+  text: string,
+  latitude: number = 0
+): { period: ObservationPeriod | null; rest: string } | undefined {
+  const rest = (match: RegExpMatchArray) => text.replace(match[0], ' ').replace(/\s+/g, ' ').trim();
+
+  const dates = text.match(DATE_RANGE);
+  const [dateFrom, dateTo] = dates ? dates.slice(1).filter(Boolean) : [];
+  if (dates && isValidDate(dateFrom) && isValidDate(dateTo)) {
+    const [startDate, endDate] = [dateFrom, dateTo].sort();
+    return { period: { startDate, endDate }, rest: rest(dates) };
+  }
+
+  const monthSpan = text.match(MONTH_RANGE);
+  if (monthSpan) {
+    const [first, last] = monthSpan.slice(1).filter(Boolean);
+    return { period: { months: monthRange(monthNumber(first), monthNumber(last)) }, rest: rest(monthSpan) };
+  }
+
+  const season = text.match(SEASON);
+  if (season) {
+    return { period: { months: seasonMonths(season[1], latitude) }, rest: rest(season) };
+  }
+
+  // "in April", "in April and June"; a bare "may" is the verb ("what may I see")
+  const months = [...text.matchAll(MONTHS)].filter(match => match[1] !== 'may' || match[0].trim() !== 'may');
+  if (months.length > 0) {
+    const numbers = [...new Set(months.map(match => monthNumber(match[1])))];
+    const remaining = months.reduce((remainingText, match) => remainingText.replace(match[0], ' '), text);
+    return { period: { months: numbers }, rest: remaining.replace(/\s+/g, ' ').trim() };
+  }
+
+  const anyTime = text.match(ANY_TIME);
+  if (anyTime) {
+    return { period: null, rest: rest(anyTime) };
+  }
+
+  return undefined;
+}
+
+function monthLabel(month: number): string {
+  const name = MONTH_NAMES[month - 1];
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Human-readable period ("in April", "from March to May", "from 2025-04-01 to 2025-04-15")
+ */
+export function describeObservationPeriod(period: ObservationPeriod | undefined): string {
+  if (period?.startDate && period.endDate) return `from ${period.startDate} to ${period.endDate}`;
+
+  const months = period?.months ?? [];
+  if (months.length === 0) return '';
+  if (months.length === 1) return `in ${monthLabel(months[0])}`;
+
+  const contiguous = months.every((month, index) => index === 0 || month === (months[index - 1] % 12) + 1);
+  return contiguous
+    ? `from ${monthLabel(months[0])} to ${monthLabel(months[months.length - 1])}`
+    : `in ${months.slice(0, -1).map(monthLabel).join(', ')} and ${monthLabel(months[months.length - 1])}`;
+}
+
+export function hasObservationPeriod(period: ObservationPeriod | undefined): boolean {
+  return Boolean(period?.months?.length || (period?.startDate && period.endDate));
+}
+
+/**
+ * iNaturalist observation parameters: month=4,5 and d1/d2
+ */
+export function inatPeriodParams(period: ObservationPeriod | undefined): Record<string, string> {
+  return {
+    ...(period?.months?.length ? { month: period.months.join(',') } : {}),
+    ...(period?.startDate && period.endDate ? { d1: period.startDate, d2: period.endDate } : {})
+  };
+}
+
+/**
+ * GBIF occurrence parameters: one month= per month (a "4,5" value would be a
+ * range, which cannot wrap the year end) and an eventDate range
+ */
+export function gbifPeriodParams(period: ObservationPeriod | undefined): Array<[string, string]> {
+  return [
+    ...(period?.months ?? []).map(month => ['month', String(month)] as [string, string]),
+    ...(period?.startDate && period.endDate ? [['eventDate', `${period.startDate},${period.endDate}`] as [string, string]] : [])
+  ];
+}
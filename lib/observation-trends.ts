@@ -0,0 +1,238 @@
+import { CONFIG } from './config';
+import type { Location, Species } from './conservation-tools';
+import { getBaseUrl } from './utils';
+import { internalRequestHeaders } from './rate-limiter';
+import { searchBoundingBox, toGbifGeometry, toInatBounds } from './place-geometry';
+
+// Whether a species is being seen more or less often around a location. Yearly
+// and month-of-year counts come from GBIF occurrence facets and iNaturalist
+// histograms; each count is divided by all observations in the same area and
+// period, so a year when more people went looking does not read as more animals.
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable' | 'insufficient-data';
+export type TrendSource = 'GBIF' | 'iNaturalist';
+
+export interface TrendPoint {
+  period: number; // year, or month of the year (1-12)
+  speciesCount: number;
+  totalCount: number; // all observations in the area: the sampling effort
+  rate: number; // species records per 1,000 observations
+}
+
+export interface ObservationTrend {
+  speciesName: string;
+  locationName: string;
+  yearly: TrendPoint[];
+  monthly: TrendPoint[];
+  sources: TrendSource[]; // sources that returned counts
+  direction: TrendDirection;
+  changePerYear?: number; // yearly change in the rate, as a share of its average (-0.08: 8% of it lost a year)
+}
+
+export type TrendSettings = typeof CONFIG.observationTrends;
+
+type Counts = Map<number, number>;
+
+interface SourceCounts {
+  source: TrendSource;
+  yearly: { species: Counts; total: Counts };
+  monthly: { species: Counts; total: Counts };
+}
+
+type Fetcher = (url: string) => Promise<Response>;
+
+export interface ObservationTrendOptions {
+  fetcher?: Fetcher;
+  settings?: TrendSettings;
+  now?: () => Date;
+}
+
+/**
+ * Species records per 1,000 observations for each period with any observations
+ */
+export function normalizeCounts(species: Counts, totals: Counts, periods: number[]): TrendPoint[] {
+  return periods
+    .filter(period => (totals.get(period) ?? 0) > 0)
+    .map(period => {
+      const speciesCount = species.get(period) ?? 0;
+      const totalCount = totals.get(period)!;
+      return { period, speciesCount, totalCount, rate: speciesCount / totalCount * 1000 };
+    });
+}
+
+/**
+ * Direction of the yearly rates: a least-squares slope relative to the mean rate.
+ * Too few years or records give "insufficient-data" rather than a guess.
+ */
+export function trendDirection(
+  yearly: TrendPoint[],
+  settings: TrendSettings = CONFIG.observationTrends
+): Pick<ObservationTrend, 'direction' | 'changePerYear'> {
+  const records = yearly.reduce((sum, point) => sum + point.speciesCount, 0);
+  if (yearly.length < settings.minYears || records < settings.minRecords) return { direction: 'insufficient-data' };
+
+  const meanYear = yearly.reduce((sum, point) => sum + point.period, 0) / yearly.length;
+  const meanRate = yearly.reduce((sum, point) => sum + point.rate, 0) / yearly.length;
+  const covariance = yearly.reduce((sum, point) => sum + (point.period - meanYear) * (point.rate - meanRate), 0);
+  const variance = yearly.reduce((sum, point) => sum + (point.period - meanYear) ** 2, 0);
+
+  const changePerYear = variance > 0 && meanRate > 0 ? covariance / variance / meanRate : 0;
+  const direction = Math.abs(changePerYear) < settings.stableChangePerYear ? 'stable'
+    : changePerYear > 0 ? 'increasing' : 'decreasing';
+  return { direction, changePerYear };
+}
+
+/**
+ * Plain-language summary of a trend, for prompts and captions
+ */
+export function describeObservationTrend(trend: ObservationTrend): string {
+  const { yearly } = trend;
+  if (yearly.length === 0) {
+    return `No ${trend.speciesName} observation counts were found near ${trend.locationName}.`;
+  }
+
+  const first = yearly[0].period;
+  const last = yearly[yearly.length - 1].period;
+  const records = yearly.reduce((sum, point) => sum + point.speciesCount, 0);
+  const effort = yearly.reduce((sum, point) => sum + point.totalCount, 0);
+  const average = (records / effort * 1000).toFixed(2);
+  const summary = `${trend.speciesName} made up ${average} of every 1,000 observations near ${trend.locationName} in ${first}–${last} ` +
+    `(${records.toLocaleString('en-US')} records, ${trend.sources.join(' and ')}).`;
+
+  if (trend.direction === 'insufficient-data') {
+    return `${summary} There are too few records for a local trend.`;
+  }
+  const percent = Math.round(Math.abs(trend.changePerYear ?? 0) * 100);
+  return trend.direction === 'stable'
+    ? `${summary} Its share of observations has been stable (under ${Math.round(CONFIG.observationTrends.stableChangePerYear * 100)}% change a year).`
+    : `${summary} Its share of observations is ${trend.direction} by about ${percent}% of its average each year, after allowing for how much the area is surveyed.`;
+}
+
+function sumCounts(maps: Counts[]): Counts {
+  const sum: Counts = new Map();
+  for (const counts of maps) {
+    for (const [period, count] of counts) sum.set(period, (sum.get(period) ?? 0) + count);
+  }
+  return sum;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, index) => index + 1);
+
+export class ObservationTrendService {
+  private fetcher: Fetcher;
+  private settings: TrendSettings;
+  private now: () => Date;
+
+  constructor(options: ObservationTrendOptions = {}) {
+    this.fetcher = options.fetcher ?? ((url: string) => fetch(url, { headers: internalRequestHeaders() }));
+    this.settings = options.settings ?? CONFIG.observationTrends;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Yearly and monthly observation rates of a species around a location, with
+   * the direction of the yearly rates. Sources that fail are left out.
+   */
+  async getTrend(species: Pick<Species, 'commonName' | 'scientificName'>, location: Location): Promise<ObservationTrend> {
+    // The current year is still being recorded, so the series ends last year
+    const lastYear = this.now().getFullYear() - 1;
+    const firstYear = lastYear - this.settings.years + 1;
+    const years = Array.from({ length: this.settings.years }, (_, index) => firstYear + index);
+    const scientificName = species.scientificName && species.scientificName !== 'Unknown' ? species.scientificName : undefined;
+
+    console.log(`📈 OBSERVATION TREND for ${species.commonName} near ${location.displayName} (${firstYear}-${lastYear})`);
+
+    // GBIF matches names against its backbone, which needs the scientific name
+    const results = await Promise.allSettled([
+      ...(scientificName ? [this.gbifCounts(scientificName, location, firstYear, lastYear)] : []),
+      this.inatCounts(scientificName ?? species.commonName, location, firstYear, lastYear)
+    ]);
+    const sources = results
+      .filter((result): result is PromiseFulfilledResult<SourceCounts> => result.status === 'fulfilled')
+      .map(result => result.value)
+      .filter(counts => counts.yearly.total.size > 0);
+
+    // Records in both sources (iNaturalist research grade is shared with GBIF) raise
+    // the species and total counts alike, so the rates stay comparable
+    const yearly = normalizeCounts(
+      sumCounts(sources.map(counts => counts.yearly.species)),
+      sumCounts(sources.map(counts => counts.yearly.total)),
+      years
+    );
+    const monthly = normalizeCounts(
+      sumCounts(sources.map(counts => counts.monthly.species)),
+      sumCounts(sources.map(counts => counts.monthly.total)),
+      MONTHS
+    );
+
+    const trend: ObservationTrend = {
+      speciesName: species.commonName,
+      locationName: location.namedArea?.name || location.city || location.state || location.country || location.displayName,
+      yearly,
+      monthly,
+      sources: sources.map(counts => counts.source),
+      ...trendDirection(yearly, this.settings)
+    };
+    console.log(`✅ OBSERVATION TREND: ${trend.direction}${trend.changePerYear !== undefined ? ` (${(trend.changePerYear * 100).toFixed(1)}%/year)` : ''}`);
+    return trend;
+  }
+
+  private async gbifCounts(scientificName: string, location: Location, firstYear: number, lastYear: number): Promise<SourceCounts> {
+    const area = { geometry: toGbifGeometry(location), year: `${firstYear},${lastYear}` };
+    const [speciesYears, totalYears, speciesMonths, totalMonths] = await Promise.all([
+      this.gbifFacet('year', { ...area, scientificName }),
+      this.gbifFacet('year', area),
+      this.gbifFacet('month', { ...area, scientificName }),
+      this.gbifFacet('month', area)
+    ]);
+    return {
+      source: 'GBIF',
+      yearly: { species: speciesYears, total: totalYears },
+      monthly: { species: speciesMonths, total: totalMonths }
+    };
+  }
+
+  private async gbifFacet(facet: 'year' | 'month', filters: Record<string, string>): Promise<Counts> {
+    const params = new URLSearchParams({ facet, facetLimit: '100', ...filters });
+    const response = await this.fetcher(`${getBaseUrl()}/api/gbif/occurrence-facets?${params.toString()}`);
+    if (!response.ok) throw new Error(`GBIF ${facet} facets failed: ${response.status}`);
+
+    const data = await response.json();
+    return new Map((data.counts || []).map((count: { name: string; count: number }) => [Number(count.name), count.count]));
+  }
+
+  private async inatCounts(taxonName: string, location: Location, firstYear: number, lastYear: number): Promise<SourceCounts> {
+    const bounds = toInatBounds(searchBoundingBox(location));
+    const area = {
+      swlat: String(bounds.swlat),
+      swlng: String(bounds.swlng),
+      nelat: String(bounds.nelat),
+      nelng: String(bounds.nelng),
+      d1: `${firstYear}-01-01`,
+      d2: `${lastYear}-12-31`
+    };
+    const [speciesYears, totalYears, speciesMonths, totalMonths] = await Promise.all([
+      this.inatHistogram('year', { ...area, taxon_name: taxonName }),
+      this.inatHistogram('year', area),
+      this.inatHistogram('month_of_year', { ...area, taxon_name: taxonName }),
+      this.inatHistogram('month_of_year', area)
+    ]);
+    return {
+      source: 'iNaturalist',
+      yearly: { species: speciesYears, total: totalYears },
+      monthly: { species: speciesMonths, total: totalMonths }
+    };
+  }
+
+  private async inatHistogram(interval: 'year' | 'month_of_year', filters: Record<string, string>): Promise<Counts> {
+    const params = new URLSearchParams({ interval, ...filters });
+    const response = await this.fetcher(`${getBaseUrl()}/api/inat/histogram?${params.toString()}`);
+    if (!response.ok) throw new Error(`iNaturalist ${interval} histogram failed: ${response.status}`);
+
+    // Keys are "2015-01-01" for years and "1".."12" for months
+    const data = await response.json();
+    return new Map(Object.entries(data.counts || {}).map(([key, count]) => [parseInt(key, 10), Number(count)]));
+  }
+}
+
+export const observationTrendService = new ObservationTrendService();
@@ -0,0 +1,170 @@
+import type { BoundingBox, Location } from './conservation-tools';
+import type { Geocoder } from './geocoder';
+import type { GeocodeCandidate } from './geocoding-service';
+import { findCountry, findSubdivisions, normalizePlaceName } from './country-registry';
+import { crossesAntimeridian } from './place-geometry';
+import offlinePlaces from './data/offline-places.json';
+
+// Geocoder over the bundled dataset in data/offline-places.json: countries,
+// first-level subdivisions (US, Canada, Australia, UK) and major cities, each
+// with a centroid and bounding box. No network, so the app can be demoed and
+// tested offline and keeps working when the online providers are down.
+// Country and subdivision names and aliases resolve through the ISO registry.
+
+export interface OfflinePlace {
+  name: string;
+  kind: 'country' | 'subdivision' | 'city';
+  code?: string; // ISO 3166-1 alpha-2 for countries, ISO 3166-2 for subdivisions
+  country?: string;
+  state?: string;
+  lat: number;
+  lon: number;
+  bbox: [number, number, number, number]; // [south, west, north, east]
+  population?: number;
+  aliases?: string[];
+}
+
+// Nominatim-equivalent ranks, so disambiguation treats every provider alike
+const PLACE_RANKS: Record<OfflinePlace['kind'], number> = { country: 4, subdivision: 8, city: 16 };
+
+const PLACE_TYPES: Record<OfflinePlace['kind'], string> = { country: 'country', subdivision: 'state', city: 'city' };
+
+function toBoundingBox(place: OfflinePlace): BoundingBox {
+  const [south, west, north, east] = place.bbox;
+  return { south, west, north, east };
+}
+
+function contains(box: BoundingBox, lat: number, lon: number): boolean {
+  if (lat < box.south || lat > box.north) return false;
+  return crossesAntimeridian(box) ? lon >= box.west || lon <= box.east : lon >= box.west && lon <= box.east;
+}
+
+function boxArea(box: BoundingBox): number {
+  const width = crossesAntimeridian(box) ? 360 - box.west + box.east : box.east - box.west;
+  return width * (box.north - box.south);
+}
+
+// Rough prominence on Nominatim's 0-1 scale: countries, then states, then cities by size
+function importanceOf(place: OfflinePlace): number {
+  if (place.kind === 'country') return 0.9;
+  if (place.kind === 'subdivision') return 0.75;
+  return Math.min(0.8, 0.4 + Math.log10(Math.max(place.population ?? 1, 1)) * 0.05);
+}
+
+export class OfflineGeocoder implements Geocoder {
+  readonly name = 'offline';
+  private index = new Map<string, OfflinePlace[]>();
+  private byCode = new Map<string, OfflinePlace>();
+
+  constructor(private places: OfflinePlace[] = offlinePlaces as OfflinePlace[]) {
+    for (const place of places) {
+      if (place.code) this.byCode.set(place.code, place);
+      for (const name of [place.name, ...(place.aliases ?? [])]) {
+        const key = normalizePlaceName(name);
+        this.index.set(key, [...(this.index.get(key) ?? []), place]);
+      }
+    }
+  }
+
+  /**
+   * "Paris" or "Portland, Oregon": the first part names the place, any
+   * further parts must match its state or country
+   */
+  async search(query: string): Promise<GeocodeCandidate[]> {
+    const parts = query.split(',').map(normalizePlaceName).filter(Boolean);
+    if (parts.length === 0) return [];
+
+    const [name, ...qualifiers] = parts;
+    const matches = (this.lookup(name) ?? this.lookup(parts.join(' ')) ?? [])
+      .filter(place => qualifiers.every(qualifier => this.isWithin(place, qualifier)));
+
+    return matches
+      .map(place => this.toCandidate(place))
+      .sort((a, b) => b.importance - a.importance);
+  }
+
+  /**
+   * Most specific places whose bounding boxes contain the point
+   */
+  async reverse(lat: number, lon: number): Promise<Location | null> {
+    const smallestOf = (kind: OfflinePlace['kind']) => this.places
+      .filter(place => place.kind === kind && contains(toBoundingBox(place), lat, lon))
+      .sort((a, b) => boxArea(toBoundingBox(a)) - boxArea(toBoundingBox(b)))[0];
+
+    // Boxes overlap along borders, so the most specific match decides the country
+    const city = smallestOf('city');
+    const subdivision = smallestOf('subdivision');
+    const countryName = city?.country ?? subdivision?.country ?? smallestOf('country')?.name;
+    const country = this.places.find(place => place.kind === 'country' && place.name === countryName);
+    if (!country) return null;
+
+    const match = city ?? subdivision ?? country;
+    const state = city?.state ?? (subdivision?.country === country.name ? subdivision.name : undefined);
+
+    return {
+      lat,
+      lon,
+      city: city?.name,
+      state,
+      country: country.name,
+      countryCode: country.code,
+      displayName: this.displayName(match, state),
+      boundingBox: toBoundingBox(match)
+    };
+  }
+
+  /**
+   * Places known by a name, including any country or subdivision the registry
+   * knows under it ("USA", "Alemania", "Bavaria")
+   */
+  private lookup(name: string): OfflinePlace[] | undefined {
+    const country = findCountry(name);
+    const codes = [country?.alpha2, ...findSubdivisions(name).map(subdivision => subdivision.code)];
+    const matches = new Set([
+      ...(this.index.get(name) ?? []),
+      ...codes.map(code => code && this.byCode.get(code)).filter((place): place is OfflinePlace => Boolean(place))
+    ]);
+    return matches.size > 0 ? [...matches] : undefined;
+  }
+
+  /**
+   * "Portland, USA" or "Portland, OR": the qualifier names the place's
+   * country or state, by name, alias or code
+   */
+  private isWithin(place: OfflinePlace, qualifier: string): boolean {
+    const countryCode = this.countryCodeOf(place);
+    if (countryCode && findCountry(qualifier)?.alpha2 === countryCode) return true;
+    if (!place.state) return false;
+    return normalizePlaceName(place.state) === qualifier ||
+      findSubdivisions(qualifier, countryCode).some(subdivision => subdivision.name === place.state);
+  }
+
+  private countryCodeOf(place: OfflinePlace): string | undefined {
+    return place.kind === 'country' ? place.code : findCountry(place.country ?? '')?.alpha2;
+  }
+
+  private displayName(place: OfflinePlace, state = place.state): string {
+    const parts = place.kind === 'country' ? [place.name] : [place.name, state, place.country];
+    return parts.filter((part, index, all): part is string => Boolean(part) && all.indexOf(part) === index).join(', ');
+  }
+
+  private toCandidate(place: OfflinePlace): GeocodeCandidate {
+    return {
+      location: {
+        lat: place.lat,
+        lon: place.lon,
+        city: place.kind === 'city' ? place.name : undefined,
+        state: place.kind === 'subdivision' ? place.name : place.state,
+        country: place.kind === 'country' ? place.name : place.country,
+        countryCode: this.countryCodeOf(place),
+        displayName: this.displayName(place),
+        boundingBox: toBoundingBox(place)
+      },
+      name: place.name,
+      importance: importanceOf(place),
+      placeRank: PLACE_RANKS[place.kind],
+      placeType: PLACE_TYPES[place.kind],
+      population: place.population
+    };
+  }
+}
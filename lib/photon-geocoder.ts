@@ -0,0 +1,130 @@
+import type { Location } from './conservation-tools';
+import type { Geocoder } from './geocoder';
+import type { GeocodeCandidate } from './geocoding-service';
+
+// Photon (https://photon.komoot.io): OpenStreetMap search by komoot, returning
+// GeoJSON features. Useful as a second online provider, or self-hosted.
+
+type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface PhotonGeocoderOptions {
+  baseUrl: string;
+  userAgent: string;
+  searchLimit?: number;
+  cacheMaxEntries?: number;
+  fetcher?: Fetcher;
+  log?: (...args: unknown[]) => void;
+}
+
+// Nominatim-equivalent ranks for Photon's feature types
+const PLACE_RANKS: Record<string, number> = {
+  country: 4,
+  state: 8,
+  county: 12,
+  city: 16,
+  district: 18,
+  locality: 19,
+  street: 26,
+  house: 30
+};
+
+function toLocation(feature: any): Location {
+  const properties = feature.properties ?? {};
+  const [lon, lat] = feature.geometry?.coordinates ?? [NaN, NaN];
+  const city = properties.type === 'city' ? properties.name : properties.city;
+  const displayName = [properties.name, city, properties.state, properties.country]
+    .filter((part, index, all) => Boolean(part) && all.indexOf(part) === index)
+    .join(', ');
+
+  // Photon extents are [minLon, maxLat, maxLon, minLat]
+  const extent = Array.isArray(properties.extent) && properties.extent.length === 4 ? properties.extent.map(Number) : null;
+
+  return {
+    lat: Number(lat),
+    lon: Number(lon),
+    city,
+    state: properties.state,
+    country: properties.country,
+    countryCode: properties.countrycode?.toUpperCase(),
+    displayName,
+    boundingBox: extent ? { south: extent[3], west: extent[0], north: extent[1], east: extent[2] } : undefined
+  };
+}
+
+/**
+ * Photon has no importance score, so prominence follows its result order
+ */
+function toCandidate(feature: any, index: number): GeocodeCandidate {
+  const properties = feature.properties ?? {};
+  return {
+    location: toLocation(feature),
+    name: properties.name || '',
+    importance: Math.max(0.1, 0.9 - index * 0.1),
+    placeRank: PLACE_RANKS[properties.type] ?? 30,
+    placeType: properties.type === 'other' ? properties.osm_value || 'place' : properties.type || 'place',
+    population: Number(properties.population) || undefined
+  };
+}
+
+export class PhotonGeocoder implements Geocoder {
+  readonly name = 'photon';
+  private cache = new Map<string, Promise<unknown>>();
+  private fetcher: Fetcher;
+  private log: (...args: unknown[]) => void;
+
+  constructor(private options: PhotonGeocoderOptions) {
+    this.fetcher = options.fetcher ?? ((url, init) => fetch(url, init));
+    this.log = options.log ?? console.log;
+  }
+
+  async search(query: string): Promise<GeocodeCandidate[]> {
+    const params = new URLSearchParams({
+      q: query.trim(),
+      limit: String(this.options.searchLimit ?? 8),
+      lang: 'en'
+    });
+
+    const data = await this.request(`${this.options.baseUrl}/api/?${params.toString()}`);
+    const features = Array.isArray(data?.features) ? data.features : [];
+    return features
+      .filter((feature: any) => Array.isArray(feature.geometry?.coordinates))
+      .map(toCandidate);
+  }
+
+  async reverse(lat: number, lon: number): Promise<Location | null> {
+    const params = new URLSearchParams({ lat: String(lat), lon: String(lon), lang: 'en' });
+
+    const data = await this.request(`${this.options.baseUrl}/reverse?${params.toString()}`);
+    const [feature] = Array.isArray(data?.features) ? data.features : [];
+    if (!feature?.properties?.country) return null;
+
+    return { ...toLocation(feature), lat, lon };
+  }
+
+  /**
+   * Fetch JSON, sharing identical requests and keeping recent answers in memory
+   */
+  private request(url: string): Promise<any> {
+    const cached = this.cache.get(url);
+    if (cached) return cached;
+
+    this.log(`🌐 FETCHING from Photon:`, url);
+    const request = this.fetcher(url, { headers: { 'User-Agent': this.options.userAgent } })
+      .then(response => {
+        if (!response.ok) throw new Error(`Photon request failed: ${response.status}`);
+        return response.json();
+      });
+
+    // Failures are not remembered, so the next lookup retries
+    request.catch(() => this.cache.delete(url));
+    this.cache.set(url, request);
+
+    const maxEntries = this.options.cacheMaxEntries ?? 500;
+    while (this.cache.size > maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+    return request;
+  }
+}
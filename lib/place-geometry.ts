@@ -0,0 +1,221 @@
+import { CONFIG } from './config';
+import type { BoundingBox, Location } from './conservation-tools';
+
+// The area species searches cover for a place: the geocoder's polygon or bounding
+// box when it has one, otherwise a radius around the point. GBIF takes the area as
+// WKT (`geometry`); iNaturalist takes bounding box corners (swlat/swlng/nelat/nelng).
+
+export type SpeciesSearchSettings = typeof CONFIG.speciesSearch;
+
+export interface InatBounds {
+  swlat: number;
+  swlng: number;
+  nelat: number;
+  nelng: number;
+}
+
+type Ring = Array<[number, number]>;
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Nominatim's `boundingbox` ([south, north, west, east] as strings)
+ */
+export function parseBoundingBox(value: unknown): BoundingBox | undefined {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+
+  const [south, north, west, east] = value.map(Number);
+  if ([south, north, west, east].some(n => !Number.isFinite(n))) return undefined;
+  return { south, west, north, east };
+}
+
+export function crossesAntimeridian(box: BoundingBox): boolean {
+  return box.west > box.east;
+}
+
+/**
+ * Square box of the given radius around a point
+ */
+export function boundingBoxAround(lat: number, lon: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const lonDelta = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+  return {
+    south: Math.max(-90, lat - latDelta),
+    north: Math.min(90, lat + latDelta),
+    west: Math.max(-180, lon - lonDelta),
+    east: Math.min(180, lon + lonDelta)
+  };
+}
+
+/**
+ * Grow a box around its centre until each side spans at least minKm
+ */
+export function ensureMinimumExtent(box: BoundingBox, minKm: number): BoundingBox {
+  if (crossesAntimeridian(box)) return box;
+
+  const centerLat = (box.south + box.north) / 2;
+  const centerLon = (box.west + box.east) / 2;
+  const minimum = boundingBoxAround(centerLat, centerLon, minKm / 2);
+
+  return {
+    south: Math.min(box.south, minimum.south),
+    north: Math.max(box.north, minimum.north),
+    west: Math.min(box.west, minimum.west),
+    east: Math.max(box.east, minimum.east)
+  };
+}
+
+/**
+ * The box species searches should cover for a location. Named areas (parks,
+ * reserves) are searched exactly, however small; other places get a minimum extent.
+ */
+export function searchBoundingBox(location: Location, settings: SpeciesSearchSettings = CONFIG.speciesSearch): BoundingBox {
+  if (location.boundingBox) {
+    return location.namedArea ? location.boundingBox : ensureMinimumExtent(location.boundingBox, settings.minExtentKm);
+  }
+
+  // Country/state searches use a larger radius, city searches a smaller one
+  const radiusKm = location.city ? settings.fallbackRadiusKm.city : settings.fallbackRadiusKm.region;
+  return boundingBoxAround(location.lat, location.lon, radiusKm);
+}
+
+/**
+ * iNaturalist bounds. Boxes across the antimeridian keep their larger side,
+ * since iNaturalist bounds cannot wrap.
+ */
+export function toInatBounds(box: BoundingBox): InatBounds {
+  let { west, east } = box;
+  if (crossesAntimeridian(box)) {
+    if (180 - west >= east + 180) east = 180;
+    else west = -180;
+  }
+  return { swlat: box.south, swlng: west, nelat: box.north, nelng: east };
+}
+
+// Five decimals (~1 m) keeps WKT short enough for query strings
+function formatDegrees(value: number): string {
+  return String(Math.round(value * 1e5) / 1e5);
+}
+
+function ringToWkt(ring: Ring): string {
+  return `(${ring.map(([x, y]) => `${formatDegrees(x)} ${formatDegrees(y)}`).join(',')})`;
+}
+
+/**
+ * Counter-clockwise WKT polygon for a box (GBIF reads clockwise rings as "everything outside")
+ */
+export function boundingBoxToWkt(box: BoundingBox): string {
+  const boxRing = (west: number, east: number): Ring => [
+    [west, box.south], [east, box.south], [east, box.north], [west, box.north], [west, box.south]
+  ];
+
+  if (crossesAntimeridian(box)) {
+    return `MULTIPOLYGON((${ringToWkt(boxRing(box.west, 180))}),(${ringToWkt(boxRing(-180, box.east))}))`;
+  }
+  return `POLYGON(${ringToWkt(boxRing(box.west, box.east))})`;
+}
+
+function parseRing(text: string): Ring {
+  return text.split(',').map(point => {
+    const [x, y] = point.trim().split(/\s+/).map(Number);
+    return [x, y];
+  });
+}
+
+// Shoelace formula; positive for counter-clockwise rings
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+/**
+ * Rings of a WKT POLYGON or MULTIPOLYGON, grouped by polygon; undefined for other geometry types
+ */
+export function parseWktPolygons(wkt: string): Ring[][] | undefined {
+  const match = wkt.trim().match(/^(MULTIPOLYGON|POLYGON)\s*(\([\s\S]*\))$/i);
+  if (!match) return undefined;
+
+  const ringDepth = match[1].toUpperCase() === 'POLYGON' ? 2 : 3;
+  const body = match[2];
+  const polygons: Ring[][] = [];
+  let rings: Ring[] = [];
+  let depth = 0;
+  let ringStart = 0;
+
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '(') {
+      depth++;
+      if (depth === ringDepth) ringStart = i + 1;
+    } else if (body[i] === ')') {
+      if (depth === ringDepth) rings.push(parseRing(body.slice(ringStart, i)));
+      if (depth === ringDepth - 1) {
+        polygons.push(rings);
+        rings = [];
+      }
+      depth--;
+    }
+  }
+
+  const valid = polygons.length > 0 && polygons.every(polygon =>
+    polygon.length > 0 && polygon.every(ring => ring.length >= 4 && ring.every(([x, y]) => Number.isFinite(x) && Number.isFinite(y)))
+  );
+  return valid ? polygons : undefined;
+}
+
+/**
+ * Rewrite a polygon with counter-clockwise outer rings and clockwise holes, as GBIF expects
+ */
+export function orientWktPolygon(wkt: string): string | undefined {
+  const polygons = parseWktPolygons(wkt);
+  if (!polygons) return undefined;
+
+  const oriented = polygons.map(rings => rings.map((ring, index) => {
+    const isOuter = index === 0;
+    const isCounterClockwise = signedArea(ring) > 0;
+    return isOuter === isCounterClockwise ? ring : [...ring].reverse();
+  }));
+
+  if (oriented.length === 1) {
+    return `POLYGON(${oriented[0].map(ringToWkt).join(',')})`;
+  }
+  return `MULTIPOLYGON(${oriented.map(rings => `(${rings.map(ringToWkt).join(',')})`).join(',')})`;
+}
+
+/**
+ * Whether the place outline is the area searched: named areas always, other places
+ * only when their own box is what iNaturalist searches too (not widened to the minimum extent)
+ */
+function searchesOutline(location: Location, settings: SpeciesSearchSettings): boolean {
+  if (!location.polygon) return false;
+  if (location.namedArea) return true;
+  if (!location.boundingBox) return false;
+
+  const box = searchBoundingBox(location, settings);
+  const own = location.boundingBox;
+  return box.south === own.south && box.north === own.north && box.west === own.west && box.east === own.east;
+}
+
+/**
+ * WKT for GBIF's `geometry` filter: the place outline when it is small enough and
+ * covers the same area as the iNaturalist search, otherwise the search bounding box
+ */
+export function toGbifGeometry(location: Location, settings: SpeciesSearchSettings = CONFIG.speciesSearch): string {
+  if (location.polygon && searchesOutline(location, settings) && location.polygon.length <= settings.maxPolygonLength) {
+    const polygon = orientWktPolygon(location.polygon);
+    if (polygon) return polygon;
+  }
+  return boundingBoxToWkt(searchBoundingBox(location, settings));
+}
+
+/**
+ * Short description of the searched area for logs
+ */
+export function describeSearchArea(location: Location): string {
+  if (location.namedArea) return `${location.namedArea.name} ${location.polygon ? 'outline' : 'bounding box'}`;
+  if (searchesOutline(location, CONFIG.speciesSearch)) return 'place outline';
+  if (location.boundingBox) return 'place bounding box';
+  return `${location.city ? CONFIG.speciesSearch.fallbackRadiusKm.city : CONFIG.speciesSearch.fallbackRadiusKm.region} km radius`;
+}
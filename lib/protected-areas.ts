@@ -0,0 +1,144 @@
+import type { Location, NamedArea, Organization, WaterType } from './conservation-tools';
+import type { GeocodeCandidate } from './geocoding-service';
+import { findCountryByCode, findSubdivisionByCode, normalizePlaceName } from './country-registry';
+import { waterTypeFromCandidate } from './water-bodies';
+import protectedAreas from './data/protected-areas.json';
+
+// Protected areas and named natural features ("near Yellowstone", "Kruger park").
+// Well-known areas come from the bundled WDPA-style dataset in
+// data/protected-areas.json; anything else is recognised among geocoder results
+// by its place type. Either way the location carries the area's extent, so
+// species searches stay inside it.
+
+export interface ProtectedAreaRecord {
+  name: string;
+  kind: NamedArea['kind'];
+  designation: string; // WDPA DESIG_ENG
+  iucnCategory?: string; // WDPA IUCN_CAT
+  iso3: string; // WDPA ISO3
+  subdivision?: string; // ISO 3166-2, WDPA SUB_LOC
+  managingAuthority?: string; // WDPA MANG_AUTH
+  authorityWebsite?: string;
+  lat: number;
+  lon: number;
+  bbox: [number, number, number, number]; // [south, west, north, east]
+  waterType?: WaterType; // marine parks and other mostly aquatic areas
+  aliases?: string[];
+}
+
+// Designation words people add to or leave off an area's name ("Kruger park")
+const DESIGNATIONS = '\\b(national park and preserve|national park|national reserve|nature reserve|game reserve|' +
+  'provincial park|state park|marine park|conservation area|wildlife sanctuary|wildlife refuge|national forest|' +
+  'park|reserve|preserve|sanctuary|np)\\b';
+
+// Nominatim place types (addresstype, else type) of protected areas and natural
+// features; water bodies are recognised by waterTypeFromCandidate
+const PROTECTED_AREA_TYPES = new Set(['national_park', 'nature_reserve', 'protected_area']);
+const NATURAL_FEATURE_TYPES = new Set(['glacier', 'peak', 'volcano', 'ridge', 'valley', 'wood', 'forest', 'desert', 'heath']);
+
+/**
+ * Whether a query names an area by its designation ("... National Park", "... reserve")
+ */
+export function hasAreaDesignation(query: string): boolean {
+  return new RegExp(DESIGNATIONS).test(normalizePlaceName(query));
+}
+
+function stripDesignation(name: string): string {
+  return normalizePlaceName(name).replace(new RegExp(DESIGNATIONS, 'g'), ' ').replace(/\s+/g, ' ').trim();
+}
+
+interface AreaIndex {
+  byName: Map<string, ProtectedAreaRecord>;
+  byCoreName: Map<string, ProtectedAreaRecord>;
+}
+
+function buildIndex(): AreaIndex {
+  const byName = new Map<string, ProtectedAreaRecord>();
+  const byCoreName = new Map<string, ProtectedAreaRecord>();
+
+  for (const record of protectedAreas as ProtectedAreaRecord[]) {
+    [record.name, ...(record.aliases ?? [])].forEach(name => byName.set(normalizePlaceName(name), record));
+    const coreName = stripDesignation(record.name);
+    if (coreName) byCoreName.set(coreName, record);
+  }
+
+  return { byName, byCoreName };
+}
+
+let areaIndex: AreaIndex | null = null;
+
+function getIndex(): AreaIndex {
+  if (!areaIndex) areaIndex = buildIndex();
+  return areaIndex;
+}
+
+/**
+ * Dataset entry for a name or alias. A different designation ("Kruger park") also
+ * matches, but a bare word never matches by its core name, so "glacier" stays a word.
+ */
+export function findProtectedArea(query: string): ProtectedAreaRecord | undefined {
+  const { byName, byCoreName } = getIndex();
+  const exact = byName.get(normalizePlaceName(query));
+  if (exact || !hasAreaDesignation(query)) return exact;
+
+  const coreName = stripDesignation(query);
+  return coreName ? byCoreName.get(coreName) : undefined;
+}
+
+export function listProtectedAreas(): ProtectedAreaRecord[] {
+  return protectedAreas as ProtectedAreaRecord[];
+}
+
+/**
+ * Location for a dataset entry, bounded by the area's extent
+ */
+export function protectedAreaLocation(record: ProtectedAreaRecord): Location {
+  const country = findCountryByCode(record.iso3);
+  const subdivision = record.subdivision ? findSubdivisionByCode(record.subdivision) : undefined;
+  const [south, west, north, east] = record.bbox;
+
+  return {
+    lat: record.lat,
+    lon: record.lon,
+    state: subdivision?.name,
+    country: country?.name,
+    countryCode: country?.alpha2,
+    displayName: [record.name, subdivision?.name, country?.name].filter(Boolean).join(', '),
+    boundingBox: { south, west, north, east },
+    namedArea: {
+      name: record.name,
+      kind: record.kind,
+      designation: record.designation,
+      iucnCategory: record.iucnCategory,
+      managingAuthority: record.managingAuthority,
+      authorityWebsite: record.authorityWebsite
+    },
+    waterType: record.waterType
+  };
+}
+
+// "national_park" -> "National Park"
+function designationFor(placeType: string): string {
+  return placeType.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * The named area a geocoder result is, when its place type is a protected area
+ * or natural feature. Geocoders do not report managing authorities.
+ */
+export function namedAreaFromCandidate(candidate: GeocodeCandidate): NamedArea | undefined {
+  const kind = PROTECTED_AREA_TYPES.has(candidate.placeType) ? 'protected-area'
+    : NATURAL_FEATURE_TYPES.has(candidate.placeType) || waterTypeFromCandidate(candidate) ? 'natural-feature'
+    : undefined;
+  if (!kind) return undefined;
+
+  return { name: candidate.name, kind, designation: designationFor(candidate.placeType) };
+}
+
+/**
+ * The area's managing authority, to suggest alongside other organizations
+ */
+export function managingAuthorityOrganization(area: NamedArea | undefined): Organization | undefined {
+  if (!area?.managingAuthority) return undefined;
+  return { name: area.managingAuthority, website: area.authorityWebsite };
+}
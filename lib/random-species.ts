@@ -0,0 +1,191 @@
+import { CONFIG } from './config';
+import type { Species } from './conservation-tools';
+import { getBaseUrl } from './utils';
+import { internalRequestHeaders } from './rate-limiter';
+import { countryNameFor } from './country-registry';
+
+// "Surprise me" picks: a random IUCN CR/EN/VU species drawn from GBIF occurrence
+// facets, weighted by taxon class and region, with the country where it is most
+// often recorded as its representative location.
+
+export type TaxonClassName = keyof typeof CONFIG.randomSpecies.classWeights;
+export type Continent = keyof typeof CONFIG.randomSpecies.regionWeights;
+export type RedListCode = keyof typeof CONFIG.randomSpecies.categoryWeights;
+
+export interface RandomSpeciesFilters {
+  taxonClass?: TaxonClassName;
+  region?: Continent;
+}
+
+export interface RandomSpeciesPick {
+  species: Species;
+  category: RedListCode;
+  taxonClass: TaxonClassName;
+  region: Continent;
+  countryCode: string;
+  countryName: string;
+  occurrenceCount: number;
+}
+
+interface FacetCount {
+  name: string;
+  count: number;
+}
+
+type Fetcher = (url: string) => Promise<Response>;
+
+export interface RandomSpeciesOptions {
+  fetcher?: Fetcher;
+  random?: () => number;
+}
+
+// GBIF backbone class keys and the words users type for them
+const TAXON_CLASSES: Record<TaxonClassName, { classKey: number; label: string; words: string[] }> = {
+  mammal: { classKey: 359, label: 'mammal', words: ['mammal', 'mammals'] },
+  bird: { classKey: 212, label: 'bird', words: ['bird', 'birds'] },
+  reptile: { classKey: 358, label: 'reptile', words: ['reptile', 'reptiles', 'lizard', 'lizards', 'snake', 'snakes', 'turtle', 'turtles'] },
+  amphibian: { classKey: 131, label: 'amphibian', words: ['amphibian', 'amphibians', 'frog', 'frogs', 'salamander', 'salamanders'] },
+  fish: { classKey: 204, label: 'fish', words: ['fish', 'fishes'] },
+  shark: { classKey: 121, label: 'shark or ray', words: ['shark', 'sharks', 'ray', 'rays'] },
+  insect: { classKey: 216, label: 'insect', words: ['insect', 'insects', 'bug', 'bugs', 'butterfly', 'butterflies', 'bee', 'bees'] }
+};
+
+const REGIONS: Record<Continent, { label: string; words: string[] }> = {
+  AFRICA: { label: 'Africa', words: ['africa', 'african'] },
+  ASIA: { label: 'Asia', words: ['asia', 'asian'] },
+  SOUTH_AMERICA: { label: 'South America', words: ['south america', 'south american', 'latin america', 'amazon'] },
+  NORTH_AMERICA: { label: 'North America', words: ['north america', 'north american', 'central america', 'caribbean'] },
+  EUROPE: { label: 'Europe', words: ['europe', 'european'] },
+  OCEANIA: { label: 'Oceania', words: ['oceania', 'australia', 'australian', 'new zealand', 'pacific islands'] }
+};
+
+const RED_LIST_LABELS: Record<RedListCode, string> = {
+  CR: 'Critically Endangered',
+  EN: 'Endangered',
+  VU: 'Vulnerable'
+};
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`\\b${word}\\b`, 'i').test(text);
+}
+
+/**
+ * Read optional class/region filters from a request like "surprise me with a bird in South America"
+ */
+export function parseRandomSpeciesFilters(text: string): RandomSpeciesFilters {
+  const filters: RandomSpeciesFilters = {};
+
+  const taxonClass = (Object.keys(TAXON_CLASSES) as TaxonClassName[])
+    .find(name => TAXON_CLASSES[name].words.some(word => containsWord(text, word)));
+  if (taxonClass) filters.taxonClass = taxonClass;
+
+  const region = (Object.keys(REGIONS) as Continent[])
+    .find(name => REGIONS[name].words.some(word => containsWord(text, word)));
+  if (region) filters.region = region;
+
+  return filters;
+}
+
+/**
+ * Human-readable description of the filters ("bird in South America")
+ */
+export function describeRandomSpeciesFilters(filters: RandomSpeciesFilters): string {
+  const what = filters.taxonClass ? TAXON_CLASSES[filters.taxonClass].label : 'animal';
+  return filters.region ? `${what} in ${REGIONS[filters.region].label}` : what;
+}
+
+
+export class RandomSpeciesService {
+  private fetcher: Fetcher;
+  private random: () => number;
+
+  constructor(options: RandomSpeciesOptions = {}) {
+    this.fetcher = options.fetcher ?? ((url: string) => fetch(url, { headers: internalRequestHeaders() }));
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Pick a random threatened species matching the filters, or null when none can be found
+   */
+  async pick(filters: RandomSpeciesFilters = {}): Promise<RandomSpeciesPick | null> {
+    const { categoryWeights, classWeights, regionWeights, speciesPerQuery, maxAttempts } = CONFIG.randomSpecies;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const taxonClass = filters.taxonClass ?? this.weightedPick(classWeights);
+      const region = filters.region ?? this.weightedPick(regionWeights);
+      const category = this.weightedPick(categoryWeights);
+
+      console.log(`🎲 Random species attempt ${attempt}: ${category} ${taxonClass} in ${region}`);
+
+      try {
+        const speciesCounts = await this.facet('speciesKey', {
+          classKey: String(TAXON_CLASSES[taxonClass].classKey),
+          continent: region,
+          iucnRedListCategory: category,
+          facetLimit: String(speciesPerQuery)
+        });
+        if (speciesCounts.length === 0) continue;
+
+        const speciesKey = speciesCounts[Math.floor(this.random() * speciesCounts.length)].name;
+        const [details, countryCounts] = await Promise.all([
+          this.speciesDetails(speciesKey),
+          this.facet('country', { taxonKey: speciesKey, continent: region, facetLimit: '5' })
+        ]);
+
+        // Most-recorded country in the region is the representative range location
+        const topCountry = countryCounts[0];
+        if (!details || !topCountry) continue;
+
+        const scientificName = details.canonicalName || details.scientificName;
+        return {
+          species: {
+            id: `gbif-${speciesKey}`,
+            commonName: details.vernacularName || scientificName,
+            scientificName,
+            conservationStatus: RED_LIST_LABELS[category],
+            source: 'GBIF'
+          },
+          category,
+          taxonClass,
+          region,
+          countryCode: topCountry.name,
+          countryName: countryNameFor(topCountry.name),
+          occurrenceCount: topCountry.count
+        };
+      } catch (error) {
+        console.warn(`⚠️ Random species attempt ${attempt} failed:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  private weightedPick<K extends string>(weights: Record<K, number>): K {
+    const entries = Object.entries(weights) as Array<[K, number]>;
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+    let threshold = this.random() * total;
+    for (const [key, weight] of entries) {
+      threshold -= weight;
+      if (threshold < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+  }
+
+  private async facet(facet: string, filters: Record<string, string>): Promise<FacetCount[]> {
+    const params = new URLSearchParams({ facet, ...filters });
+    const response = await this.fetcher(`${getBaseUrl()}/api/gbif/occurrence-facets?${params.toString()}`);
+    if (!response.ok) throw new Error(`GBIF ${facet} facets failed: ${response.status}`);
+
+    const data = await response.json();
+    return data.counts || [];
+  }
+
+  private async speciesDetails(speciesKey: string): Promise<{ canonicalName?: string; scientificName: string; vernacularName?: string } | null> {
+    const response = await this.fetcher(`${getBaseUrl()}/api/gbif/species?taxonKey=${encodeURIComponent(speciesKey)}`);
+    if (!response.ok) return null;
+    return response.json();
+  }
+}
+
+export const randomSpeciesService = new RandomSpeciesService();
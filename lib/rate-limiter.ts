@@ -0,0 +1,186 @@
+import { CONFIG } from './config';
+
+// Token-bucket rate limiting for API routes.
+//
+// Each route class has a bucket per client IP and, when known, per session ID. A
+// request spends one token from every bucket that applies; buckets refill
+// continuously up to their burst capacity. Session IDs are chosen by the client,
+// so a fresh one only gets a fresh session bucket: the IP bucket still applies. Server-side calls from the
+// app to its own proxy routes carry a shared secret header and are not limited.
+
+export type RateLimitRouteClass = keyof typeof CONFIG.rateLimit.routes;
+
+export interface BucketLimits {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until every bucket has a token again (0 when allowed)
+  retryAfterSeconds: number;
+  // Tokens left in the emptiest bucket after this request
+  remaining: number;
+}
+
+export interface RateLimiterOptions {
+  maxTrackedKeys: number;
+  now?: () => number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const INTERNAL_REQUEST_HEADER = 'x-wildlife-internal';
+
+let internalSecret: string | undefined;
+
+/**
+ * The secret internal requests carry. A server-side call can land on a different
+ * process or serverless instance, so production needs one secret shared through
+ * INTERNAL_API_SECRET; a per-process random one only works for a single dev server.
+ */
+export function resolveInternalSecret(
+  configured: string = CONFIG.rateLimit.internalSecret,
+  production: boolean = process.env.NODE_ENV === 'production'
+): string {
+  if (configured) return configured;
+  if (production) {
+    throw new Error('INTERNAL_API_SECRET must be set in production so every instance accepts the app\'s own proxy calls');
+  }
+  return globalThis.crypto.randomUUID();
+}
+
+function getInternalSecret(): string {
+  internalSecret ??= resolveInternalSecret();
+  return internalSecret;
+}
+
+/**
+ * Check the rate limiter's configuration at server startup (see instrumentation.ts)
+ */
+export function assertRateLimitConfig(): void {
+  if (CONFIG.rateLimit.enabled) getInternalSecret();
+}
+
+/**
+ * Headers for the app's own server-side requests to its proxy routes
+ */
+export function internalRequestHeaders(): Record<string, string> {
+  return { [INTERNAL_REQUEST_HEADER]: getInternalSecret() };
+}
+
+export function isInternalRequest(request: Request): boolean {
+  return request.headers.get(INTERNAL_REQUEST_HEADER) === getInternalSecret();
+}
+
+/**
+ * Client IP as seen by the app's own proxies, or "unknown". On Vercel, which sets
+ * x-vercel-forwarded-for itself, that header; otherwise the x-forwarded-for entry
+ * appended by the outermost trusted proxy, counting `trustedProxies` hops from the
+ * right. Anything further left, and every header when no proxy is trusted, came
+ * from the client and may be forged.
+ */
+export function getClientIp(
+  request: Request,
+  trustedProxies: number = CONFIG.rateLimit.trustedProxies,
+  onVercel: boolean = Boolean(process.env.VERCEL)
+): string {
+  if (onVercel) {
+    const platform = request.headers.get('x-vercel-forwarded-for')?.split(',')[0].trim();
+    if (platform) return platform;
+  }
+  if (trustedProxies <= 0) return 'unknown';
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+    const client = hops[Math.max(0, hops.length - trustedProxies)];
+    if (client) return client;
+  }
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private now: () => number;
+
+  constructor(private options: RateLimiterOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Spend one token from each key's bucket, or none if any bucket is empty
+   */
+  consume(keys: string[], limits: BucketLimits): RateLimitResult {
+    const now = this.now();
+    const refillPerMs = limits.refillPerMinute / 60_000;
+
+    const buckets = keys.map(key => {
+      const bucket = this.buckets.get(key) ?? { tokens: limits.capacity, updatedAt: now };
+      const elapsed = Math.max(0, now - bucket.updatedAt);
+      return { key, tokens: Math.min(limits.capacity, bucket.tokens + elapsed * refillPerMs) };
+    });
+
+    const emptiest = Math.min(...buckets.map(bucket => bucket.tokens));
+    const allowed = emptiest >= 1;
+
+    buckets.forEach(({ key, tokens }) => {
+      // Re-insert so the Map stays ordered from least to most recently used
+      this.buckets.delete(key);
+      this.buckets.set(key, { tokens: allowed ? tokens - 1 : tokens, updatedAt: now });
+    });
+    this.evictOldest();
+
+    return {
+      allowed,
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - emptiest) / refillPerMs / 1000)),
+      remaining: allowed ? Math.floor(emptiest - 1) : 0
+    };
+  }
+
+  private evictOldest(): void {
+    while (this.buckets.size > this.options.maxTrackedKeys) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest === undefined) break;
+      this.buckets.delete(oldest);
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter({ maxTrackedKeys: CONFIG.rateLimit.maxTrackedKeys });
+
+/**
+ * 429 response with a Retry-After header
+ */
+export function rateLimitResponse(result: RateLimitResult): Response {
+  return new Response(
+    JSON.stringify({ error: 'Too many requests', retryAfter: result.retryAfterSeconds }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(result.retryAfterSeconds)
+      }
+    }
+  );
+}
+
+/**
+ * Apply the route class limits to a request. Returns a 429 response when over the
+ * limit, or null when the request may proceed.
+ */
+export function enforceRateLimit(request: Request, routeClass: RateLimitRouteClass, sessionId?: string): Response | null {
+  if (!CONFIG.rateLimit.enabled || isInternalRequest(request)) return null;
+
+  const keys = [`${routeClass}:ip:${getClientIp(request)}`];
+  // "default" is shared by every client that sends no session ID, so it is not a useful key
+  if (sessionId && sessionId !== 'default') keys.push(`${routeClass}:session:${sessionId}`);
+  const result = rateLimiter.consume(keys, CONFIG.rateLimit.routes[routeClass]);
+  if (result.allowed) return null;
+
+  console.warn(`🚦 RATE LIMITED: ${routeClass} request from ${keys.join(', ')} - retry in ${result.retryAfterSeconds}s`);
+  return rateLimitResponse(result);
+}
@@ -0,0 +1,201 @@
+// Resolve a user's reply to one item of a numbered list.
+//
+// Shared by the species step and the disambiguation step. Accepts list numbers
+// ("2", "#3", "option 2"), ordinals ("the second one", "the last one") and names,
+// matched exactly, partially, or with typos (edit distance plus synonyms).
+
+export type SelectionMatchKind = 'ordinal' | 'exact' | 'partial' | 'fuzzy';
+
+export interface SelectionMatch<T> {
+  item: T;
+  index: number;
+  matchedBy: SelectionMatchKind;
+}
+
+export interface SelectionOptions {
+  // How many items were shown numbered to the user (ordinals index into these)
+  listedCount?: number;
+  // Which name-matching strategies to try after exact matches
+  partial?: boolean;
+  fuzzy?: boolean;
+}
+
+// Minimum similarity (0-1) for a typo-tolerant name match
+const FUZZY_THRESHOLD = 0.75;
+
+// Minimum input length for "contains" matches, so "a" or "the" never match everything
+const MIN_PARTIAL_LENGTH = 4;
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5,
+  sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+// Interchangeable words, normalized to the right-hand form before comparing names
+const SYNONYMS: Record<string, string> = {
+  grey: 'gray',
+  colour: 'color',
+  st: 'saint',
+  ste: 'sainte',
+  mt: 'mount',
+  ft: 'fort',
+  usa: 'united states',
+  us: 'united states',
+  uk: 'united kingdom',
+  nyc: 'new york city'
+};
+
+/**
+ * Lowercase, strip accents, apostrophes, a trailing "(status)" and punctuation, then apply synonyms
+ */
+export function normalizeSelectionText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s*\([^)]*\)\s*$/, '')
+    .replace(/['’]/g, '')
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => SYNONYMS[word] ?? word)
+    .join(' ');
+}
+
+/**
+ * Parse a list position from the input, returning a zero-based index within `count`
+ */
+export function parseOrdinal(input: string, count: number): number | undefined {
+  if (count === 0) return undefined;
+
+  const text = input
+    .toLowerCase()
+    .trim()
+    .replace(/[.!)]+$/, '')
+    .replace(/^(?:i(?:'ll| will)? (?:take|choose|pick|want)|let'?s (?:go with|do)|give me|go with)\s+/, '')
+    .replace(/^(?:the|number|no\.?|option|choice|#)\s*/, '')
+    .replace(/^#\s*/, '')
+    .replace(/\s+(?:one|option|choice|on the list|in the list)$/, '')
+    .trim();
+
+  if (/^(?:last|final|bottom)$/.test(text)) return count - 1;
+  if (/^(?:second[- ]to[- ]last|second last|penultimate)$/.test(text)) return count >= 2 ? count - 2 : undefined;
+
+  let position: number | undefined;
+  const numeric = text.match(/^(\d+)(?:st|nd|rd|th)?$/);
+  if (numeric) {
+    position = Number(numeric[1]);
+  } else if (text in ORDINAL_WORDS) {
+    position = ORDINAL_WORDS[text];
+  } else if (text in NUMBER_WORDS) {
+    position = NUMBER_WORDS[text];
+  }
+
+  return position !== undefined && position >= 1 && position <= count ? position - 1 : undefined;
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+}
+
+/**
+ * Share of words in the longer phrase that have a close match (small edit distance) in the other
+ */
+function wordSimilarity(input: string, name: string): number {
+  const inputWords = input.split(' ');
+  const nameWords = name.split(' ');
+  const allowedEdits = (word: string) => (word.length <= 3 ? 0 : word.length <= 7 ? 1 : 2);
+
+  const matched = inputWords.filter(inputWord =>
+    nameWords.some(nameWord => editDistance(inputWord, nameWord) <= allowedEdits(nameWord))
+  ).length;
+
+  return matched / Math.max(inputWords.length, nameWords.length);
+}
+
+/**
+ * Resolve the input to one of `items`, whose candidate names come from `getNames`
+ */
+export function resolveSelection<T>(
+  input: string,
+  items: T[],
+  getNames: (item: T) => Array<string | undefined>,
+  options: SelectionOptions = {}
+): SelectionMatch<T> | undefined {
+  const { listedCount = items.length, partial = true, fuzzy = true } = options;
+
+  const ordinal = parseOrdinal(input, Math.min(listedCount, items.length));
+  if (ordinal !== undefined) {
+    return { item: items[ordinal], index: ordinal, matchedBy: 'ordinal' };
+  }
+
+  const query = normalizeSelectionText(input);
+  if (!query) return undefined;
+
+  const candidates = items.map((item, index) => ({
+    item,
+    index,
+    names: getNames(item).filter((name): name is string => Boolean(name)).map(normalizeSelectionText).filter(Boolean)
+  }));
+
+  const exact = candidates.find(candidate => candidate.names.includes(query));
+  if (exact) return { item: exact.item, index: exact.index, matchedBy: 'exact' };
+
+  if (partial && query.length >= MIN_PARTIAL_LENGTH) {
+    // The most specific (longest) contained name wins; ties keep list order
+    let best: { candidate: typeof candidates[number]; length: number } | undefined;
+    for (const candidate of candidates) {
+      for (const name of candidate.names) {
+        if (name.length < MIN_PARTIAL_LENGTH) continue;
+        if (query.includes(name) || name.includes(query)) {
+          const length = Math.min(name.length, query.length);
+          if (!best || length > best.length) best = { candidate, length };
+        }
+      }
+    }
+    if (best) return { item: best.candidate.item, index: best.candidate.index, matchedBy: 'partial' };
+  }
+
+  if (fuzzy) {
+    const scored = candidates
+      .map(candidate => ({
+        candidate,
+        score: Math.max(0, ...candidate.names.map(name => Math.max(stringSimilarity(query, name), wordSimilarity(query, name))))
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scored;
+    // Reject ties so a typo never silently picks between two similar names
+    if (best && best.score >= FUZZY_THRESHOLD && (!runnerUp || runnerUp.score < best.score)) {
+      console.log(`🔍 FUZZY MATCH: "${input}" matched item ${best.candidate.index + 1} (${Math.round(best.score * 100)}%)`);
+      return { item: best.candidate.item, index: best.candidate.index, matchedBy: 'fuzzy' };
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,280 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { CONFIG } from './config';
+import type { Location, Species } from './conservation-tools';
+import type { DisambiguationOption } from './location-agent';
+import type { SpeciesSearchState } from './species-filters';
+
+// Chat session state shared by every instance of the chat route
+export type SessionStep = 'initial' | 'location' | 'disambiguation' | 'animal' | 'animal-location' | 'completed';
+export type SessionMode = 'location-first' | 'animal-first' | 'invasive-species';
+
+// One completed organization search, kept so follow-up searches don't wipe earlier ones
+export type SearchHistoryEntry = {
+  animal: string,
+  location: string,
+  organizationCount: number,
+  searchedAt: number
+};
+
+export type SessionData = {
+  location?: Location,
+  species?: Species[],
+  // Filters and paging position of the species list, for "only birds" and "more"
+  speciesSearch?: SpeciesSearchState,
+  selectedAnimal?: Species,
+  step: SessionStep,
+  disambiguationOptions?: DisambiguationOption[],
+  mode?: SessionMode,
+  history?: SearchHistoryEntry[]
+};
+
+/**
+ * Storage backend for chat sessions.
+ * All methods are async so remote backends (file, SQLite, Redis) can be swapped in.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<SessionData | undefined>;
+  set(sessionId: string, session: SessionData): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+export interface SessionStoreOptions {
+  ttlMs: number;
+  maxEntries: number;
+  maxSessionBytes: number;
+  now?: () => number;
+}
+
+export class SessionTooLargeError extends Error {
+  constructor(sessionId: string, size: number, limit: number) {
+    super(`Session ${sessionId} is ${size} bytes, exceeding the ${limit} byte limit`);
+    this.name = 'SessionTooLargeError';
+  }
+}
+
+// How often a write also sweeps expired session files out of the directory
+const EXPIRED_SWEEP_INTERVAL_MS = 60_000;
+
+type StoredSession = {
+  expiresAt: number;
+  data: string;
+};
+
+function serializeSession(sessionId: string, session: SessionData, limit: number): string {
+  const data = JSON.stringify(session);
+  const size = Buffer.byteLength(data, 'utf8');
+  if (size > limit) {
+    throw new SessionTooLargeError(sessionId, size, limit);
+  }
+  return data;
+}
+
+/**
+ * In-memory session store with TTL expiry and LRU eviction.
+ * Only suitable for a single instance; sessions are lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  private entries = new Map<string, StoredSession>();
+  private now: () => number;
+
+  constructor(private options: SessionStoreOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(sessionId: string): Promise<SessionData | undefined> {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(sessionId);
+      return undefined;
+    }
+
+    // Re-insert so Map order reflects recency of use
+    this.entries.delete(sessionId);
+    this.entries.set(sessionId, entry);
+    return JSON.parse(entry.data) as SessionData;
+  }
+
+  async set(sessionId: string, session: SessionData): Promise<void> {
+    const data = serializeSession(sessionId, session, this.options.maxSessionBytes);
+
+    this.entries.delete(sessionId);
+    this.entries.set(sessionId, { data, expiresAt: this.now() + this.options.ttlMs });
+
+    // Evict least recently used sessions once over capacity
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.entries.delete(sessionId);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * File-backed session store: one JSON file per session in a shared directory.
+ * Survives restarts and can be shared by instances that mount the same volume.
+ */
+export class FileSessionStore implements SessionStore {
+  private now: () => number;
+  private ready: Promise<void> | null = null;
+  private lastSweepAt = Number.NEGATIVE_INFINITY;
+
+  constructor(private directory: string, private options: SessionStoreOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(sessionId: string): Promise<SessionData | undefined> {
+    await this.ensureDirectory();
+
+    let entry: StoredSession;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(sessionId), 'utf8'));
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      await this.delete(sessionId);
+      return undefined;
+    }
+
+    return JSON.parse(entry.data) as SessionData;
+  }
+
+  async set(sessionId: string, session: SessionData): Promise<void> {
+    await this.ensureDirectory();
+
+    const data = serializeSession(sessionId, session, this.options.maxSessionBytes);
+    const entry: StoredSession = { data, expiresAt: this.now() + this.options.ttlMs };
+    const target = this.filePath(sessionId);
+
+    // Write to a temp file first so readers never see a half-written session;
+    // concurrent writes of one session each get their own temp file
+    const tempFile = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+    await fs.rename(tempFile, target);
+
+    await this.prune();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.rm(this.filePath(sessionId), { force: true });
+  }
+
+  /**
+   * Remove expired sessions (at most once per sweep interval) and the oldest
+   * sessions beyond maxEntries
+   */
+  private async prune(): Promise<void> {
+    let files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json'));
+
+    const now = this.now();
+    if (now - this.lastSweepAt >= EXPIRED_SWEEP_INTERVAL_MS) {
+      this.lastSweepAt = now;
+      files = await this.removeExpired(files, now);
+    }
+    if (files.length <= this.options.maxEntries) return;
+
+    const stats = await Promise.all(files.map(async (file) => {
+      const fullPath = path.join(this.directory, file);
+      try {
+        const stat = await fs.stat(fullPath);
+        return { fullPath, modified: stat.mtimeMs };
+      } catch {
+        return null;
+      }
+    }));
+
+    const existing = stats
+      .filter((s): s is { fullPath: string; modified: number } => s !== null)
+      .sort((a, b) => a.modified - b.modified);
+
+    for (const file of existing.slice(0, existing.length - this.options.maxEntries)) {
+      await fs.rm(file.fullPath, { force: true });
+    }
+  }
+
+  /**
+   * Delete the session files whose expiry has passed; returns the rest
+   */
+  private async removeExpired(files: string[], now: number): Promise<string[]> {
+    const kept: string[] = [];
+    for (const file of files) {
+      const fullPath = path.join(this.directory, file);
+      try {
+        const entry: StoredSession = JSON.parse(await fs.readFile(fullPath, 'utf8'));
+        if (entry.expiresAt <= now) {
+          await fs.rm(fullPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Removed by another instance, or unreadable: left for get() and the size limit
+      }
+      kept.push(file);
+    }
+    return kept;
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+    }
+    return this.ready;
+  }
+
+  private filePath(sessionId: string): string {
+    // Session IDs come from the client, so never use them as raw file names
+    const hashed = createHash('sha256').update(sessionId).digest('hex');
+    return path.join(this.directory, `${hashed}.json`);
+  }
+}
+
+declare global {
+  var sessionStore: SessionStore | undefined;
+}
+
+let sessionStoreInstance: SessionStore | null = null;
+
+/**
+ * Create the session store configured in CONFIG.session
+ */
+export function createSessionStore(): SessionStore {
+  const options: SessionStoreOptions = {
+    ttlMs: CONFIG.session.ttlMs,
+    maxEntries: CONFIG.session.maxEntries,
+    maxSessionBytes: CONFIG.session.maxSessionBytes,
+  };
+
+  if (CONFIG.session.backend === 'file') {
+    console.log(`💾 SESSION STORE: file-backed (${CONFIG.session.fileDirectory})`);
+    return new FileSessionStore(path.resolve(CONFIG.session.fileDirectory), options);
+  }
+
+  console.log('💾 SESSION STORE: in-memory');
+  return new MemorySessionStore(options);
+}
+
+/**
+ * Get the shared session store.
+ * Kept on globalThis in development so sessions survive hot reloads.
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStoreInstance) {
+    sessionStoreInstance = globalThis.sessionStore ?? createSessionStore();
+  }
+  if (process.env.NODE_ENV !== 'production') {
+    globalThis.sessionStore = sessionStoreInstance;
+  }
+  return sessionStoreInstance;
+}
@@ -0,0 +1,290 @@
+import type { Location, Species } from './conservation-tools';
+import { iconicTaxaFor } from './water-bodies';
+import { describeObservationPeriod, extractObservationPeriod, hasObservationPeriod, type ObservationPeriod } from './observation-period';
+import { GBIF_INTRODUCED_MEANS, fromInatEstablishmentMeans, isNonNative, mergeEstablishmentStatus, type EstablishmentStatus } from './establishment-status';
+
+// Taxon-group, Red List, observation-period and establishment filters for location
+// species lists ("only birds", "threatened species", "include fish", "in spring",
+// "invasive species"), and the cursor that pages through the merged iNaturalist
+// and GBIF results ("show more").
+
+export type TaxonGroup = 'mammal' | 'bird' | 'reptile' | 'amphibian' | 'fish' | 'insect' | 'arachnid' | 'mollusc';
+export type RedListCategory = 'CR' | 'EN' | 'VU' | 'NT' | 'LC' | 'DD';
+
+export const TAXON_GROUP_NAMES: TaxonGroup[] = ['mammal', 'bird', 'reptile', 'amphibian', 'fish', 'insect', 'arachnid', 'mollusc'];
+export const RED_LIST_CATEGORIES: RedListCategory[] = ['CR', 'EN', 'VU', 'NT', 'LC', 'DD'];
+
+export interface SpeciesFilters {
+  taxonGroups?: TaxonGroup[];
+  redListCategories?: RedListCategory[];
+  period?: ObservationPeriod;
+  nonNative?: boolean; // only introduced and invasive species
+}
+
+// What to fetch: the filters, and where the previous page ended
+export interface SpeciesQuery {
+  filters?: SpeciesFilters;
+  cursor?: string;
+}
+
+export interface SpeciesPage {
+  species: Species[];
+  nextCursor?: string; // absent on the last page
+}
+
+// Per-session paging state, so "show more" continues the same search
+export interface SpeciesSearchState {
+  filters?: SpeciesFilters;
+  nextCursor?: string;
+  seen: string[]; // scientific names already listed, lower case
+  // Where the listed species were found; the session location moves on when the
+  // user looks up organizations for an animal somewhere else
+  location?: Location;
+}
+
+// iNaturalist iconic taxon, GBIF backbone key and the words users type for each group
+const TAXON_GROUPS: Record<TaxonGroup, { iconicTaxon: string; gbifTaxonKey: number; label: string; words: string[] }> = {
+  mammal: { iconicTaxon: 'Mammalia', gbifTaxonKey: 359, label: 'mammals', words: ['mammal', 'mammals'] },
+  bird: { iconicTaxon: 'Aves', gbifTaxonKey: 212, label: 'birds', words: ['bird', 'birds'] },
+  reptile: { iconicTaxon: 'Reptilia', gbifTaxonKey: 358, label: 'reptiles', words: ['reptile', 'reptiles', 'lizards', 'snakes', 'turtles'] },
+  amphibian: { iconicTaxon: 'Amphibia', gbifTaxonKey: 131, label: 'amphibians', words: ['amphibian', 'amphibians', 'frogs', 'salamanders'] },
+  fish: { iconicTaxon: 'Actinopterygii', gbifTaxonKey: 204, label: 'fish', words: ['fish', 'fishes'] },
+  insect: { iconicTaxon: 'Insecta', gbifTaxonKey: 216, label: 'insects', words: ['insect', 'insects', 'bugs', 'butterflies', 'bees'] },
+  arachnid: { iconicTaxon: 'Arachnida', gbifTaxonKey: 367, label: 'arachnids', words: ['arachnid', 'arachnids', 'spiders', 'scorpions'] },
+  mollusc: { iconicTaxon: 'Mollusca', gbifTaxonKey: 52, label: 'molluscs', words: ['mollusc', 'molluscs', 'mollusk', 'mollusks', 'snails'] }
+};
+
+// Longest phrases first, so "critically endangered" is not read as "endangered"
+const STATUS_PHRASES: Array<{ phrase: string; categories: RedListCategory[] }> = [
+  { phrase: 'critically endangered', categories: ['CR'] },
+  { phrase: 'near threatened', categories: ['NT'] },
+  { phrase: 'endangered', categories: ['CR', 'EN'] },
+  { phrase: 'threatened', categories: ['CR', 'EN', 'VU'] },
+  { phrase: 'at risk', categories: ['CR', 'EN', 'VU'] },
+  { phrase: 'vulnerable', categories: ['VU'] }
+];
+
+// Words that may surround filter words in a request ("show me only the threatened birds")
+const FILLER_WORDS = new Set([
+  'only', 'just', 'all', 'show', 'me', 'the', 'include', 'including', 'also', 'add', 'and', 'or', 'plus', 'with',
+  'species', 'animals', 'wildlife', 'please', 'instead', 'list', 'see', 'some', 'filter', 'to', 'by', 'what', 'about',
+  // "what can I see here in spring?"
+  'can', 'could', 'i', 'we', 'here', 'there', 'in', 'is', 'are', 'be', 'will', 'around', 'visit', 'visiting', 'time', 'year'
+]);
+// "invasive species", "introduced birds", "non-native animals"
+const NON_NATIVE_PHRASE = /\b(invasive|introduced|non-?native|non native|alien|exotic)\b/;
+const INCLUDE_WORDS = /\b(include|including|also|add|plus)\b/;
+const RESET_REQUEST = /^(show )?(me )?(all|any|every)( the)? (species|animals|wildlife|statuses)$|^(clear|remove|reset)( the)? filters?$|^no filters?$|^everything$/;
+const MORE_REQUEST = /^(show |list |see )?(me )?(some )?(more|next|the next page|next page)( species| animals| results)?( please)?$/;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether the input asks for the next page of species ("more", "show more species")
+ */
+export function isMoreSpeciesRequest(text: string): boolean {
+  return MORE_REQUEST.test(normalize(text));
+}
+
+/**
+ * Taxon groups a location is searched for when no group filter is set
+ */
+export function defaultTaxonGroups(location: Pick<Location, 'waterType'>): TaxonGroup[] {
+  const iconicTaxa = iconicTaxaFor(location).split(',');
+  return TAXON_GROUP_NAMES.filter(group => iconicTaxa.includes(TAXON_GROUPS[group].iconicTaxon));
+}
+
+/**
+ * Read a filter request against the current filters: "only birds" replaces the
+ * groups, "include fish" adds to them, "threatened" sets the Red List categories,
+ * "in spring" the observation period (for the location's hemisphere) and "all
+ * species" clears everything. Returns null when the input is not a filter
+ * request, so species names like "Fish Crow" are left alone.
+ */
+export function parseSpeciesFilters(
+  text: string,
+  current: SpeciesFilters = {},
+  location: Partial<Pick<Location, 'waterType' | 'lat'>> = {}
+): SpeciesFilters | null {
+  let remaining = normalize(text);
+  if (RESET_REQUEST.test(remaining)) return {};
+
+  const period = extractObservationPeriod(remaining, location.lat);
+  if (period) remaining = period.rest;
+
+  const status = STATUS_PHRASES.find(({ phrase }) => new RegExp(`\\b${phrase}\\b`).test(remaining));
+  if (status) remaining = remaining.replace(new RegExp(`\\b${status.phrase}\\b`), ' ');
+
+  const nonNative = NON_NATIVE_PHRASE.test(remaining);
+  remaining = remaining.replace(new RegExp(NON_NATIVE_PHRASE.source, 'g'), ' ');
+
+  const groups: TaxonGroup[] = [];
+  for (const word of remaining.split(' ').filter(Boolean)) {
+    const group = TAXON_GROUP_NAMES.find(name => TAXON_GROUPS[name].words.includes(word));
+    if (group) {
+      if (!groups.includes(group)) groups.push(group);
+    } else if (!FILLER_WORDS.has(word)) {
+      return null;
+    }
+  }
+  if (!status && groups.length === 0 && !period && !nonNative) return null;
+
+  let taxonGroups = current.taxonGroups;
+  if (groups.length > 0) {
+    taxonGroups = INCLUDE_WORDS.test(remaining)
+      ? [...new Set([...(current.taxonGroups ?? defaultTaxonGroups(location)), ...groups])]
+      : groups;
+  }
+
+  const redListCategories = status?.categories ?? current.redListCategories;
+  // "any time" clears the period; no mention keeps the current one
+  const observationPeriod = period ? period.period : current.period;
+  return {
+    ...(taxonGroups?.length ? { taxonGroups } : {}),
+    ...(redListCategories?.length ? { redListCategories } : {}),
+    ...(observationPeriod && hasObservationPeriod(observationPeriod) ? { period: observationPeriod } : {}),
+    ...(nonNative || current.nonNative ? { nonNative: true } : {})
+  };
+}
+
+export function hasSpeciesFilters(filters: SpeciesFilters | undefined): boolean {
+  return Boolean(filters?.taxonGroups?.length || filters?.redListCategories?.length || hasObservationPeriod(filters?.period) || filters?.nonNative);
+}
+
+/**
+ * Human-readable description of the filters ("threatened birds and fish in April")
+ */
+export function describeSpeciesFilters(filters: SpeciesFilters | undefined): string {
+  const categories = filters?.redListCategories ?? [];
+  const status = categories.length === 0 ? ''
+    : STATUS_PHRASES.find(({ categories: known }) => known.length === categories.length && known.every(code => categories.includes(code)))?.phrase
+      ?? categories.join('/');
+
+  const labels = (filters?.taxonGroups ?? []).map(group => TAXON_GROUPS[group].label);
+  const groups = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0] ?? 'species';
+
+  const origin = filters?.nonNative ? 'introduced and invasive' : '';
+  const when = describeObservationPeriod(filters?.period);
+  return [status, origin, groups, when].filter(Boolean).join(' ');
+}
+
+/**
+ * iNaturalist iconic_taxa for a search: the filtered groups, else the location's defaults
+ */
+export function iconicTaxaForSearch(location: Pick<Location, 'waterType'>, filters: SpeciesFilters | undefined): string {
+  return filters?.taxonGroups?.length
+    ? filters.taxonGroups.map(group => TAXON_GROUPS[group].iconicTaxon).join(',')
+    : iconicTaxaFor(location);
+}
+
+/**
+ * GBIF taxonKey values for the filtered groups; empty means no taxon filter
+ */
+export function gbifTaxonKeys(filters: SpeciesFilters | undefined): number[] {
+  return (filters?.taxonGroups ?? []).map(group => TAXON_GROUPS[group].gbifTaxonKey);
+}
+
+/**
+ * GBIF establishmentMeans values for the filters; empty means no establishment filter
+ */
+export function gbifEstablishmentMeans(filters: SpeciesFilters | undefined): string[] {
+  return filters?.nonNative ? GBIF_INTRODUCED_MEANS : [];
+}
+
+/**
+ * iNaturalist species_counts parameters for the establishment filter. With
+ * introduced=true iNaturalist judges each observation against the places it
+ * falls in, so no place_id of its own is needed.
+ */
+export function inatEstablishmentParams(filters: SpeciesFilters | undefined): Record<string, string> {
+  return filters?.nonNative ? { introduced: 'true' } : {};
+}
+
+// Introduced taxa looked up alongside an unfiltered iNaturalist page (one
+// introduced=true query over the same area), so its species can be labelled
+export const INAT_INTRODUCED_LOOKUP_SIZE = 200;
+
+/**
+ * Status of an iNaturalist result. species_counts only names establishment_means
+ * for a place_id, so taxa returned for introduced=true (the search itself in
+ * invasive-species mode, or the lookup alongside it otherwise) count as introduced.
+ */
+export function inatEstablishmentStatus(
+  means: Parameters<typeof fromInatEstablishmentMeans>[0],
+  introducedHere: boolean
+): EstablishmentStatus {
+  const status = fromInatEstablishmentMeans(means);
+  return introducedHere ? mergeEstablishmentStatus(status, 'introduced') : status;
+}
+
+/**
+ * Whether a merged species passes the establishment filter, for results from
+ * sources that were not asked to apply it
+ */
+export function matchesEstablishmentFilter(species: Pick<Species, 'establishment'>, filters: SpeciesFilters | undefined): boolean {
+  return !filters?.nonNative || isNonNative(species);
+}
+
+// Where each source's next page starts; a missing position means that source is exhausted
+export interface SpeciesCursor {
+  inatPage?: number;
+  gbifOffset?: number;
+}
+
+const FIRST_PAGE: SpeciesCursor = { inatPage: 1, gbifOffset: 0 };
+
+/**
+ * Opaque cursor string for the next page ("3:80"), or undefined when both sources are exhausted
+ */
+export function encodeSpeciesCursor(cursor: SpeciesCursor): string | undefined {
+  if (cursor.inatPage === undefined && cursor.gbifOffset === undefined) return undefined;
+  return `${cursor.inatPage ?? '-'}:${cursor.gbifOffset ?? '-'}`;
+}
+
+/**
+ * Source positions for a cursor; no cursor (or an unreadable one) starts at the first page
+ */
+export function decodeSpeciesCursor(cursor: string | undefined): SpeciesCursor {
+  const match = cursor?.match(/^(\d+|-):(\d+|-)$/);
+  if (!match) return FIRST_PAGE;
+
+  const position = (value: string) => value === '-' ? undefined : Number(value);
+  const decoded = { inatPage: position(match[1]), gbifOffset: position(match[2]) };
+  return decoded.inatPage === 0 ? FIRST_PAGE : decoded;
+}
+
+/**
+ * Cursor after a page: a source that returned a full page has more to give
+ */
+export function nextSpeciesCursor(
+  cursor: SpeciesCursor,
+  inat: { returned: number; requested: number },
+  gbif: { returned: number; requested: number; endOfRecords?: boolean }
+): string | undefined {
+  return encodeSpeciesCursor({
+    inatPage: cursor.inatPage !== undefined && inat.returned >= inat.requested ? cursor.inatPage + 1 : undefined,
+    gbifOffset: cursor.gbifOffset !== undefined && gbif.returned >= gbif.requested && !gbif.endOfRecords
+      ? cursor.gbifOffset + gbif.requested
+      : undefined
+  });
+}
+
+/**
+ * Merge the sources' species lists, first occurrence of each scientific name
+ * winning; establishment statuses of the duplicates are combined
+ */
+export function mergeSpeciesPages<T extends Pick<Species, 'commonName' | 'scientificName' | 'establishment'>>(...lists: T[][]): T[] {
+  const merged = new Map<string, T>();
+  for (const species of lists.flat()) {
+    const key = (species.scientificName || species.commonName).toLowerCase().trim();
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, species);
+    } else if (existing.establishment || species.establishment) {
+      merged.set(key, { ...existing, establishment: mergeEstablishmentStatus(existing.establishment, species.establishment) });
+    }
+  }
+  return [...merged.values()];
+}
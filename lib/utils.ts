@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Base URL for calling this app's own API routes
+export function getBaseUrl(): string {
+  if (typeof window !== 'undefined') {
+    // Client-side
+    return window.location.origin
+  }
+  // Server-side - use environment variable or detect port
+  const port = process.env.PORT || '3001' // Default to 3001 since 3000 is often in use
+  return process.env.NEXTAUTH_URL || process.env.VERCEL_URL || `http://localhost:${port}`
+}
@@ -0,0 +1,79 @@
+import { CONFIG } from './config';
+import type { Location, WaterType } from './conservation-tools';
+import type { GeocodeCandidate } from './geocoding-service';
+import { normalizePlaceName } from './country-registry';
+import waterBodies from './data/water-bodies.json';
+
+// Oceans, seas and lakes as search locations ("Coral Sea", "Lake Baikal").
+// Well-known water bodies come from data/water-bodies.json, with sea-region and
+// lake extents; others are recognised among geocoder results by their place type.
+// Water locations search aquatic taxa instead of the land defaults.
+
+export interface WaterBodyRecord {
+  name: string;
+  waterType: WaterType;
+  designation: string; // "Ocean", "Sea", "Gulf", "Bay", "Lake"
+  lat: number;
+  lon: number;
+  bbox: [number, number, number, number]; // [south, west, north, east]; west > east crosses the antimeridian
+  aliases?: string[];
+}
+
+// Nominatim place types (addresstype, else type) of water
+const MARINE_TYPES = new Set(['ocean', 'sea', 'bay', 'strait', 'reef', 'lagoon']);
+const FRESHWATER_TYPES = new Set(['lake', 'reservoir', 'river', 'water', 'wetland', 'marsh']);
+
+let waterIndex: Map<string, WaterBodyRecord> | null = null;
+
+function getIndex(): Map<string, WaterBodyRecord> {
+  if (!waterIndex) {
+    waterIndex = new Map();
+    for (const record of waterBodies as WaterBodyRecord[]) {
+      [record.name, ...(record.aliases ?? [])].forEach(name => waterIndex!.set(normalizePlaceName(name), record));
+    }
+  }
+  return waterIndex;
+}
+
+/**
+ * Dataset entry for a name or alias ("the Mediterranean", "Sea of Cortez")
+ */
+export function findWaterBody(query: string): WaterBodyRecord | undefined {
+  const key = normalizePlaceName(query);
+  return getIndex().get(key) ?? getIndex().get(key.replace(/^the /, ''));
+}
+
+export function listWaterBodies(): WaterBodyRecord[] {
+  return waterBodies as WaterBodyRecord[];
+}
+
+/**
+ * Location for a dataset entry, bounded by the water body's extent
+ */
+export function waterBodyLocation(record: WaterBodyRecord): Location {
+  const [south, west, north, east] = record.bbox;
+  return {
+    lat: record.lat,
+    lon: record.lon,
+    displayName: record.name,
+    boundingBox: { south, west, north, east },
+    namedArea: { name: record.name, kind: 'natural-feature', designation: record.designation },
+    waterType: record.waterType
+  };
+}
+
+/**
+ * Whether a geocoder result is a sea or a lake, river or wetland
+ */
+export function waterTypeFromCandidate(candidate: Pick<GeocodeCandidate, 'placeType'>): WaterType | undefined {
+  if (MARINE_TYPES.has(candidate.placeType)) return 'marine';
+  if (FRESHWATER_TYPES.has(candidate.placeType)) return 'freshwater';
+  return undefined;
+}
+
+/**
+ * iNaturalist iconic taxa to search for a location
+ */
+export function iconicTaxaFor(location: Pick<Location, 'waterType'>, iconicTaxa = CONFIG.iconicTaxa): string {
+  return iconicTaxa[location.waterType ?? 'land'];
+}
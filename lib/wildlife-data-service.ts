@@ -1,15 +1,22 @@
 import { Location, Species } from './conservation-tools';
-
-// Get the base URL for API calls
-const getBaseUrl = () => {
-  if (typeof window !== 'undefined') {
-    // Client-side
-    return window.location.origin;
-  }
-  // Server-side - use environment variable or detect port
-  const port = process.env.PORT || '3001'; // Default to 3001 since 3000 is often in use
-  return process.env.NEXTAUTH_URL || process.env.VERCEL_URL || `http://localhost:${port}`;
-};
+import { getBaseUrl } from './utils';
+import { internalRequestHeaders } from './rate-limiter';
+import { describeSearchArea, searchBoundingBox, toGbifGeometry, toInatBounds } from './place-geometry';
+import {
+  decodeSpeciesCursor,
+  gbifEstablishmentMeans,
+  gbifTaxonKeys,
+  iconicTaxaForSearch,
+  INAT_INTRODUCED_LOOKUP_SIZE,
+  inatEstablishmentParams,
+  inatEstablishmentStatus,
+  matchesEstablishmentFilter,
+  nextSpeciesCursor,
+  type SpeciesFilters,
+  type SpeciesQuery
+} from './species-filters';
+import { gbifPeriodParams, inatPeriodParams } from './observation-period';
+import { fromGbifOccurrence, mergeEstablishmentStatus, type EstablishmentStatus } from './establishment-status';
 
 // Unified interface for wildlife observation data
 export interface WildlifeObservation {
@@ -41,6 +48,7 @@ export interface NormalizedSpecies {
   taxonRank?: string;
   habitat?: string;
   imageUrl?: string;
+  establishment?: EstablishmentStatus; // at the searched location
 }
 
 /**
@@ -59,21 +67,45 @@ export class WildlifeDataService {
 
   /**
    * Get species list for a location using all three APIs (iNaturalist, GBIF, IUCN)
-   * Shows ALL wildlife species (endangered and common)
+   * Shows ALL wildlife species (endangered and common), or only those matching the filters
+   */
+  async getSpeciesForLocation(location: Location, limit: number = 20, filters?: SpeciesFilters): Promise<NormalizedSpecies[]> {
+    const { species } = await this.getSpeciesPage(location, { filters }, limit);
+    return species.slice(0, limit);
+  }
+
+  /**
+   * One page of species for a location, merged from iNaturalist and GBIF and
+   * sorted by observation count. `nextCursor` continues both sources where this
+   * page stopped; it is absent once both are exhausted.
    */
-  async getSpeciesForLocation(location: Location, limit: number = 20): Promise<NormalizedSpecies[]> {
+  async getSpeciesPage(
+    location: Location,
+    query: SpeciesQuery = {},
+    limit: number = 20
+  ): Promise<{ species: NormalizedSpecies[]; nextCursor?: string }> {
     console.log(`🔄 FETCHING FROM 3 APIs: iNaturalist, GBIF, and enriching with IUCN Red List`);
 
+    const position = decodeSpeciesCursor(query.cursor);
+    const inatPerPage = limit * 2;
+    const gbifPerPage = limit * 6; // Occurrences, so request more to account for deduplication
+
     const results = await Promise.allSettled([
-      this.getInatSpeciesForLocation(location, limit * 2),
-      this.getGbifSpeciesForLocation(location, limit * 2)
+      position.inatPage !== undefined
+        ? this.getInatSpeciesForLocation(location, inatPerPage, position.inatPage, query.filters)
+        : Promise.resolve([]),
+      position.gbifOffset !== undefined
+        ? this.getGbifSpeciesForLocation(location, gbifPerPage, position.gbifOffset, query.filters)
+        : Promise.resolve({ species: [], occurrenceCount: 0, endOfRecords: true })
     ]);
 
     const inatSpecies = results[0].status === 'fulfilled' ? results[0].value : [];
-    const gbifSpecies = results[1].status === 'fulfilled' ? results[1].value : [];
+    const gbif = results[1].status === 'fulfilled' ? results[1].value : { species: [], occurrenceCount: 0, endOfRecords: true };
 
-    // Merge and deduplicate species
-    const combined = this.mergeSpeciesLists(inatSpecies, gbifSpecies);
+    // Merge and deduplicate species. Both sources were asked for introduced species
+    // only; the filter drops any native records left over
+    const combined = this.mergeSpeciesLists(inatSpecies, gbif.species)
+      .filter(species => matchesEstablishmentFilter(species, query.filters));
 
     // Enrich with authoritative IUCN Red List data
     console.log(`🔴 ENRICHING ${combined.length} species with IUCN Red List data...`);
@@ -82,9 +114,14 @@ export class WildlifeDataService {
     console.log(`🌍 TOTAL: ${enrichedSpecies.length} wildlife species found (all conservation statuses)`);
 
     // Sort by observation count to show most commonly observed species
-    return enrichedSpecies
-      .sort((a, b) => b.observationCount - a.observationCount)
-      .slice(0, limit);
+    return {
+      species: enrichedSpecies.sort((a, b) => b.observationCount - a.observationCount),
+      nextCursor: nextSpeciesCursor(
+        position,
+        { returned: inatSpecies.length, requested: inatPerPage },
+        { returned: gbif.occurrenceCount, requested: gbifPerPage, endOfRecords: gbif.endOfRecords }
+      )
+    };
   }
 
   /**
@@ -96,37 +133,23 @@ export class WildlifeDataService {
 
     const enrichmentResults = await Promise.allSettled(
       speciesToEnrich.map(async (sp) => {
-        try {
-          const response = await fetch(
-            `${getBaseUrl()}/api/iucn/species-status?scientificName=${encodeURIComponent(sp.scientificName)}`
-          );
-
-          if (!response.ok) {
-            return sp; // Return original if IUCN lookup fails
-          }
-
-          const iucnData = await response.json();
-
-          if (iucnData.found) {
-            console.log(`✅ IUCN ENRICHED: ${sp.scientificName} → ${iucnData.categoryLabel}`);
-            return {
-              ...sp,
-              conservationStatus: iucnData.categoryLabel || sp.conservationStatus,
-              source: 'combined' as const,
-              // Add IUCN-specific data to species object
-              iucnData: {
-                category: iucnData.category,
-                populationTrend: iucnData.populationTrend,
-                assessmentDate: iucnData.assessmentDate
-              }
-            };
-          }
-
-          return sp;
-        } catch (error) {
-          console.warn(`⚠️ IUCN enrichment failed for ${sp.scientificName}:`, error);
-          return sp;
+        const iucnData = await this.lookupIUCNStatus(sp.scientificName);
+
+        if (iucnData) {
+          return {
+            ...sp,
+            conservationStatus: iucnData.categoryLabel || sp.conservationStatus,
+            source: 'combined' as const,
+            // Add IUCN-specific data to species object
+            iucnData: {
+              category: iucnData.category,
+              populationTrend: iucnData.populationTrend,
+              assessmentDate: iucnData.assessmentDate
+            }
+          };
         }
+
+        return sp;
       })
     );
 
@@ -138,29 +161,97 @@ export class WildlifeDataService {
     return [...enriched, ...species.slice(10)];
   }
 
+  /**
+   * Enrich a displayed species list with IUCN Red List status
+   * Returns the updated list and how many species IUCN had an assessment for
+   */
+  async enrichSpeciesStatus(species: Species[], limit: number = 10): Promise<{ species: Species[]; enrichedCount: number }> {
+    let enrichedCount = 0;
+
+    const enriched = await Promise.all(
+      species.map(async (sp, index) => {
+        if (index >= limit || !sp.scientificName) return sp;
+
+        const iucnData = await this.lookupIUCNStatus(sp.scientificName);
+        if (!iucnData?.categoryLabel) return sp;
+
+        enrichedCount++;
+        return { ...sp, conservationStatus: iucnData.categoryLabel };
+      })
+    );
+
+    return { species: enriched, enrichedCount };
+  }
+
+  /**
+   * Look up a species on the IUCN Red List via the internal API route
+   */
+  private async lookupIUCNStatus(scientificName: string): Promise<{
+    category?: string;
+    categoryLabel?: string;
+    populationTrend?: string;
+    assessmentDate?: string;
+  } | null> {
+    try {
+      const response = await fetch(
+        `${getBaseUrl()}/api/iucn/species-status?scientificName=${encodeURIComponent(scientificName)}`,
+        { headers: internalRequestHeaders() }
+      );
+
+      if (!response.ok) {
+        return null; // Keep original data if IUCN lookup fails
+      }
+
+      const iucnData = await response.json();
+
+      if (iucnData.found) {
+        console.log(`✅ IUCN ENRICHED: ${scientificName} → ${iucnData.categoryLabel}`);
+        return iucnData;
+      }
+
+      return null;
+    } catch (error) {
+      console.warn(`⚠️ IUCN enrichment failed for ${scientificName}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Get species data from iNaturalist
    * Shows all species (endangered and common)
    */
-  private async getInatSpeciesForLocation(location: Location, limit: number): Promise<NormalizedSpecies[]> {
+  private async getInatSpeciesForLocation(
+    location: Location,
+    limit: number,
+    page: number = 1,
+    filters?: SpeciesFilters
+  ): Promise<NormalizedSpecies[]> {
     try {
-      // Determine search radius based on location type
-      // Country/state searches use larger radius, city searches use smaller radius
-      const isCountryOrState = !location.city;
-      const radius = isCountryOrState ? '500' : '50'; // 500km for countries, 50km for cities
+      // Search the place's own extent rather than a fixed radius around its centre
+      const bounds = toInatBounds(searchBoundingBox(location));
+      console.log(`🗺️ iNaturalist search area: ${describeSearchArea(location)}`);
 
       // Get species counts for the location
       const params = new URLSearchParams({
-        lat: location.lat.toString(),
-        lng: location.lon.toString(),
-        radius: radius,
+        swlat: bounds.swlat.toString(),
+        swlng: bounds.swlng.toString(),
+        nelat: bounds.nelat.toString(),
+        nelng: bounds.nelng.toString(),
         per_page: limit.toString(),
-        iconic_taxa: 'Mammalia,Aves,Reptilia,Amphibia'
+        page: page.toString(),
+        iconic_taxa: iconicTaxaForSearch(location, filters)
         // Removed threatened: 'true' to show ALL wildlife (not just endangered)
       });
+      if (filters?.redListCategories?.length) params.set('csi', filters.redListCategories.join(','));
+      for (const [name, value] of Object.entries(inatPeriodParams(filters?.period))) params.set(name, value);
+      for (const [name, value] of Object.entries(inatEstablishmentParams(filters))) params.set(name, value);
 
-      // Use absolute URL for server-side fetch
-      const response = await fetch(`${getBaseUrl()}/api/inat/species-counts?${params.toString()}`);
+      // Use absolute URL for server-side fetch. Outside invasive-species mode the
+      // introduced taxa of the same area are looked up too, to label the results.
+      const [response, introduced] = await Promise.all([
+        fetch(`${getBaseUrl()}/api/inat/species-counts?${params.toString()}`, { headers: internalRequestHeaders() }),
+        filters?.nonNative ? Promise.resolve(null) : this.getInatIntroducedTaxonIds(params)
+      ]);
 
       if (!response.ok) {
         console.error('iNaturalist species-counts API error:', response.status);
@@ -190,7 +281,8 @@ export class WildlifeDataService {
           recentObservations: [],
           source: 'iNaturalist',
           taxonRank: taxon.rank,
-          imageUrl: taxon.default_photo?.square_url || taxon.default_photo?.small_url
+          imageUrl: taxon.default_photo?.square_url || taxon.default_photo?.small_url,
+          establishment: inatEstablishmentStatus(taxon.establishment_means, !introduced || introduced.has(taxon.id))
         };
 
         species.push(normalizedSpecies);
@@ -204,35 +296,69 @@ export class WildlifeDataService {
   }
 
   /**
-   * Get species data from GBIF
-   * Shows all species (endangered and common)
+   * iNaturalist taxa introduced in the area of a species_counts search; empty when
+   * the lookup fails, which leaves the results unlabelled rather than failing them
    */
-  private async getGbifSpeciesForLocation(location: Location, limit: number): Promise<NormalizedSpecies[]> {
+  private async getInatIntroducedTaxonIds(search: URLSearchParams): Promise<Set<number>> {
+    const params = new URLSearchParams(search);
+    params.set('introduced', 'true');
+    params.set('per_page', INAT_INTRODUCED_LOOKUP_SIZE.toString());
+    params.set('page', '1');
+
     try {
-      // Determine search radius based on location type
-      const isCountryOrState = !location.city;
-      const radius = isCountryOrState ? '500' : '50'; // 500km for countries, 50km for cities
+      const response = await fetch(`${getBaseUrl()}/api/inat/species-counts?${params.toString()}`, { headers: internalRequestHeaders() });
+      if (!response.ok) return new Set();
+
+      const data = await response.json();
+      return new Set((data.results ?? []).map((item: { taxon?: { id: number } }) => item.taxon?.id).filter(Boolean));
+    } catch (error) {
+      console.warn('⚠️ iNaturalist introduced-taxa lookup failed:', error);
+      return new Set();
+    }
+  }
 
-      // Use regular occurrences endpoint to get ALL species (not just endangered)
+  /**
+   * Get species data from GBIF: one page of occurrences, grouped by species
+   * Shows all species (endangered and common)
+   */
+  private async getGbifSpeciesForLocation(
+    location: Location,
+    limit: number,
+    offset: number = 0,
+    filters?: SpeciesFilters
+  ): Promise<{ species: NormalizedSpecies[]; occurrenceCount: number; endOfRecords: boolean }> {
+    const none = { species: [], occurrenceCount: 0, endOfRecords: true };
+    try {
+      // Use regular occurrences endpoint to get ALL species (not just endangered),
+      // within the place outline (or its bounding box)
       const params = new URLSearchParams({
-        lat: location.lat.toString(),
-        lng: location.lon.toString(),
-        radius: radius,
-        limit: (limit * 3).toString() // Request more to account for deduplication
+        geometry: toGbifGeometry(location),
+        limit: limit.toString(),
+        offset: offset.toString()
       });
-
-      const response = await fetch(`${getBaseUrl()}/api/gbif/occurrences?${params.toString()}`);
+      const taxonKeys = gbifTaxonKeys(filters);
+      if (taxonKeys.length > 0) params.set('taxonKey', taxonKeys.join(','));
+      if (filters?.redListCategories?.length) params.set('iucnRedListCategory', filters.redListCategories.join(','));
+      const establishmentMeans = gbifEstablishmentMeans(filters);
+      if (establishmentMeans.length > 0) params.set('establishmentMeans', establishmentMeans.join(','));
+      // The proxy takes months as one comma-separated value
+      const period = gbifPeriodParams(filters?.period);
+      const months = period.filter(([name]) => name === 'month').map(([, value]) => value);
+      if (months.length > 0) params.set('month', months.join(','));
+      for (const [name, value] of period) if (name === 'eventDate') params.set(name, value);
+
+      const response = await fetch(`${getBaseUrl()}/api/gbif/occurrences?${params.toString()}`, { headers: internalRequestHeaders() });
 
       if (!response.ok) {
         console.error('GBIF occurrences API error:', response.status);
-        return [];
+        return none;
       }
 
       const data = await response.json();
 
       if (!data.results || !Array.isArray(data.results)) {
         console.warn('No GBIF occurrences results found');
-        return [];
+        return none;
       }
 
       // Group occurrences by species and count them
@@ -241,6 +367,7 @@ export class WildlifeDataService {
         scientificName: string;
         vernacularName?: string;
         iucnStatus: string;
+        establishment: EstablishmentStatus;
         count: number;
       }>();
 
@@ -249,14 +376,17 @@ export class WildlifeDataService {
         if (!taxonKey) continue;
 
         const key = taxonKey.toString();
-        if (speciesMap.has(key)) {
-          speciesMap.get(key)!.count++;
+        const existing = speciesMap.get(key);
+        if (existing) {
+          existing.count++;
+          existing.establishment = mergeEstablishmentStatus(existing.establishment, fromGbifOccurrence(occurrence));
         } else {
           speciesMap.set(key, {
             taxonKey: key,
             scientificName: occurrence.scientificName || occurrence.species || 'Unknown',
             vernacularName: occurrence.vernacularName,
             iucnStatus: occurrence.iucnRedListCategory || 'Not Evaluated',
+            establishment: fromGbifOccurrence(occurrence),
             count: 1
           });
         }
@@ -271,14 +401,15 @@ export class WildlifeDataService {
         observationCount: sp.count,
         recentObservations: [],
         source: 'GBIF',
-        taxonRank: 'SPECIES'
+        taxonRank: 'SPECIES',
+        establishment: sp.establishment
       }));
 
       console.log(`🌍 GBIF found ${species.length} species from ${data.results.length} occurrences`);
-      return species.slice(0, limit);
+      return { species, occurrenceCount: data.results.length, endOfRecords: Boolean(data.endOfRecords) };
     } catch (error) {
       console.error('Error fetching GBIF endangered species:', error);
-      return [];
+      return none;
     }
   }
 
@@ -340,7 +471,7 @@ export class WildlifeDataService {
       });
 
       // Use relative URL to avoid port issues
-      const response = await fetch(`${getBaseUrl()}/api/inat/observations?${params.toString()}`);
+      const response = await fetch(`${getBaseUrl()}/api/inat/observations?${params.toString()}`, { headers: internalRequestHeaders() });
 
       if (!response.ok) return [];
 
@@ -386,7 +517,7 @@ export class WildlifeDataService {
       });
 
       // Use relative URL to avoid port issues
-      const response = await fetch(`${getBaseUrl()}/api/gbif/occurrences?${params.toString()}`);
+      const response = await fetch(`${getBaseUrl()}/api/gbif/occurrences?${params.toString()}`, { headers: internalRequestHeaders() });
 
       if (!response.ok) return [];
 
@@ -438,6 +569,7 @@ export class WildlifeDataService {
         // Merge the species data
         existing.observationCount += species.observationCount;
         existing.source = 'combined';
+        existing.establishment = mergeEstablishmentStatus(existing.establishment, species.establishment);
         if (!existing.imageUrl && species.imageUrl) {
           existing.imageUrl = species.imageUrl;
         }
@@ -21,6 +21,28 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { createGeocoder } from '../../lib/geocoder';
+import { searchBoundingBox, toGbifGeometry, toInatBounds } from '../../lib/place-geometry';
+import {
+  RED_LIST_CATEGORIES,
+  TAXON_GROUP_NAMES,
+  decodeSpeciesCursor,
+  gbifEstablishmentMeans,
+  gbifTaxonKeys,
+  iconicTaxaForSearch,
+  INAT_INTRODUCED_LOOKUP_SIZE,
+  inatEstablishmentParams,
+  inatEstablishmentStatus,
+  matchesEstablishmentFilter,
+  mergeSpeciesPages,
+  nextSpeciesCursor,
+  type RedListCategory,
+  type SpeciesFilters,
+  type TaxonGroup,
+} from '../../lib/species-filters';
+import { gbifPeriodParams, inatPeriodParams } from '../../lib/observation-period';
+import { fromGbifOccurrence, type EstablishmentStatus } from '../../lib/establishment-status';
+import type { BoundingBox, NamedArea, WaterType } from '../../lib/conservation-tools';
 
 // Tool schemas
 const GeocodeLocationSchema = z.object({
@@ -34,6 +56,26 @@ const FindSpeciesByLocationSchema = z.object({
   city: z.string().optional().describe('City name'),
   state: z.string().optional().describe('State/province name'),
   country: z.string().optional().describe('Country name'),
+  boundingBox: z.object({
+    south: z.number(),
+    west: z.number(),
+    north: z.number(),
+    east: z.number(),
+  }).optional().describe('Place extent from the geocoder'),
+  polygon: z.string().optional().describe('Place outline as WKT POLYGON/MULTIPOLYGON'),
+  namedArea: z.object({
+    name: z.string(),
+    kind: z.enum(['protected-area', 'natural-feature']),
+    designation: z.string().optional(),
+  }).optional().describe('Protected area or natural feature the search is limited to'),
+  waterType: z.enum(['marine', 'freshwater']).optional().describe('Set for seas and lakes, to search aquatic taxa'),
+  taxonGroups: z.array(z.enum(TAXON_GROUP_NAMES as [TaxonGroup, ...TaxonGroup[]])).optional().describe('Only these taxon groups (e.g. ["bird"])'),
+  redListCategories: z.array(z.enum(RED_LIST_CATEGORIES as [RedListCategory, ...RedListCategory[]])).optional().describe('Only these IUCN Red List categories (e.g. ["CR", "EN"])'),
+  months: z.array(z.number().int().min(1).max(12)).optional().describe('Only observations in these months (1-12)'),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Only observations on or after this date (YYYY-MM-DD)'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Only observations on or before this date (YYYY-MM-DD)'),
+  nonNative: z.boolean().optional().describe('Only introduced and invasive species'),
+  cursor: z.string().optional().describe('nextCursor from the previous page'),
 });
 
 const GetSpeciesInfoSchema = z.object({
@@ -61,6 +103,10 @@ interface Location {
   state?: string;
   country?: string;
   displayName: string;
+  boundingBox?: BoundingBox;
+  polygon?: string;
+  namedArea?: NamedArea;
+  waterType?: WaterType;
 }
 
 interface Species {
@@ -72,43 +118,23 @@ interface Species {
   imageUrl?: string;
   habitat?: string;
   source?: string;
+  establishment?: EstablishmentStatus;
 }
 
+// Geocoding goes through the app's provider chain: Nominatim is cached and limited to
+// 1 request per second, both through the file cache directory shared with the Next.js app
+const geocoder = createGeocoder({ log: console.error });
+
 // Geocoding function
 async function geocodeLocation(locationQuery: string): Promise<Location | null> {
   try {
     console.error(`🗺️ GEOCODING: "${locationQuery}"`);
 
-    const cleanQuery = locationQuery.trim();
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?` +
-      `q=${encodeURIComponent(cleanQuery)}&` +
-      `format=json&` +
-      `limit=1&` +
-      `addressdetails=1`,
-      {
-        headers: {
-          'User-Agent': 'Wildlife-Finder-MCP/1.0 (Educational Conservation Tool)',
-        },
-      }
-    );
-
-    const data = await response.json();
-
-    if (!data || data.length === 0) {
+    const location = await geocoder.geocode(locationQuery);
+    if (!location) {
       return null;
     }
 
-    const result = data[0];
-    const location: Location = {
-      lat: parseFloat(result.lat),
-      lon: parseFloat(result.lon),
-      displayName: result.display_name,
-      city: result.address?.city || result.address?.town || result.address?.village,
-      state: result.address?.state,
-      country: result.address?.country,
-    };
-
     console.error(`✅ GEOCODED: ${location.displayName}`);
     return location;
 
@@ -118,42 +144,75 @@ async function geocodeLocation(locationQuery: string): Promise<Location | null>
   }
 }
 
-// Find species by location
-async function findSpeciesByLocation(location: Location): Promise<Species[]> {
-  try {
-    console.error(`🔍 SPECIES SEARCH: ${location.displayName}`);
-
-    const allSpecies: Species[] = [];
+// Species per iNaturalist page and occurrences per GBIF page
+const INAT_PAGE_SIZE = 20;
+const GBIF_PAGE_SIZE = 50;
 
-    // Determine search radius based on location type
-    // Country/state searches use larger radius, city searches use smaller radius
-    const isCountryOrState = !location.city;
-    const radius = isCountryOrState ? 500 : 50; // 500km for countries, 50km for cities
+// Find one page of species by location
+async function findSpeciesByLocation(
+  location: Location,
+  filters: SpeciesFilters = {},
+  cursor?: string
+): Promise<{ species: Species[]; nextCursor?: string }> {
+  try {
+    console.error(`🔍 SPECIES SEARCH: ${location.displayName}, filters: ${JSON.stringify(filters)}, cursor: ${cursor ?? 'first page'}`);
+
+    const position = decodeSpeciesCursor(cursor);
+    const inatSpecies: Species[] = [];
+    const gbifSpecies: Species[] = [];
+    let inatReturned = 0;
+    let gbifReturned = 0;
+    let gbifEndOfRecords = false;
+
+    // Search within the place's extent (falls back to a radius when it has none);
+    // named areas are searched exactly
+    if (location.namedArea) {
+      console.error(`🏞️ LIMITED TO: ${location.namedArea.name}`);
+    }
+    const bounds = toInatBounds(searchBoundingBox(location));
 
     // Search iNaturalist (removed threatened filter to show ALL species)
-    const iNatUrl = `https://api.inaturalist.org/v1/observations/species_counts?` +
-      `lat=${location.lat}&` +
-      `lng=${location.lon}&` +
-      `radius=${radius}&` +
-      `quality_grade=research&` +
-      `per_page=40&` +
-      `order=desc&` +
-      `order_by=count`;
-
-    const iNatResponse = await fetch(iNatUrl, {
-      headers: {
-        'User-Agent': 'Wildlife-Finder-MCP/1.0 (Educational Conservation Tool)',
-      },
-    });
-
-    const iNatData = await iNatResponse.json();
-
-    if (iNatData.results) {
-      for (const result of iNatData.results) {
+    if (position.inatPage !== undefined) {
+      const iNatSearch = `https://api.inaturalist.org/v1/observations/species_counts?` +
+        `swlat=${bounds.swlat}&` +
+        `swlng=${bounds.swlng}&` +
+        `nelat=${bounds.nelat}&` +
+        `nelng=${bounds.nelng}&` +
+        // Seas and lakes: fish, cetaceans, sea turtles, corals and other aquatic taxa;
+        // a taxon filter replaces the defaults
+        (location.waterType || filters.taxonGroups?.length ? `iconic_taxa=${iconicTaxaForSearch(location, filters)}&` : '') +
+        (filters.redListCategories?.length ? `csi=${filters.redListCategories.join(',')}&` : '') +
+        // Seasonal and date-range searches
+        Object.entries(inatPeriodParams(filters.period)).map(([name, value]) => `${name}=${value}&`).join('') +
+        `quality_grade=research&` +
+        `order=desc&` +
+        `order_by=count&`;
+      const iNatUrl = iNatSearch +
+        // Invasive-species searches
+        Object.entries(inatEstablishmentParams(filters)).map(([name, value]) => `${name}=${value}&`).join('') +
+        `per_page=${INAT_PAGE_SIZE}&` +
+        `page=${position.inatPage}`;
+      const iNatHeaders = { 'User-Agent': 'Wildlife-Finder-MCP/1.0 (Educational Conservation Tool)' };
+
+      // Outside invasive-species mode, the introduced taxa of the same area label the results
+      const [iNatResponse, introduced] = await Promise.all([
+        fetch(iNatUrl, { headers: iNatHeaders }),
+        filters.nonNative
+          ? Promise.resolve(null)
+          : fetch(`${iNatSearch}introduced=true&per_page=${INAT_INTRODUCED_LOOKUP_SIZE}&page=1`, { headers: iNatHeaders })
+            .then(response => response.json())
+            .then(data => new Set<number>((data.results ?? []).map((item: { taxon?: { id: number } }) => item.taxon?.id)))
+            .catch(() => new Set<number>())
+      ]);
+
+      const iNatData = await iNatResponse.json();
+      inatReturned = iNatData.results?.length ?? 0;
+
+      for (const result of iNatData.results ?? []) {
         const taxon = result.taxon;
         if (!taxon) continue;
 
-        allSpecies.push({
+        inatSpecies.push({
           id: `inat-${taxon.id}`,
           commonName: taxon.preferred_common_name || taxon.name,
           scientificName: taxon.name,
@@ -162,53 +221,61 @@ async function findSpeciesByLocation(location: Location): Promise<Species[]> {
           imageUrl: taxon.default_photo?.medium_url,
           habitat: '',
           source: 'iNaturalist',
+          establishment: inatEstablishmentStatus(taxon.establishment_means, !introduced || introduced.has(taxon.id)),
         });
       }
     }
 
-    // Search GBIF (if needed for more species)
-    if (allSpecies.length < 30) {
-      const gbifRadius = radius * 1000; // Convert km to meters for GBIF
+    // Search GBIF occurrences in the same area, with the same filters
+    if (position.gbifOffset !== undefined) {
       const gbifUrl = `https://api.gbif.org/v1/occurrence/search?` +
-        `decimalLatitude=${location.lat}&` +
-        `decimalLongitude=${location.lon}&` +
-        `radius=${gbifRadius}&` +
+        `geometry=${encodeURIComponent(toGbifGeometry(location))}&` +
+        gbifTaxonKeys(filters).map(key => `taxonKey=${key}&`).join('') +
+        (filters.redListCategories ?? []).map(category => `iucnRedListCategory=${category}&`).join('') +
+        gbifEstablishmentMeans(filters).map(means => `establishmentMeans=${means}&`).join('') +
+        gbifPeriodParams(filters.period).map(([name, value]) => `${name}=${encodeURIComponent(value)}&`).join('') +
         `hasCoordinate=true&` +
-        `limit=20`;
+        `limit=${GBIF_PAGE_SIZE}&` +
+        `offset=${position.gbifOffset}`;
 
       const gbifResponse = await fetch(gbifUrl);
       const gbifData = await gbifResponse.json();
-
-      if (gbifData.results) {
-        for (const result of gbifData.results) {
-          if (!result.species) continue;
-
-          // Avoid duplicates
-          const exists = allSpecies.find(
-            (s) => s.scientificName.toLowerCase() === result.species.toLowerCase()
-          );
-          if (exists) continue;
-
-          allSpecies.push({
-            id: `gbif-${result.key}`,
-            commonName: result.vernacularName || result.species,
-            scientificName: result.species,
-            conservationStatus: 'Not Evaluated',
-            description: '',
-            imageUrl: '',
-            habitat: '',
-            source: 'GBIF',
-          });
-        }
+      gbifReturned = gbifData.results?.length ?? 0;
+      gbifEndOfRecords = Boolean(gbifData.endOfRecords);
+
+      for (const result of gbifData.results ?? []) {
+        if (!result.species) continue;
+
+        gbifSpecies.push({
+          id: `gbif-${result.key}`,
+          commonName: result.vernacularName || result.species,
+          scientificName: result.species,
+          conservationStatus: 'Not Evaluated',
+          description: '',
+          imageUrl: '',
+          habitat: '',
+          source: 'GBIF',
+          establishment: fromGbifOccurrence(result),
+        });
       }
     }
 
-    console.error(`✅ FOUND ${allSpecies.length} species`);
-    return allSpecies.slice(0, 20);
+    // iNaturalist first, then GBIF species it didn't already list. Both sources were
+    // asked for introduced species only; the filter drops any native records left over.
+    const species = mergeSpeciesPages(inatSpecies, gbifSpecies)
+      .filter(candidate => matchesEstablishmentFilter(candidate, filters));
+    const nextCursor = nextSpeciesCursor(
+      position,
+      { returned: inatReturned, requested: INAT_PAGE_SIZE },
+      { returned: gbifReturned, requested: GBIF_PAGE_SIZE, endOfRecords: gbifEndOfRecords }
+    );
+
+    console.error(`✅ FOUND ${species.length} species${nextCursor ? `, more from ${nextCursor}` : ''}`);
+    return { species, nextCursor };
 
   } catch (error) {
     console.error('❌ SPECIES SEARCH ERROR:', error);
-    return [];
+    return { species: [] };
   }
 }
 
@@ -545,7 +612,8 @@ const tools: Tool[] = [
   },
   {
     name: 'find_species_by_location',
-    description: 'Find wildlife species observed in a specific location using iNaturalist and GBIF APIs.',
+    description: 'Find wildlife species observed in a specific location using iNaturalist and GBIF APIs. ' +
+      'Returns one page ({ species, nextCursor }); pass nextCursor back to get the next page.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -573,6 +641,67 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Country name',
         },
+        boundingBox: {
+          type: 'object',
+          description: 'Place extent from the geocoder',
+          properties: {
+            south: { type: 'number' },
+            west: { type: 'number' },
+            north: { type: 'number' },
+            east: { type: 'number' },
+          },
+          required: ['south', 'west', 'north', 'east'],
+        },
+        polygon: {
+          type: 'string',
+          description: 'Place outline as WKT POLYGON/MULTIPOLYGON',
+        },
+        namedArea: {
+          type: 'object',
+          description: 'Protected area or natural feature the search is limited to',
+          properties: {
+            name: { type: 'string' },
+            kind: { type: 'string', enum: ['protected-area', 'natural-feature'] },
+            designation: { type: 'string' },
+          },
+          required: ['name', 'kind'],
+        },
+        waterType: {
+          type: 'string',
+          enum: ['marine', 'freshwater'],
+          description: 'Set for seas and lakes, to search aquatic taxa',
+        },
+        taxonGroups: {
+          type: 'array',
+          items: { type: 'string', enum: TAXON_GROUP_NAMES },
+          description: 'Only these taxon groups (e.g. ["bird"])',
+        },
+        redListCategories: {
+          type: 'array',
+          items: { type: 'string', enum: RED_LIST_CATEGORIES },
+          description: 'Only these IUCN Red List categories (e.g. ["CR", "EN"])',
+        },
+        months: {
+          type: 'array',
+          items: { type: 'integer', minimum: 1, maximum: 12 },
+          description: 'Only observations in these months (1-12)',
+        },
+        startDate: {
+          type: 'string',
+          description: 'Only observations on or after this date (YYYY-MM-DD)',
+        },
+        endDate: {
+          type: 'string',
+          description: 'Only observations on or before this date (YYYY-MM-DD)',
+        },
+        nonNative: {
+          type: 'boolean',
+          description: 'Only introduced and invasive species',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from the previous page',
+        },
       },
       required: ['latitude', 'longitude', 'displayName'],
     },
@@ -674,13 +803,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           city: parsed.city,
           state: parsed.state,
           country: parsed.country,
+          boundingBox: parsed.boundingBox,
+          polygon: parsed.polygon,
+          namedArea: parsed.namedArea,
+          waterType: parsed.waterType,
+        };
+        const filters: SpeciesFilters = {
+          taxonGroups: parsed.taxonGroups,
+          redListCategories: parsed.redListCategories,
+          period: parsed.months || (parsed.startDate && parsed.endDate)
+            ? { months: parsed.months, startDate: parsed.startDate, endDate: parsed.endDate }
+            : undefined,
+          nonNative: parsed.nonNative,
         };
-        const species = await findSpeciesByLocation(location);
+        const page = await findSpeciesByLocation(location, filters, parsed.cursor);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(species, null, 2),
+              text: JSON.stringify(page, null, 2),
             },
           ],
         };
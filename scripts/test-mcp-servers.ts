@@ -62,7 +62,7 @@ async function testSpeciesFetcherMCP() {
 
     // Test 2: Find species by location
     console.log('\nTest 2: find_species_by_location');
-    const species = await speciesFetcherMCP.findSpeciesByLocation({
+    const { species, nextCursor } = await speciesFetcherMCP.findSpeciesByLocation({
       latitude: location.lat,
       longitude: location.lon,
       displayName: location.displayName,
@@ -70,7 +70,7 @@ async function testSpeciesFetcherMCP() {
       state: location.state,
       country: location.country,
     });
-    console.log('✅ Found species:', species.length);
+    console.log('✅ Found species:', species.length, nextCursor ? `(next page: ${nextCursor})` : '');
     console.log('First 3 species:', species.slice(0, 3).map((s: any) => ({
       commonName: s.commonName,
       scientificName: s.scientificName,
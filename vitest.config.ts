@@ -8,6 +8,10 @@ export default defineConfig({
     environment: 'jsdom',
     globals: true,
     setupFiles: ['./test/setup.ts'],
+    env: {
+      // Keep geocoding results from tests out of the on-disk cache
+      GEOCODE_CACHE_BACKEND: 'memory',
+    },
   },
   resolve: {
     alias: {